@@ -5,16 +5,49 @@ import { StartView } from './pages/StartView';
 import { ActiveSessionView } from './pages/ActiveSessionView';
 import { TrainingSessionView } from './pages/TrainingSessionView';
 import { SummaryView } from './pages/SummaryView';
+import { TrashView } from './pages/TrashView';
+import { LogSessionView } from './pages/LogSessionView';
+import { GradeScalesView } from './pages/GradeScalesView';
+import { StyleStatsView } from './pages/StyleStatsView';
+import { ProjectsView } from './pages/ProjectsView';
+import { ProjectView } from './pages/ProjectView';
+import { ExercisesView } from './pages/ExercisesView';
+import { ProtocolsView } from './pages/ProtocolsView';
+import { ProgressView } from './pages/ProgressView';
+import { RecordsView } from './pages/RecordsView';
+import { CalendarView } from './pages/CalendarView';
+import { ReportView } from './pages/ReportView';
+import { StorageErrorBanner } from './components/StorageErrorBanner';
+
+interface AppProps {
+  /** Why sessions could not be loaded at startup (undefined if they were) */
+  loadError?: string;
+}
 
 /**
  * Main App component with routing.
- * Sets up React Router with four main views:
+ * Sets up React Router with the main views:
  * - StartView: Home screen with session type selection
  * - ActiveSessionView: Volume session tracking
  * - TrainingSessionView: Training session tracking
  * - SummaryView: Post-session statistics
+ * - TrashView: Deleted sessions awaiting restore or purge
+ * - LogSessionView: Entry form for sessions done without the app
+ * - GradeScalesView: Grading systems and custom gym circuits
+ * - StyleStatsView: Fail rate by style tag across sessions
+ * - ProjectsView: Boulders worked on over several sessions
+ * - ProjectView: One project's attempts up to the send
+ * - ExercisesView: Exercise catalog for training sessions
+ * - ProtocolsView: Protocol templates for training sessions
+ * - ProgressView: Long-term charts across sessions
+ * - RecordsView: All-time personal records
+ * - CalendarView: Sessions by day, with streaks
+ * - ReportView: Weekly and monthly reports
+ *
+ * Failed session writes, and sessions that could not be loaded at startup,
+ * are reported on every page by StorageErrorBanner.
  */
-function App() {
+function App({ loadError }: AppProps) {
   // Initialize theme on mount
   useEffect(() => {
     initializeTheme();
@@ -22,11 +55,24 @@ function App() {
 
   return (
     <BrowserRouter basename="/Boulder-Body">
+      <StorageErrorBanner loadError={loadError} />
       <Routes>
         <Route path="/" element={<StartView />} />
         <Route path="/session/:sessionId" element={<ActiveSessionView />} />
         <Route path="/training/:sessionId" element={<TrainingSessionView />} />
         <Route path="/summary/:sessionId" element={<SummaryView />} />
+        <Route path="/trash" element={<TrashView />} />
+        <Route path="/log" element={<LogSessionView />} />
+        <Route path="/grades" element={<GradeScalesView />} />
+        <Route path="/styles" element={<StyleStatsView />} />
+        <Route path="/projects" element={<ProjectsView />} />
+        <Route path="/projects/:projectId" element={<ProjectView />} />
+        <Route path="/exercises" element={<ExercisesView />} />
+        <Route path="/protocols" element={<ProtocolsView />} />
+        <Route path="/progress" element={<ProgressView />} />
+        <Route path="/records" element={<RecordsView />} />
+        <Route path="/calendar" element={<CalendarView />} />
+        <Route path="/report" element={<ReportView />} />
       </Routes>
     </BrowserRouter>
   );
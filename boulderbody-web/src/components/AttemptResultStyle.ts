@@ -0,0 +1,75 @@
+/**
+ * AttemptResultStyle.ts
+ *
+ * Labels and colors for boulder attempt results, shared by the boulder grid,
+ * the log modal and the summary chart.
+ */
+
+import type { AttemptResult } from '../models/BoulderAttempt';
+
+interface ResultStyle {
+  /** Display name */
+  label: string;
+
+  /** Icon shown on the log button */
+  icon: string;
+
+  /** Explanation shown as tooltip */
+  description: string;
+
+  /** Tailwind classes for a filled button or grid cell */
+  buttonClass: string;
+
+  /** Tailwind classes for a light stat tile, e.g. "bg-green-100 ..." */
+  tileClass: string;
+
+  /** Hex color for charts */
+  chartColor: string;
+}
+
+export const RESULT_STYLES: Record<AttemptResult, ResultStyle> = {
+  onsight: {
+    label: 'Onsight',
+    icon: '👁',
+    description: 'First try without any beta',
+    buttonClass: 'bg-teal-600 hover:bg-teal-700 text-white',
+    tileClass: 'bg-teal-100 dark:bg-teal-900/30 text-teal-800 dark:text-teal-200',
+    chartColor: '#0d9488',
+  },
+  flash: {
+    label: 'Flash',
+    icon: '⚡',
+    description: 'First try with beta',
+    buttonClass: 'bg-green-600 hover:bg-green-700 text-white',
+    tileClass: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200',
+    chartColor: '#22c55e',
+  },
+  done: {
+    label: 'Done',
+    icon: '✓',
+    description: 'Completed after multiple tries',
+    buttonClass: 'bg-blue-600 hover:bg-blue-700 text-white',
+    tileClass: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200',
+    chartColor: '#3b82f6',
+  },
+  zone: {
+    label: 'Zone',
+    icon: '◐',
+    description: 'Reached the zone hold or a highpoint, not topped',
+    buttonClass: 'bg-amber-500 hover:bg-amber-600 text-white',
+    tileClass: 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200',
+    chartColor: '#f59e0b',
+  },
+  fail: {
+    label: 'Fail',
+    icon: '✗',
+    description: 'Could not complete',
+    buttonClass: 'bg-red-600 hover:bg-red-700 text-white',
+    tileClass: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200',
+    chartColor: '#ef4444',
+  },
+};
+
+/** Grid cell classes for a boulder that has not been logged yet */
+export const UNLOGGED_CELL_CLASS =
+  'bg-white dark:bg-gray-800 text-gray-900 dark:text-white border-2 border-gray-300 dark:border-gray-600';
@@ -0,0 +1,123 @@
+import { useRef, useState } from 'react';
+import type { ImportPreview, ParsedBackup } from '../logic/StorageManager';
+import {
+  exportBackup,
+  parseBackup,
+  previewImport,
+  applyImport,
+  countLibraryItems,
+} from '../logic/StorageManager';
+import { downloadTextFile, fileDateStamp } from '../logic/FileDownload';
+import { formatIssues } from '../logic/SessionValidator';
+import { ConfirmDialog } from './ConfirmDialog';
+
+/**
+ * Backup card for exporting and importing all sessions (with projects,
+ * exercises, protocols and grade scales) as a JSON file.
+ * Imports are previewed (added / replaced / skipped by ID) before anything is written.
+ */
+
+interface BackupPanelProps {
+  /** Called after an import has been written to storage */
+  onImported: () => void;
+}
+
+export function BackupPanel({ onImported }: BackupPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = () => {
+    downloadTextFile(`boulderbody-backup-${fileDateStamp()}.json`, exportBackup());
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow selecting the same file again
+    if (!file) return;
+
+    try {
+      const backup = parseBackup(await file.text());
+      setParsed(backup);
+      setPreview(previewImport(backup.sessions, backup.library));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read backup file.');
+    }
+  };
+
+  const confirmImport = () => {
+    if (!preview) return;
+
+    try {
+      applyImport(preview);
+      setPreview(null);
+      onImported();
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Import failed.');
+    }
+  };
+
+  const invalidCount = parsed?.invalidCount ?? 0;
+  const libraryCount = preview ? countLibraryItems(preview.library) : 0;
+  const importMessage = preview
+    ? `${preview.added.length} new, ${preview.replaced.length} replaced, ` +
+      `${preview.skipped.length} skipped. Replaced sessions will be overwritten with the backup version.` +
+      (libraryCount > 0
+        ? ` ${libraryCount} projects, exercises, protocols and grade scales will be restored too.`
+        : '') +
+      (invalidCount > 0
+        ? ` ${invalidCount} invalid sessions will not be imported:`
+        : '')
+    : '';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-8">
+      <h2 className="text-xl font-bold mb-2 text-gray-900 dark:text-white">
+        Backup
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Download all sessions, projects, exercises, protocols and grade scales as a file, or
+        restore them on another device.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <button onClick={handleExport} className="flex-1 btn btn-secondary">
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 btn btn-secondary"
+        >
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+      </div>
+
+      {/* Import preview confirmation */}
+      <ConfirmDialog
+        isOpen={!!preview}
+        title="Import Backup"
+        message={importMessage}
+        details={parsed ? formatIssues(parsed.issues) : undefined}
+        confirmText="Import"
+        onConfirm={confirmImport}
+        onCancel={() => setPreview(null)}
+      />
+    </div>
+  );
+}
@@ -1,11 +1,20 @@
 import { useState } from 'react';
-import type { BoulderAttempt, AttemptResult } from '../models/BoulderAttempt';
+import type { BoulderAttempt, AttemptResult, BoulderTag } from '../models/BoulderAttempt';
+import { ATTEMPT_RESULTS, TAG_GROUPS } from '../models/BoulderAttempt';
+import { getProjects, saveProject } from '../logic/StorageManager';
+import { RESULT_STYLES } from './AttemptResultStyle';
 
 /**
  * Modal for logging a boulder attempt result.
- * Shows Flash/Done/Fail buttons with color coding.
+ * Shows a button per result with color coding, an optional tries counter,
+ * style tag chips and a project link.
  */
 
+/**
+ * Optional details logged along with a result.
+ */
+export type AttemptDetails = Pick<BoulderAttempt, 'comment' | 'tries' | 'tags' | 'projectId'>;
+
 interface BoulderLogModalProps {
   /** Whether the modal is visible */
   isOpen: boolean;
@@ -14,7 +23,13 @@ interface BoulderLogModalProps {
   attempt: BoulderAttempt;
 
   /** Called when user selects a result */
-  onSubmit: (result: AttemptResult, comment?: string) => void;
+  onSubmit: (result: AttemptResult, details: AttemptDetails) => void;
+
+  /** Called when user clears a logged result (button hidden when omitted) */
+  onClear?: () => void;
+
+  /** Label of the clear button (default: "Mark as Unlogged") */
+  clearLabel?: string;
 
   /** Called when user cancels */
   onCancel: () => void;
@@ -24,17 +39,61 @@ export function BoulderLogModal({
   isOpen,
   attempt,
   onSubmit,
+  onClear,
+  clearLabel = 'Mark as Unlogged',
   onCancel,
 }: BoulderLogModalProps) {
   const [comment, setComment] = useState(attempt.comment || '');
+  const [tries, setTries] = useState<number | undefined>(attempt.tries);
+  const [tags, setTags] = useState<BoulderTag[]>(attempt.tags ?? []);
+  const [projects, setProjects] = useState(getProjects);
+  const [projectId, setProjectId] = useState(attempt.projectId ?? '');
+  const [newProjectName, setNewProjectName] = useState<string | null>(null);
+  const [projectError, setProjectError] = useState<string | null>(null);
 
   if (!isOpen) {
     return null;
   }
 
   const handleSubmit = (result: AttemptResult) => {
-    onSubmit(result, comment.trim() || undefined);
+    // Onsights and flashes are one try by definition
+    const loggedTries = result === 'onsight' || result === 'flash' ? 1 : tries;
+    onSubmit(result, {
+      comment: comment.trim() || undefined,
+      tries: loggedTries,
+      tags: tags.length > 0 ? tags : undefined,
+      projectId: projectId || undefined,
+    });
     setComment(''); // Reset for next time
+    setTries(undefined);
+    setTags([]);
+    setProjectId('');
+  };
+
+  const handleCreateProject = () => {
+    if (!newProjectName?.trim()) return;
+
+    const project = { id: crypto.randomUUID(), name: newProjectName.trim(), createdAt: new Date() };
+    try {
+      saveProject(project);
+    } catch (err) {
+      setProjectError(err instanceof Error ? err.message : 'Could not save project.');
+      return;
+    }
+    setProjects(getProjects());
+    setProjectId(project.id);
+    setNewProjectName(null);
+    setProjectError(null);
+  };
+
+  const toggleTag = (tag: BoulderTag, groupTags: BoulderTag[], singleSelect: boolean) => {
+    if (tags.includes(tag)) {
+      setTags(tags.filter((t) => t !== tag));
+    } else if (singleSelect) {
+      setTags([...tags.filter((t) => !groupTags.includes(t)), tag]);
+    } else {
+      setTags([...tags, tag]);
+    }
   };
 
   return (
@@ -69,36 +128,144 @@ export function BoulderLogModal({
           />
         </div>
 
-        {/* Result buttons */}
-        <div className="grid grid-cols-3 gap-3 mb-4">
-          <button
-            onClick={() => handleSubmit('flash')}
-            className="btn bg-green-600 hover:bg-green-700 text-white py-4"
-            title="Completed on first try"
+        {/* Project link */}
+        <div className="mb-4">
+          <label
+            htmlFor="project"
+            className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300"
           >
-            <div className="text-2xl mb-1">⚡</div>
-            <div className="font-bold">Flash</div>
-          </button>
+            Project (optional)
+          </label>
+          {newProjectName === null ? (
+            <div className="flex gap-2">
+              <select
+                id="project"
+                value={projectId}
+                onChange={(e) => setProjectId(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Not a project</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+              <button onClick={() => setNewProjectName('')} className="btn btn-secondary px-4">
+                + New
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <input
+                id="project"
+                type="text"
+                value={newProjectName}
+                onChange={(e) => setNewProjectName(e.target.value)}
+                placeholder="Project name"
+                autoFocus
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={handleCreateProject}
+                disabled={!newProjectName.trim()}
+                className="btn btn-primary px-4 disabled:opacity-50"
+              >
+                Add
+              </button>
+              <button
+                onClick={() => {
+                  setNewProjectName(null);
+                  setProjectError(null);
+                }}
+                className="btn btn-secondary px-4"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+          {projectError && (
+            <p className="text-sm text-red-600 dark:text-red-400 mt-2">{projectError}</p>
+          )}
+        </div>
 
-          <button
-            onClick={() => handleSubmit('done')}
-            className="btn bg-blue-600 hover:bg-blue-700 text-white py-4"
-            title="Completed after multiple tries"
-          >
-            <div className="text-2xl mb-1">✓</div>
-            <div className="font-bold">Done</div>
-          </button>
+        {/* Style tags */}
+        <div className="mb-4 space-y-2">
+          {TAG_GROUPS.map((group) => (
+            <div key={group.label}>
+              <div className="text-xs font-medium mb-1 text-gray-500 dark:text-gray-400">
+                {group.label}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {group.tags.map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTag(tag, group.tags, group.singleSelect)}
+                    className={`px-3 py-1 rounded-full text-sm capitalize transition-colors ${
+                      tags.includes(tag)
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
 
-          <button
-            onClick={() => handleSubmit('fail')}
-            className="btn bg-red-600 hover:bg-red-700 text-white py-4"
-            title="Could not complete"
-          >
-            <div className="text-2xl mb-1">✗</div>
-            <div className="font-bold">Fail</div>
-          </button>
+        {/* Optional tries counter */}
+        <div className="mb-6 flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Tries (optional)
+          </span>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setTries(tries && tries > 1 ? tries - 1 : undefined)}
+              className="btn btn-secondary w-11"
+              aria-label="Fewer tries"
+            >
+              −
+            </button>
+            <span className="w-8 text-center text-xl font-bold text-gray-900 dark:text-white">
+              {tries ?? '–'}
+            </span>
+            <button
+              onClick={() => setTries((tries ?? 0) + 1)}
+              className="btn btn-secondary w-11"
+              aria-label="More tries"
+            >
+              +
+            </button>
+          </div>
         </div>
 
+        {/* Result buttons */}
+        <div className="grid grid-cols-3 gap-3 mb-4">
+          {ATTEMPT_RESULTS.map((result) => {
+            const style = RESULT_STYLES[result];
+            return (
+              <button
+                key={result}
+                onClick={() => handleSubmit(result)}
+                className={`btn ${style.buttonClass} py-4`}
+                title={style.description}
+              >
+                <div className="text-2xl mb-1">{style.icon}</div>
+                <div className="font-bold">{style.label}</div>
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Clear button (editing a logged attempt) */}
+        {onClear && (
+          <button onClick={onClear} className="w-full btn btn-secondary mb-3">
+            {clearLabel}
+          </button>
+        )}
+
         {/* Cancel button */}
         <button onClick={onCancel} className="w-full btn btn-secondary">
           Cancel
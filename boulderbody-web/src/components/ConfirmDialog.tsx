@@ -13,6 +13,9 @@ interface ConfirmDialogProps {
   /** Dialog message/description */
   message: string;
 
+  /** Optional list of detail lines shown below the message */
+  details?: string[];
+
   /** Text for confirm button (default: "Confirm") */
   confirmText?: string;
 
@@ -33,6 +36,7 @@ export function ConfirmDialog({
   isOpen,
   title,
   message,
+  details,
   confirmText = 'Confirm',
   cancelText = 'Cancel',
   onConfirm,
@@ -61,6 +65,13 @@ export function ConfirmDialog({
           {title}
         </h3>
         <p className="text-gray-600 dark:text-gray-300 mb-6">{message}</p>
+        {details && details.length > 0 && (
+          <ul className="text-xs font-mono text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-700 rounded-lg p-3 mb-6 max-h-40 overflow-y-auto space-y-1">
+            {details.map((line, i) => (
+              <li key={i}>{line}</li>
+            ))}
+          </ul>
+        )}
         <div className="flex gap-3 justify-end">
           <button onClick={onCancel} className="btn btn-secondary">
             {cancelText}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import type { QuarantineEntry } from '../logic/StorageManager';
+import {
+  getQuarantinedData,
+  exportQuarantinedData,
+  clearQuarantinedData,
+} from '../logic/StorageManager';
+import { downloadTextFile, fileDateStamp } from '../logic/FileDownload';
+import { ConfirmDialog } from './ConfirmDialog';
+
+/**
+ * Recovery notice shown when stored session data could not be read.
+ * Summarizes what was salvaged and offers the raw payload as a download.
+ */
+
+interface DataRecoveryPanelProps {
+  /** Called after the user discards the quarantined data */
+  onDismiss: () => void;
+}
+
+function describeEntry(entry: QuarantineEntry): string {
+  const date = new Date(entry.quarantinedAt).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  if (entry.failedCount < 0) {
+    return `${date}: stored data was unreadable, no sessions could be recovered`;
+  }
+  return `${date}: ${entry.recoveredCount} sessions recovered, ${entry.failedCount} could not be read`;
+}
+
+export function DataRecoveryPanel({ onDismiss }: DataRecoveryPanelProps) {
+  const [entries] = useState(getQuarantinedData);
+  const [showDiscardConfirm, setShowDiscardConfirm] = useState(false);
+
+  const handleDownload = () => {
+    downloadTextFile(
+      `boulderbody-recovery-${fileDateStamp()}.json`,
+      exportQuarantinedData()
+    );
+  };
+
+  const handleDiscard = () => {
+    clearQuarantinedData();
+    setShowDiscardConfirm(false);
+    onDismiss();
+  };
+
+  return (
+    <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-6 shadow-lg mb-8">
+      <h2 className="text-xl font-bold mb-2 text-amber-900 dark:text-amber-100">
+        Some session data could not be read
+      </h2>
+      <p className="text-sm text-amber-800 dark:text-amber-200 mb-3">
+        The unreadable data has been set aside and was not deleted. Download it
+        to keep a copy or to repair it by hand.
+      </p>
+
+      {entries.length > 0 ? (
+        <ul className="text-sm text-amber-800 dark:text-amber-200 mb-4 list-disc pl-5 space-y-1">
+          {entries.map((entry) => (
+            <li key={entry.quarantinedAt}>
+              {describeEntry(entry)}
+              {entry.issues && entry.issues.length > 0 && (
+                <ul className="mt-1 text-xs font-mono space-y-1">
+                  {entry.issues.map((issue, i) => (
+                    <li key={i}>{issue}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-amber-800 dark:text-amber-200 mb-4">
+          The data could not be set aside, so saving is paused until you download it.
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        <button onClick={handleDownload} className="flex-1 btn btn-primary">
+          Download Raw Data
+        </button>
+        <button
+          onClick={() => setShowDiscardConfirm(true)}
+          className="flex-1 btn btn-secondary"
+        >
+          Discard
+        </button>
+      </div>
+
+      <ConfirmDialog
+        isOpen={showDiscardConfirm}
+        title="Discard Unreadable Data"
+        message="The raw data will be removed from this device. Make sure you downloaded it first. This cannot be undone."
+        confirmText="Discard"
+        variant="danger"
+        onConfirm={handleDiscard}
+        onCancel={() => setShowDiscardConfirm(false)}
+      />
+    </div>
+  );
+}
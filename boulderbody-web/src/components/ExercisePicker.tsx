@@ -0,0 +1,90 @@
+import { useNavigate } from 'react-router-dom';
+import { describeExercise } from '../models/Exercise';
+import type { TrainingProtocol } from '../models/TrainingProtocol';
+import { applyProtocol } from '../models/TrainingProtocol';
+import { getExercises } from '../logic/StorageManager';
+import type { ExerciseLoad } from '../logic/SessionFactory';
+
+/**
+ * Exercise selection and load inputs for a training session.
+ * Lists the whole catalog; checked exercises are part of the session, in
+ * catalog order.
+ */
+
+interface ExercisePickerProps {
+  /** Exercises chosen for the session, with their loads */
+  selected: ExerciseLoad[];
+
+  /** Called when an exercise is toggled or a load changes */
+  onChange: (selected: ExerciseLoad[]) => void;
+
+  /** Template the session will use, shown in place of each exercise's own protocol */
+  protocol?: TrainingProtocol;
+}
+
+const INPUT_CLASS =
+  'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function ExercisePicker({ selected, onChange, protocol }: ExercisePickerProps) {
+  const navigate = useNavigate();
+  const catalog = getExercises();
+
+  // Rebuild in catalog order so the session follows the catalog's order
+  const update = (exerciseId: string, load: number | null) => {
+    onChange(
+      catalog.flatMap((exercise) => {
+        if (exercise.id === exerciseId) {
+          return load === null ? [] : [{ exercise, load }];
+        }
+        const current = selected.find((s) => s.exercise.id === exercise.id);
+        return current ? [current] : [];
+      })
+    );
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Exercises</span>
+        <button
+          onClick={() => navigate('/exercises')}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+        >
+          Manage exercises
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {catalog.map((exercise) => {
+          const current = selected.find((s) => s.exercise.id === exercise.id);
+
+          return (
+            <div key={exercise.id}>
+              <label className="flex items-center gap-2 mb-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={!!current}
+                  onChange={(e) =>
+                    update(exercise.id, e.target.checked ? exercise.defaultLoad : null)
+                  }
+                />
+                {exercise.name} ({exercise.unit}) - {describeExercise(applyProtocol(exercise, protocol))}
+              </label>
+              {current && (
+                <input
+                  type="number"
+                  min="0"
+                  step={exercise.increment || 'any'}
+                  value={current.load}
+                  onChange={(e) => update(exercise.id, parseFloat(e.target.value) || 0)}
+                  className={INPUT_CLASS}
+                  aria-label={`${exercise.name} load`}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * ExerciseStyle.ts
+ *
+ * Colors for the exercises of a training session, assigned by position so
+ * custom exercises get a color too. Shared by the session view, the summary
+ * and the editor.
+ */
+
+interface ExerciseStyle {
+  /** Tailwind classes for a filled set button, e.g. "bg-blue-600" */
+  solidClass: string;
+
+  /** Tailwind classes for a light summary tile */
+  tileClass: string;
+
+  /** Text classes for the exercise name on a tile */
+  labelClass: string;
+
+  /** Text classes for the load on a tile */
+  valueClass: string;
+
+  /** Text classes for secondary details on a tile */
+  detailClass: string;
+}
+
+const EXERCISE_STYLES: ExerciseStyle[] = [
+  {
+    solidClass: 'bg-blue-600',
+    tileClass: 'bg-blue-50 dark:bg-blue-900/20',
+    labelClass: 'text-blue-800 dark:text-blue-200',
+    valueClass: 'text-blue-900 dark:text-blue-100',
+    detailClass: 'text-blue-600 dark:text-blue-300',
+  },
+  {
+    solidClass: 'bg-purple-600',
+    tileClass: 'bg-purple-50 dark:bg-purple-900/20',
+    labelClass: 'text-purple-800 dark:text-purple-200',
+    valueClass: 'text-purple-900 dark:text-purple-100',
+    detailClass: 'text-purple-600 dark:text-purple-300',
+  },
+  {
+    solidClass: 'bg-green-600',
+    tileClass: 'bg-green-50 dark:bg-green-900/20',
+    labelClass: 'text-green-800 dark:text-green-200',
+    valueClass: 'text-green-900 dark:text-green-100',
+    detailClass: 'text-green-600 dark:text-green-300',
+  },
+  {
+    solidClass: 'bg-orange-500',
+    tileClass: 'bg-orange-50 dark:bg-orange-900/20',
+    labelClass: 'text-orange-800 dark:text-orange-200',
+    valueClass: 'text-orange-900 dark:text-orange-100',
+    detailClass: 'text-orange-600 dark:text-orange-300',
+  },
+  {
+    solidClass: 'bg-pink-600',
+    tileClass: 'bg-pink-50 dark:bg-pink-900/20',
+    labelClass: 'text-pink-800 dark:text-pink-200',
+    valueClass: 'text-pink-900 dark:text-pink-100',
+    detailClass: 'text-pink-600 dark:text-pink-300',
+  },
+  {
+    solidClass: 'bg-teal-600',
+    tileClass: 'bg-teal-50 dark:bg-teal-900/20',
+    labelClass: 'text-teal-800 dark:text-teal-200',
+    valueClass: 'text-teal-900 dark:text-teal-100',
+    detailClass: 'text-teal-600 dark:text-teal-300',
+  },
+];
+
+/**
+ * Style for the exercise at a position within the session.
+ * @param order 1-indexed position (colors repeat after six exercises)
+ */
+export function getExerciseStyle(order: number): ExerciseStyle {
+  return EXERCISE_STYLES[(order - 1) % EXERCISE_STYLES.length];
+}
@@ -0,0 +1,108 @@
+import { useNavigate } from 'react-router-dom';
+import {
+  BUILT_IN_SCALES,
+  isNumericScale,
+  getMaxLevel,
+  convertLevel,
+  getEquivalentLabels,
+} from '../models/GradeScale';
+import { getGradeScales, getGradeScale } from '../logic/StorageManager';
+
+/**
+ * Grade scale and target grade inputs for a volume session.
+ * Switching scales converts the grade to the closest one in the new scale.
+ */
+
+interface GradePickerProps {
+  /** ID of the selected grade scale */
+  scaleId: string;
+
+  /** Selected level (1-indexed grade within the scale) */
+  level: number;
+
+  /** Called when the scale or level changes */
+  onChange: (scaleId: string, level: number) => void;
+
+  /** Field label (default: "Target Grade") */
+  label?: string;
+}
+
+const INPUT_CLASS =
+  'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function GradePicker({ scaleId, level, onChange, label = 'Target Grade' }: GradePickerProps) {
+  const navigate = useNavigate();
+  const scales = getGradeScales();
+  const scale = getGradeScale(scaleId);
+  const equivalents = getEquivalentLabels(scale, level, BUILT_IN_SCALES);
+
+  const handleScaleChange = (newScaleId: string) => {
+    const newScale = getGradeScale(newScaleId);
+    const converted = convertLevel(level, scale, newScale);
+    onChange(newScale.id, converted ?? Math.min(level, getMaxLevel(newScale)));
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between items-center mb-2">
+        <label
+          htmlFor="gradeScale"
+          className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          {label}
+        </label>
+        <button
+          onClick={() => navigate('/grades')}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+        >
+          Manage scales
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <select
+          id="gradeScale"
+          value={scale.id}
+          onChange={(e) => handleScaleChange(e.target.value)}
+          className={INPUT_CLASS}
+        >
+          {scales.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+
+        {isNumericScale(scale) ? (
+          <input
+            id="level"
+            type="number"
+            min="1"
+            value={level}
+            onChange={(e) => onChange(scale.id, parseInt(e.target.value) || 1)}
+            className={INPUT_CLASS}
+            aria-label="Target level"
+          />
+        ) : (
+          <select
+            id="level"
+            value={level}
+            onChange={(e) => onChange(scale.id, parseInt(e.target.value))}
+            className={INPUT_CLASS}
+            aria-label="Target grade"
+          >
+            {scale.grades.map((grade, i) => (
+              <option key={i} value={i + 1}>
+                {grade.label}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {equivalents.length > 0 && (
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          ≈ {equivalents.join(' · ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import type { LevelBlock } from '../models/Session';
+import { isNumericScale, getMaxLevel, convertLevel } from '../models/GradeScale';
+import { getGradeScales, getGradeScale } from '../logic/StorageManager';
+import { GradePicker } from './GradePicker';
+
+/**
+ * Grade and boulder count inputs for a new volume session.
+ * A single block shows the plain grade picker; adding levels turns the
+ * session into a pyramid with one row per level block.
+ */
+
+interface LevelBlocksPickerProps {
+  /** ID of the selected grade scale */
+  scaleId: string;
+
+  /** Level blocks, easiest first (at least one) */
+  blocks: LevelBlock[];
+
+  /** Called when the scale or any block changes */
+  onChange: (scaleId: string, blocks: LevelBlock[]) => void;
+}
+
+const INPUT_CLASS =
+  'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const LABEL_CLASS = 'block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300';
+
+export function LevelBlocksPicker({ scaleId, blocks, onChange }: LevelBlocksPickerProps) {
+  const scale = getGradeScale(scaleId);
+  const totalBoulders = blocks.reduce((sum, block) => sum + block.boulderCount, 0);
+
+  const updateBlock = (index: number, changes: Partial<LevelBlock>) => {
+    onChange(
+      scale.id,
+      blocks.map((block, i) => (i === index ? { ...block, ...changes } : block))
+    );
+  };
+
+  const handleScaleChange = (newScaleId: string) => {
+    const newScale = getGradeScale(newScaleId);
+    onChange(
+      newScale.id,
+      blocks.map((block) => ({
+        ...block,
+        level:
+          convertLevel(block.level, scale, newScale) ??
+          Math.min(block.level, getMaxLevel(newScale)),
+      }))
+    );
+  };
+
+  // Next block one level above the current top, like a pyramid's next step
+  const handleAddBlock = () => {
+    const top = blocks[blocks.length - 1];
+    onChange(scale.id, [
+      ...blocks,
+      {
+        level: Math.min(top.level + 1, getMaxLevel(scale)),
+        boulderCount: Math.max(1, Math.ceil(top.boulderCount / 2)),
+      },
+    ]);
+  };
+
+  if (blocks.length === 1) {
+    return (
+      <>
+        <GradePicker
+          scaleId={scale.id}
+          level={blocks[0].level}
+          onChange={(newScaleId, level) => onChange(newScaleId, [{ ...blocks[0], level }])}
+        />
+
+        <div className="mb-6">
+          <label htmlFor="boulderCount" className={LABEL_CLASS}>
+            Number of Boulders
+          </label>
+          <input
+            id="boulderCount"
+            type="number"
+            min="1"
+            max="100"
+            value={blocks[0].boulderCount}
+            onChange={(e) => updateBlock(0, { boulderCount: parseInt(e.target.value) || 1 })}
+            className={INPUT_CLASS}
+          />
+          <button
+            onClick={handleAddBlock}
+            className="mt-2 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+          >
+            + Add a level (pyramid)
+          </button>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <div className="mb-6">
+      <label htmlFor="gradeScale" className={LABEL_CLASS}>
+        Grade Scale
+      </label>
+      <select
+        id="gradeScale"
+        value={scale.id}
+        onChange={(e) => handleScaleChange(e.target.value)}
+        className={`${INPUT_CLASS} mb-4`}
+      >
+        {getGradeScales().map((s) => (
+          <option key={s.id} value={s.id}>
+            {s.name}
+          </option>
+        ))}
+      </select>
+
+      <p className={LABEL_CLASS}>Pyramid ({totalBoulders} boulders)</p>
+      <div className="space-y-2 mb-2">
+        {blocks.map((block, i) => (
+          <div key={i} className="flex gap-2 items-center">
+            {isNumericScale(scale) ? (
+              <input
+                type="number"
+                min="1"
+                value={block.level}
+                onChange={(e) => updateBlock(i, { level: parseInt(e.target.value) || 1 })}
+                className={INPUT_CLASS}
+                aria-label={`Block ${i + 1} level`}
+              />
+            ) : (
+              <select
+                value={block.level}
+                onChange={(e) => updateBlock(i, { level: parseInt(e.target.value) })}
+                className={INPUT_CLASS}
+                aria-label={`Block ${i + 1} grade`}
+              >
+                {scale.grades.map((grade, j) => (
+                  <option key={j} value={j + 1}>
+                    {grade.label}
+                  </option>
+                ))}
+              </select>
+            )}
+            <span className="text-gray-500 dark:text-gray-400">×</span>
+            <input
+              type="number"
+              min="1"
+              max="100"
+              value={block.boulderCount}
+              onChange={(e) => updateBlock(i, { boulderCount: parseInt(e.target.value) || 1 })}
+              className={`${INPUT_CLASS} w-24`}
+              aria-label={`Block ${i + 1} boulder count`}
+            />
+            <button
+              onClick={() => onChange(scale.id, blocks.filter((_, j) => j !== i))}
+              className="text-gray-400 hover:text-red-500 px-2"
+              aria-label={`Remove block ${i + 1}`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={handleAddBlock}
+        className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+      >
+        + Add level
+      </button>
+    </div>
+  );
+}
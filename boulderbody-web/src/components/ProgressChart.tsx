@@ -0,0 +1,114 @@
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+
+/**
+ * Line or bar chart of values over time, for the progress dashboard.
+ * The x axis is the date; each series is one key of the data points.
+ */
+
+interface ProgressChartProps<T extends { date: number }> {
+  /** Points to draw, oldest first */
+  data: T[];
+
+  /** Values to draw from each point, with their label and color */
+  series: { key: keyof T & string; label: string; color: string }[];
+
+  /** Bars (e.g. per week) instead of lines (per session) */
+  kind?: 'line' | 'bar';
+
+  /** Draw lines as steps (values that change in jumps, like levels) */
+  stepped?: boolean;
+
+  /** Format values on the y axis and in the tooltip */
+  formatValue?: (value: number) => string;
+
+  /** Fixed y axis range (auto if absent) */
+  yDomain?: [number, number];
+}
+
+const AXIS_TICK = { fill: '#9ca3af', fontSize: 12 };
+
+const formatDate = (date: number) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const formatFullDate = (date: number) =>
+  new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+export function ProgressChart<T extends { date: number }>({
+  data,
+  series,
+  kind = 'line',
+  stepped = false,
+  formatValue = (value) => String(Math.round(value * 10) / 10),
+  yDomain,
+}: ProgressChartProps<T>) {
+  const axes = (
+    <>
+      <CartesianGrid strokeDasharray="3 3" stroke="#9ca3af" strokeOpacity={0.3} />
+      <XAxis
+        dataKey="date"
+        type={kind === 'bar' ? 'category' : 'number'}
+        domain={['dataMin', 'dataMax']}
+        tickFormatter={formatDate}
+        tick={AXIS_TICK}
+        minTickGap={24}
+      />
+      <YAxis
+        domain={yDomain ?? ['auto', 'auto']}
+        tickFormatter={formatValue}
+        tick={AXIS_TICK}
+        width={48}
+        allowDecimals={false}
+      />
+      <Tooltip
+        labelFormatter={(label) => formatFullDate(Number(label))}
+        formatter={(value) => formatValue(Number(value))}
+      />
+      {series.length > 1 && <Legend />}
+    </>
+  );
+
+  return (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        {kind === 'bar' ? (
+          <BarChart data={data}>
+            {axes}
+            {series.map((s) => (
+              <Bar key={s.key} dataKey={s.key} name={s.label} fill={s.color} />
+            ))}
+          </BarChart>
+        ) : (
+          <LineChart data={data}>
+            {axes}
+            {series.map((s) => (
+              <Line
+                key={s.key}
+                dataKey={s.key}
+                name={s.label}
+                stroke={s.color}
+                type={stepped ? 'stepAfter' : 'monotone'}
+                strokeWidth={2}
+                dot={data.length <= 30}
+              />
+            ))}
+          </LineChart>
+        )}
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import type { Project, HoldColor } from '../models/Project';
+import { HOLD_COLORS } from '../models/Project';
+import { getPreferredGradeScaleId, saveProject } from '../logic/StorageManager';
+import { resizeImage } from '../logic/ImageResize';
+import { GradePicker } from './GradePicker';
+
+/**
+ * Create or edit a project: name, gym, grade, hold color and photo.
+ * The photo is downscaled before it is stored.
+ */
+
+interface ProjectFormProps {
+  /** Project to edit; a new project is created if omitted */
+  project?: Project;
+
+  /** Called with the saved project */
+  onSaved: (project: Project) => void;
+
+  /** Called when the form is closed without saving */
+  onCancel: () => void;
+}
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const LABEL_CLASS = 'block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300';
+
+export function ProjectForm({ project, onSaved, onCancel }: ProjectFormProps) {
+  const [name, setName] = useState(project?.name ?? '');
+  const [gym, setGym] = useState(project?.gym ?? '');
+  const [gradeScaleId, setGradeScaleId] = useState(
+    () => project?.gradeScale ?? getPreferredGradeScaleId()
+  );
+  const [grade, setGrade] = useState(project?.grade ?? 1);
+  const [color, setColor] = useState<HoldColor | undefined>(project?.color);
+  const [photo, setPhoto] = useState(project?.photo);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePhoto = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setPhoto(await resizeImage(file));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the photo.');
+    }
+  };
+
+  const handleSave = () => {
+    const saved: Project = {
+      id: project?.id ?? crypto.randomUUID(),
+      name: name.trim(),
+      gym: gym.trim() || undefined,
+      gradeScale: gradeScaleId,
+      grade,
+      color,
+      photo,
+      createdAt: project?.createdAt ?? new Date(),
+    };
+
+    try {
+      saveProject(saved);
+      onSaved(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save project.');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-6">
+      <div className="mb-4">
+        <label htmlFor="projectName" className={LABEL_CLASS}>
+          Name
+        </label>
+        <input
+          id="projectName"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="E.g., Blue roof in the cave"
+          className={INPUT_CLASS}
+        />
+      </div>
+
+      <div className="mb-4">
+        <label htmlFor="projectGym" className={LABEL_CLASS}>
+          Gym (optional)
+        </label>
+        <input
+          id="projectGym"
+          type="text"
+          value={gym}
+          onChange={(e) => setGym(e.target.value)}
+          className={INPUT_CLASS}
+        />
+      </div>
+
+      <GradePicker
+        label="Grade"
+        scaleId={gradeScaleId}
+        level={grade}
+        onChange={(scaleId, level) => {
+          setGradeScaleId(scaleId);
+          setGrade(level);
+        }}
+      />
+
+      <div className="mb-4">
+        <p className={LABEL_CLASS}>Hold color</p>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(HOLD_COLORS) as HoldColor[]).map((holdColor) => (
+            <button
+              key={holdColor}
+              onClick={() => setColor(color === holdColor ? undefined : holdColor)}
+              className={`w-8 h-8 rounded-full ${HOLD_COLORS[holdColor]} ${
+                color === holdColor ? 'ring-2 ring-offset-2 ring-blue-500' : ''
+              }`}
+              aria-label={holdColor}
+              aria-pressed={color === holdColor}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <label htmlFor="projectPhoto" className={LABEL_CLASS}>
+          Photo (optional)
+        </label>
+        {photo && (
+          <div className="flex items-start gap-3 mb-2">
+            <img src={photo} alt="Project" className="w-24 h-24 object-cover rounded-lg" />
+            <button
+              onClick={() => setPhoto(undefined)}
+              className="text-sm text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
+            >
+              Remove photo
+            </button>
+          </div>
+        )}
+        <input
+          id="projectPhoto"
+          type="file"
+          accept="image/*"
+          onChange={(e) => handlePhoto(e.target.files?.[0])}
+          className="block w-full text-sm text-gray-700 dark:text-gray-300"
+        />
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+      )}
+
+      <div className="flex gap-3">
+        <button onClick={onCancel} className="flex-1 btn btn-secondary">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="flex-1 btn btn-primary disabled:opacity-50"
+        >
+          Save Project
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useNavigate } from 'react-router-dom';
+import { describeProtocol } from '../models/TrainingProtocol';
+import { getProtocols } from '../logic/StorageManager';
+
+/**
+ * Protocol template selection for a training session.
+ * The empty choice keeps each exercise's own sets, reps and timings.
+ */
+
+interface ProtocolPickerProps {
+  /** ID of the selected template, or '' for each exercise's own protocol */
+  protocolId: string;
+
+  /** Called when another template is chosen */
+  onChange: (protocolId: string) => void;
+}
+
+const INPUT_CLASS =
+  'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function ProtocolPicker({ protocolId, onChange }: ProtocolPickerProps) {
+  const navigate = useNavigate();
+  const protocols = getProtocols();
+  const selected = protocols.find((p) => p.id === protocolId);
+
+  return (
+    <div className="mb-6">
+      <div className="flex justify-between items-center mb-2">
+        <label
+          htmlFor="protocol"
+          className="text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          Protocol
+        </label>
+        <button
+          onClick={() => navigate('/protocols')}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+        >
+          Manage protocols
+        </button>
+      </div>
+      <select
+        id="protocol"
+        value={selected ? selected.id : ''}
+        onChange={(e) => onChange(e.target.value)}
+        className={INPUT_CLASS}
+      >
+        <option value="">Each exercise's own protocol</option>
+        {protocols.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.name}
+          </option>
+        ))}
+      </select>
+      {selected && (
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          {describeProtocol(selected)}
+        </p>
+      )}
+    </div>
+  );
+}
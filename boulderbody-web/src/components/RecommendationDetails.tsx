@@ -0,0 +1,126 @@
+import type { Exercise } from '../models/Exercise';
+import type { GradeScale } from '../models/GradeScale';
+import { getGradeLabel } from '../models/GradeScale';
+import type { LevelMetrics } from '../logic/SessionRecommender';
+import type { ExerciseMetrics } from '../logic/TrainingRecommender';
+import type { WorkloadStatus } from '../logic/TrainingLoad';
+
+/**
+ * Collapsible list of the numbers a recommendation was based on,
+ * with the number of recent sessions it looks at.
+ */
+
+interface RecommendationDetailsProps {
+  /** Numbers behind a volume recommendation, one per level */
+  levelMetrics?: LevelMetrics[];
+
+  /** Scale of the levels in levelMetrics */
+  scale?: GradeScale;
+
+  /** Numbers behind a training recommendation, one per exercise */
+  exerciseMetrics?: ExerciseMetrics[];
+
+  /** Exercise catalog (for names and units in exerciseMetrics) */
+  exercises?: Exercise[];
+
+  /** Days since the last session (null without history) */
+  daysSinceLastSession: number | null;
+
+  /** Recent load across both session types */
+  workload?: WorkloadStatus;
+
+  /** Number of recent sessions looked at */
+  window: number;
+
+  /** Called when another number of sessions is chosen */
+  onWindowChange: (sessions: number) => void;
+}
+
+const WINDOW_OPTIONS = [1, 3, 5, 8, 10];
+
+const formatPercent = (value: number) => `${Math.round(value)}%`;
+
+const formatTrend = (trend: number) =>
+  `${trend > 0 ? '+' : ''}${Math.round(trend)} pts/session`;
+
+export function RecommendationDetails({
+  levelMetrics = [],
+  scale,
+  exerciseMetrics = [],
+  exercises = [],
+  daysSinceLastSession,
+  workload,
+  window,
+  onWindowChange,
+}: RecommendationDetailsProps) {
+  const windowOptions = WINDOW_OPTIONS.includes(window)
+    ? WINDOW_OPTIONS
+    : [...WINDOW_OPTIONS, window].sort((a, b) => a - b);
+
+  return (
+    <details className="mt-2">
+      <summary className="cursor-pointer text-blue-700 dark:text-blue-300">
+        How this was calculated
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {daysSinceLastSession !== null && (
+          <li>
+            {daysSinceLastSession} {daysSinceLastSession === 1 ? 'day' : 'days'} since last
+            session
+          </li>
+        )}
+        {workload && (
+          <li>
+            Training load {Math.round(workload.acuteLoad)} this week,{' '}
+            {Math.round(workload.chronicLoad)} weekly average
+            {workload.ratio !== null && ` (${workload.ratio.toFixed(2)}×, ${workload.zone})`}
+          </li>
+        )}
+        {levelMetrics.map((m) => (
+          <li key={m.level}>
+            <span className="font-medium">
+              {scale ? getGradeLabel(scale, m.level) : `Level ${m.level}`}:
+            </span>{' '}
+            fail rate {formatPercent(m.weightedFailRate)} weighted over {m.sessions}{' '}
+            {m.sessions === 1 ? 'session' : 'sessions'}
+            {` (${m.failRates.map(formatPercent).join(', ')}, newest first)`}
+            {m.trend !== null && ` · trend ${formatTrend(m.trend)}`}
+            {m.averageTries !== null && ` · ${m.averageTries.toFixed(1)} tries per send`}
+          </li>
+        ))}
+        {exerciseMetrics.map((m) => {
+          const exercise = exercises.find((e) => e.id === m.exerciseId);
+          return (
+            <li key={m.exerciseId}>
+              <span className="font-medium">{exercise?.name ?? m.exerciseId}:</span>{' '}
+              {m.baseLoad}
+              {exercise?.unit ?? 'kg'} last time · {formatPercent(m.weightedCompletion)} of sets
+              done as planned, weighted over {m.sessions}{' '}
+              {m.sessions === 1 ? 'session' : 'sessions'}
+              {m.consecutiveMisses > 0 &&
+                ` · missed ${m.consecutiveMisses} ${
+                  m.consecutiveMisses === 1 ? 'session' : 'sessions'
+                } in a row`}
+            </li>
+          );
+        })}
+      </ul>
+      <div className="mt-3 flex items-center gap-2">
+        <label htmlFor="recommendationWindow">Look at the last</label>
+        <select
+          id="recommendationWindow"
+          value={window}
+          onChange={(e) => onWindowChange(parseInt(e.target.value))}
+          className="px-2 py-1 border border-blue-200 dark:border-blue-800 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {windowOptions.map((n) => (
+            <option key={n} value={n}>
+              {n}
+            </option>
+          ))}
+        </select>
+        <span>{window === 1 ? 'session' : 'sessions'}</span>
+      </div>
+    </details>
+  );
+}
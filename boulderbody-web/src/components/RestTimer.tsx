@@ -3,7 +3,8 @@
  *
  * Timer modal used for prep countdown, hang timer, and rest periods.
  * Shows circular progress with countdown display.
- * Optional skip button (when onSkip provided) and pause/resume (when onPause provided).
+ * Optional skip button (when onSkip provided), pause/resume (when onPause provided)
+ * and let go (when onLetGo provided, for ending a hang set early).
  */
 
 import { useState, useEffect } from 'react';
@@ -27,8 +28,14 @@ interface RestTimerProps {
   /** Controlled pause state (pair with onPause) */
   isPaused?: boolean;
 
+  /** When provided, renders a Let Go button */
+  onLetGo?: () => void;
+
   /** Modal heading — defaults to "Rest Time" */
   title?: string;
+
+  /** Line under the heading, e.g. "Rep 2/3" */
+  subtitle?: string;
 }
 
 export function RestTimer({
@@ -38,7 +45,9 @@ export function RestTimer({
   onSkip,
   onPause,
   isPaused = false,
+  onLetGo,
   title = 'Rest Time',
+  subtitle,
 }: RestTimerProps) {
   const [timeRemaining, setTimeRemaining] = useState(duration);
 
@@ -81,7 +90,7 @@ export function RestTimer({
   const strokeDashoffset = circumference - (progressPercent / 100) * circumference;
 
   return (
-    <div className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50">
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-40">
       <div
         className="bg-white dark:bg-gray-800 rounded-lg p-8 max-w-md w-full shadow-2xl"
         onClick={(e) => e.stopPropagation()}
@@ -89,6 +98,11 @@ export function RestTimer({
         <h2 className="text-2xl font-bold mb-6 text-center text-gray-900 dark:text-white">
           {title}
         </h2>
+        {subtitle && (
+          <p className="-mt-4 mb-6 text-center text-lg font-medium text-gray-600 dark:text-gray-300">
+            {subtitle}
+          </p>
+        )}
 
         {/* Circular progress timer */}
         <div className="relative flex items-center justify-center mb-6">
@@ -132,7 +146,7 @@ export function RestTimer({
           </p>
         )}
 
-        {(onPause || onSkip) && (
+        {(onPause || onSkip || onLetGo) && (
           <div className="flex gap-3 mt-2">
             {onPause && (
               <button
@@ -150,6 +164,14 @@ export function RestTimer({
                 Skip
               </button>
             )}
+            {onLetGo && (
+              <button
+                onClick={onLetGo}
+                className="flex-1 py-3 px-4 rounded-lg bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 font-medium hover:bg-red-200 dark:hover:bg-red-900/50 transition-colors"
+              >
+                Let Go
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,278 @@
+import { useState } from 'react';
+import type { Session, TrainingSet } from '../models/Session';
+import type { ExerciseBlock } from '../models/SessionType';
+import { getSessionExercise, isSetComplete } from '../models/SessionType';
+import type { BoulderAttempt, AttemptResult } from '../models/BoulderAttempt';
+import { toDateTimeInputValue, parseDateTimeInput } from '../logic/DateTimeInput';
+import type { AttemptDetails } from './BoulderLogModal';
+import { BoulderLogModal } from './BoulderLogModal';
+import { RESULT_STYLES, UNLOGGED_CELL_CLASS } from './AttemptResultStyle';
+import { getExerciseStyle } from './ExerciseStyle';
+
+/**
+ * Edit form for a finished session, shown on the summary page.
+ * Works on a draft copy: nothing is saved until the user taps Save.
+ * Volume sessions edit attempt results and notes; training sessions toggle
+ * sets and correct loads. Both can adjust start and end time.
+ */
+
+interface SessionEditorProps {
+  /** The finished session to edit */
+  session: Session;
+
+  /** Called with the edited session when user saves */
+  onSave: (session: Session) => void;
+
+  /** Called when user discards the edits */
+  onCancel: () => void;
+}
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function SessionEditor({ session, onSave, onCancel }: SessionEditorProps) {
+  const [draft, setDraft] = useState<Session>(session);
+  const [selectedAttempt, setSelectedAttempt] = useState<BoulderAttempt | null>(null);
+
+  const endTime = draft.endTime ?? draft.startTime;
+  const timeError =
+    endTime.getTime() < draft.startTime.getTime()
+      ? 'End time must be after start time.'
+      : null;
+
+  const handleStartChange = (value: string) => {
+    const startTime = parseDateTimeInput(value);
+    if (!startTime) return;
+    // The session date follows its start time so history and time decay stay consistent
+    setDraft({ ...draft, startTime, date: startTime });
+  };
+
+  const handleEndChange = (value: string) => {
+    const end = parseDateTimeInput(value);
+    if (!end) return;
+    setDraft({ ...draft, endTime: end });
+  };
+
+  const handleLogAttempt = (result: AttemptResult, details: AttemptDetails) => {
+    if (!selectedAttempt || draft.sessionType !== 'volume') return;
+
+    setDraft({
+      ...draft,
+      attempts: draft.attempts.map((a) =>
+        a.id === selectedAttempt.id
+          ? { ...a, result, ...details, timestamp: new Date() }
+          : a
+      ),
+    });
+    setSelectedAttempt(null);
+  };
+
+  const handleClearAttempt = (attempt: BoulderAttempt) => {
+    if (draft.sessionType !== 'volume') return;
+
+    setDraft({
+      ...draft,
+      attempts: draft.attempts.map((a) =>
+        a.id === attempt.id
+          ? { ...a, result: undefined, tries: undefined, timestamp: undefined }
+          : a
+      ),
+    });
+    setSelectedAttempt(null);
+  };
+
+  const updateBlock = (blockId: string, changes: Partial<ExerciseBlock>) => {
+    if (draft.sessionType !== 'training') return;
+    setDraft({
+      ...draft,
+      trainingData: {
+        ...draft.trainingData,
+        exercises: draft.trainingData.exercises.map((block) =>
+          block.id === blockId ? { ...block, ...changes } : block
+        ),
+      },
+    });
+  };
+
+  const handleSetToggle = (block: ExerciseBlock, set: TrainingSet) => {
+    updateBlock(block.id, {
+      sets: block.sets.map((s) =>
+        s.id === set.id
+          ? {
+              ...s,
+              completed: !s.completed,
+              timestamp: !s.completed ? new Date() : undefined,
+              // Toggling records a plain done/not-done set
+              repsCompleted: undefined,
+              load: undefined,
+              secondsHeld: undefined,
+              rpe: undefined,
+              rir: undefined,
+            }
+          : s
+      ),
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-6">
+      <h1 className="text-2xl font-bold mb-4 text-gray-900 dark:text-white text-center">
+        Edit Session
+      </h1>
+
+      {/* Start and end time */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-2">
+        <div>
+          <label
+            htmlFor="startTime"
+            className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300"
+          >
+            Start Time
+          </label>
+          <input
+            id="startTime"
+            type="datetime-local"
+            value={toDateTimeInputValue(draft.startTime)}
+            onChange={(e) => handleStartChange(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="endTime"
+            className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300"
+          >
+            End Time
+          </label>
+          <input
+            id="endTime"
+            type="datetime-local"
+            value={toDateTimeInputValue(endTime)}
+            onChange={(e) => handleEndChange(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </div>
+      </div>
+      {timeError && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-2">{timeError}</p>
+      )}
+
+      {/* Volume: attempt grid, tap to change result or notes */}
+      {draft.sessionType === 'volume' && (
+        <div className="mt-6">
+          <h2 className="text-lg font-bold mb-1 text-gray-900 dark:text-white">
+            Boulders
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+            Tap a boulder to change its result or notes.
+          </p>
+          <div className="grid grid-cols-4 sm:grid-cols-5 md:grid-cols-6 gap-3">
+            {draft.attempts.map((attempt) => {
+              const bgColor = attempt.result
+                ? RESULT_STYLES[attempt.result].buttonClass
+                : UNLOGGED_CELL_CLASS;
+
+              return (
+                <button
+                  key={attempt.id}
+                  onClick={() => setSelectedAttempt(attempt)}
+                  className={`${bgColor} rounded-lg p-3 min-h-[60px] font-bold text-lg hover:opacity-80 transition-opacity shadow`}
+                  title={
+                    attempt.result
+                      ? `#${attempt.order}: ${attempt.result}${attempt.tries ? ` in ${attempt.tries} tries` : ''}${attempt.comment ? ` - ${attempt.comment}` : ''}`
+                      : `Log boulder #${attempt.order}`
+                  }
+                >
+                  {attempt.order}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Training: weights and set completion */}
+      {draft.sessionType === 'training' && (
+        <div className="mt-6 space-y-4">
+          {draft.trainingData.exercises.map((block) => (
+            <div key={block.id} className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <div className="flex justify-between items-center gap-4 mb-3">
+                <label
+                  htmlFor={`load-${block.id}`}
+                  className="font-medium text-gray-900 dark:text-white"
+                >
+                  {block.exercise.name}
+                </label>
+                <div className="flex items-center gap-2 w-32">
+                  <input
+                    id={`load-${block.id}`}
+                    type="number"
+                    min="0"
+                    step={block.exercise.increment || 'any'}
+                    value={block.load}
+                    onChange={(e) =>
+                      updateBlock(block.id, { load: parseFloat(e.target.value) || 0 })
+                    }
+                    className={INPUT_CLASS}
+                  />
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    {block.exercise.unit}
+                  </span>
+                </div>
+              </div>
+              <div className="grid grid-cols-5 gap-3">
+                {block.sets.map((set) => {
+                  const { reps } = getSessionExercise(draft.trainingData, block);
+                  const partial = set.completed && !isSetComplete(set, reps);
+                  return (
+                    <button
+                      key={set.id}
+                      onClick={() => handleSetToggle(block, set)}
+                      className={`aspect-square rounded-lg font-bold text-lg transition-all flex flex-col items-center justify-center ${
+                        set.completed
+                          ? `${getExerciseStyle(block.order).solidClass} text-white shadow-lg ${partial ? 'opacity-60' : ''}`
+                          : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      {set.order}
+                      {partial && (
+                        <span className="text-xs font-medium">
+                          {set.repsCompleted}/{reps}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex gap-3 mt-6">
+        <button onClick={onCancel} className="flex-1 btn btn-secondary">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!!timeError}
+          className="flex-1 btn btn-primary disabled:opacity-50"
+        >
+          Save Changes
+        </button>
+      </div>
+
+      {/* Boulder log modal */}
+      {selectedAttempt && (
+        <BoulderLogModal
+          isOpen={true}
+          attempt={selectedAttempt}
+          onSubmit={handleLogAttempt}
+          onClear={selectedAttempt.result ? () => handleClearAttempt(selectedAttempt) : undefined}
+          onCancel={() => setSelectedAttempt(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
 import type { Session } from '../models/Session';
 import { isVolumeSession, isTrainingSession, getAttemptCounts, getSessionDuration } from '../models/Session';
+import type { AttemptResult } from '../models/BoulderAttempt';
+import { ATTEMPT_RESULTS } from '../models/BoulderAttempt';
+import { getSessionGradeLabel } from '../logic/StorageManager';
 
 /**
  * List item component for displaying a past session.
@@ -7,6 +10,9 @@ import { isVolumeSession, isTrainingSession, getAttemptCounts, getSessionDuratio
  * Handles both volume and training session types.
  */
 
+// Rarer results (onsight, zone) are listed only when they occurred
+const ALWAYS_SHOWN: AttemptResult[] = ['flash', 'done', 'fail'];
+
 interface SessionHistoryItemProps {
   /** The session to display */
   session: Session;
@@ -40,7 +46,7 @@ export function SessionHistoryItem({
       <div className="flex justify-between items-start mb-2">
         <div>
           <div className="text-lg font-bold text-gray-900 dark:text-white">
-            {isVolumeSession(session) && `Level ${session.targetLevel}`}
+            {isVolumeSession(session) && getSessionGradeLabel(session)}
             {isTrainingSession(session) && 'Training Session'}
           </div>
           <div className="text-sm text-gray-500 dark:text-gray-400">
@@ -65,9 +71,14 @@ export function SessionHistoryItem({
         <>
           <div className="grid grid-cols-2 gap-2 text-sm">
             <div className="text-gray-600 dark:text-gray-300">
-              <span className="font-medium">{getAttemptCounts(session).flash}</span> flash,{' '}
-              <span className="font-medium">{getAttemptCounts(session).done}</span> done,{' '}
-              <span className="font-medium">{getAttemptCounts(session).fail}</span> fail
+              {ATTEMPT_RESULTS.filter(
+                (result) => ALWAYS_SHOWN.includes(result) || getAttemptCounts(session)[result] > 0
+              ).map((result, i) => (
+                <span key={result}>
+                  {i > 0 && ', '}
+                  <span className="font-medium">{getAttemptCounts(session)[result]}</span> {result}
+                </span>
+              ))}
             </div>
             <div className="text-right text-gray-500 dark:text-gray-400">
               {duration}
@@ -87,22 +98,11 @@ export function SessionHistoryItem({
       {isTrainingSession(session) && (
         <div className="text-sm">
           <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-gray-600 dark:text-gray-300 mb-1">
-            <div>
-              Hangs: {session.trainingData.hangWeight}kg ({session.trainingData.hangSets.filter(s => s.completed).length}/{session.trainingData.hangSets.length})
-            </div>
-            <div>
-              Pull-ups: {session.trainingData.pullupWeight}kg ({session.trainingData.pullupSets.filter(s => s.completed).length}/{session.trainingData.pullupSets.length})
-            </div>
-            {(session.trainingData.benchSets ?? []).length > 0 && (
-              <div>
-                Bench: {session.trainingData.benchWeight ?? 10}kg ({(session.trainingData.benchSets ?? []).filter(s => s.completed).length}/{(session.trainingData.benchSets ?? []).length})
-              </div>
-            )}
-            {(session.trainingData.trapBarSets ?? []).length > 0 && (
-              <div>
-                Trap Bar: {session.trainingData.trapBarWeight ?? 20}kg ({(session.trainingData.trapBarSets ?? []).filter(s => s.completed).length}/{(session.trainingData.trapBarSets ?? []).length})
+            {session.trainingData.exercises.map((block) => (
+              <div key={block.id}>
+                {block.exercise.name}: {block.load}{block.exercise.unit} ({block.sets.filter(s => s.completed).length}/{block.sets.length})
               </div>
-            )}
+            ))}
           </div>
           <div className="text-right text-gray-500 dark:text-gray-400">
             {duration}
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import type { TrainingSet } from '../models/SessionType';
+import { RPE_VALUES, RIR_VALUES } from '../models/SessionType';
+import type { Exercise } from '../models/Exercise';
+
+/**
+ * Quick sheet for what was actually done in a training set.
+ * Prefilled with the plan (all reps at the block's load), so a set done as
+ * planned only needs Save; effort (RPE or RIR) is optional.
+ */
+
+/**
+ * Details logged for a done set.
+ */
+export type SetDetails = Pick<TrainingSet, 'repsCompleted' | 'load' | 'secondsHeld' | 'rpe' | 'rir'>;
+
+interface SetLogSheetProps {
+  /** The exercise as performed in this session (protocol applied) */
+  exercise: Exercise;
+
+  /** The set being logged */
+  set: TrainingSet;
+
+  /** Planned load of the exercise in this session */
+  plannedLoad: number;
+
+  /** Called with the logged details */
+  onSave: (details: SetDetails) => void;
+
+  /** Called when the set is marked as not done */
+  onUndo: () => void;
+
+  /** Called when the sheet is closed without changes */
+  onClose: () => void;
+}
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const LABEL_CLASS = 'block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300';
+
+const chipClass = (selected: boolean) =>
+  `px-3 py-1 rounded-full text-sm transition-colors ${
+    selected
+      ? 'bg-blue-600 text-white'
+      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+  }`;
+
+export function SetLogSheet({
+  exercise,
+  set,
+  plannedLoad,
+  onSave,
+  onUndo,
+  onClose,
+}: SetLogSheetProps) {
+  const isTimed = exercise.kind === 'timed';
+  const [reps, setReps] = useState(set.repsCompleted ?? exercise.reps);
+  const [load, setLoad] = useState(set.load ?? plannedLoad);
+  const [secondsHeld, setSecondsHeld] = useState(
+    set.secondsHeld ?? (set.repsCompleted ?? exercise.reps) * (exercise.duration ?? 0)
+  );
+  const [rpe, setRpe] = useState(set.rpe);
+  const [rir, setRir] = useState(set.rir);
+
+  const handleSave = () => {
+    onSave({
+      repsCompleted: reps,
+      load: load !== plannedLoad ? load : undefined,
+      secondsHeld: isTimed ? secondsHeld : undefined,
+      rpe,
+      rir,
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center p-4 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-2xl font-bold mb-4 text-gray-900 dark:text-white">
+          {exercise.name} · Set {set.order}
+        </h2>
+
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div>
+            <label htmlFor="setReps" className={LABEL_CLASS}>
+              Reps
+            </label>
+            <select
+              id="setReps"
+              value={reps}
+              onChange={(e) => setReps(parseInt(e.target.value))}
+              className={INPUT_CLASS}
+            >
+              {Array.from({ length: exercise.reps + 1 }, (_, n) => (
+                <option key={n} value={n}>
+                  {n} of {exercise.reps}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="setLoad" className={LABEL_CLASS}>
+              Load ({exercise.unit})
+            </label>
+            <input
+              id="setLoad"
+              type="number"
+              step={exercise.increment || 'any'}
+              value={load}
+              onChange={(e) => setLoad(parseFloat(e.target.value) || 0)}
+              className={INPUT_CLASS}
+            />
+          </div>
+          {isTimed && (
+            <div className="col-span-2">
+              <label htmlFor="setSeconds" className={LABEL_CLASS}>
+                Seconds held (total)
+              </label>
+              <input
+                id="setSeconds"
+                type="number"
+                min="0"
+                value={secondsHeld}
+                onChange={(e) => setSecondsHeld(parseFloat(e.target.value) || 0)}
+                className={INPUT_CLASS}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Effort: RPE or RIR, both optional */}
+        <p className={LABEL_CLASS}>Effort (RPE)</p>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {RPE_VALUES.map((value) => (
+            <button
+              key={value}
+              onClick={() => setRpe(rpe === value ? undefined : value)}
+              className={chipClass(rpe === value)}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+        <p className={LABEL_CLASS}>Reps in reserve (RIR)</p>
+        <div className="flex flex-wrap gap-2 mb-6">
+          {RIR_VALUES.map((value) => (
+            <button
+              key={value}
+              onClick={() => setRir(rir === value ? undefined : value)}
+              className={chipClass(rir === value)}
+            >
+              {value === RIR_VALUES[RIR_VALUES.length - 1] ? `${value}+` : value}
+            </button>
+          ))}
+        </div>
+
+        <button onClick={handleSave} className="w-full btn btn-primary mb-3">
+          Save
+        </button>
+        <div className="flex gap-3">
+          <button onClick={onUndo} className="flex-1 btn btn-secondary">
+            Not Done
+          </button>
+          <button onClick={onClose} className="flex-1 btn btn-secondary">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
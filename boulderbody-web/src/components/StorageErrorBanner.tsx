@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { exportBackup, subscribeToWriteErrors } from '../logic/StorageManager';
+import { downloadTextFile, fileDateStamp } from '../logic/FileDownload';
+
+interface StorageErrorBannerProps {
+  /** Why sessions could not be loaded at startup (undefined if they were) */
+  loadError?: string;
+}
+
+/**
+ * Banner shown on every page when a session could not be saved, or when
+ * sessions could not be loaded at startup.
+ * After a failed write the app still holds the unsaved changes until it is
+ * closed, so the banner offers a backup download to keep them. After a
+ * failed load the history shown is empty, so the banner says so and offers
+ * a reload.
+ */
+export function StorageErrorBanner({ loadError }: StorageErrorBannerProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [loadErrorDismissed, setLoadErrorDismissed] = useState(false);
+
+  useEffect(() => subscribeToWriteErrors(setError), []);
+
+  const showLoadError = loadError !== undefined && !loadErrorDismissed;
+  if (!error && !showLoadError) {
+    return null;
+  }
+
+  const handleExport = () => {
+    downloadTextFile(`boulderbody-backup-${fileDateStamp()}.json`, exportBackup());
+  };
+
+  const handleDismiss = () => {
+    if (error) {
+      setError(null);
+    } else {
+      setLoadErrorDismissed(true);
+    }
+  };
+
+  return (
+    <div className="fixed top-0 inset-x-0 z-50 p-4">
+      <div className="max-w-2xl mx-auto p-3 bg-red-50 dark:bg-red-900 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-800 dark:text-red-200 shadow-lg">
+        <div className="flex justify-between items-start gap-3">
+          {error ? (
+            <div>
+              <p className="font-medium mb-1">Your latest changes could not be saved</p>
+              <p>{error}</p>
+              <p className="mt-1">
+                They will be lost when the app is closed. Download a backup to keep them.
+              </p>
+              <button onClick={handleExport} className="mt-2 font-medium underline">
+                Download backup
+              </button>
+            </div>
+          ) : (
+            <div>
+              <p className="font-medium mb-1">Your sessions could not be loaded</p>
+              <p>{loadError}</p>
+              <p className="mt-1">
+                Your history is not shown, but nothing was deleted. Reload the app to try again.
+              </p>
+              <button
+                onClick={() => window.location.reload()}
+                className="mt-2 font-medium underline"
+              >
+                Reload
+              </button>
+            </div>
+          )}
+          <button
+            onClick={handleDismiss}
+            className="text-red-700 dark:text-red-300 hover:text-red-900 dark:hover:text-red-100 font-medium"
+            aria-label="Dismiss"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
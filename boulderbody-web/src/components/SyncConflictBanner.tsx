@@ -0,0 +1,42 @@
+/**
+ * Banner listing edits that conflicted with another open tab.
+ * Shown in live session views after a cross-tab merge.
+ */
+
+interface SyncConflictBannerProps {
+  /** Conflict descriptions to show (banner hidden when empty) */
+  conflicts: string[];
+
+  /** Called when user dismisses the banner */
+  onDismiss: () => void;
+}
+
+export function SyncConflictBanner({ conflicts, onDismiss }: SyncConflictBannerProps) {
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-200">
+      <div className="flex justify-between items-start gap-3">
+        <div>
+          <p className="font-medium mb-1">
+            This session was also edited in another tab
+          </p>
+          <ul className="list-disc pl-5 space-y-1">
+            {conflicts.map((conflict, i) => (
+              <li key={i}>{conflict}</li>
+            ))}
+          </ul>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="text-amber-700 dark:text-amber-300 hover:text-amber-900 dark:hover:text-amber-100 font-medium"
+          aria-label="Dismiss"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
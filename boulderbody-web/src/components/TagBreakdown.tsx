@@ -0,0 +1,43 @@
+import type { TagStat } from '../logic/TagStats';
+
+/**
+ * Fail rate per style tag as a list of bars, weakest style first.
+ */
+
+interface TagBreakdownProps {
+  /** Stats to show, already sorted */
+  stats: TagStat[];
+}
+
+export function TagBreakdown({ stats }: TagBreakdownProps) {
+  if (stats.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Tag boulders when logging them to see which styles you struggle with.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {stats.map((stat) => (
+        <div key={stat.tag}>
+          <div className="flex justify-between items-center text-sm mb-1">
+            <span className="font-medium capitalize text-gray-900 dark:text-white">
+              {stat.tag}
+            </span>
+            <span className="text-gray-500 dark:text-gray-400">
+              {stat.fails}/{stat.attempts} failed · {stat.failRate.toFixed(0)}%
+            </span>
+          </div>
+          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+            <div
+              className="bg-red-500 h-2 rounded-full"
+              style={{ width: `${stat.failRate}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
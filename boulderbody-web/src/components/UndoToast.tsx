@@ -0,0 +1,59 @@
+import { useEffect } from 'react';
+
+/**
+ * Toast shown at the bottom of the screen after a reversible action.
+ * Offers an Undo button and hides itself after a few seconds.
+ */
+
+interface UndoToastProps {
+  /** Text describing what happened (toast hidden when null) */
+  message: string | null;
+
+  /** Called when user taps Undo */
+  onUndo: () => void;
+
+  /** Called when the toast times out or is dismissed */
+  onClose: () => void;
+
+  /** How long the toast stays visible, in milliseconds (default: 6000) */
+  duration?: number;
+}
+
+export function UndoToast({
+  message,
+  onUndo,
+  onClose,
+  duration = 6000,
+}: UndoToastProps) {
+  useEffect(() => {
+    if (!message) return;
+
+    const timeout = setTimeout(onClose, duration);
+    return () => clearTimeout(timeout);
+  }, [message, onClose, duration]);
+
+  if (!message) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 inset-x-0 flex justify-center px-4 z-40">
+      <div className="flex items-center gap-4 bg-gray-900 dark:bg-gray-700 text-white rounded-lg shadow-xl px-4 py-3 max-w-md w-full">
+        <span className="flex-1 text-sm">{message}</span>
+        <button
+          onClick={onUndo}
+          className="font-bold text-blue-300 hover:text-blue-200 min-h-[44px] px-2"
+        >
+          Undo
+        </button>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-200 min-h-[44px] px-2"
+          aria-label="Dismiss"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * useSessionSync.ts
+ *
+ * Keeps a live session view in sync with edits made in other tabs.
+ * Remote writes are merged into the local copy instead of replacing it, and
+ * any attempts or sets both tabs changed are reported as conflicts.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { Session } from '../models/Session';
+import { subscribeToSessionChanges, updateSession } from '../logic/StorageManager';
+import { mergeSessions } from '../logic/SessionMerger';
+
+interface SessionSyncOptions {
+  /** Called when another tab deleted or trashed the session */
+  onRemoteDelete: () => void;
+
+  /** Called when the merged session is finished (e.g. finished in another tab) */
+  onRemoteFinish: () => void;
+}
+
+interface SessionSync<T extends Session> {
+  /** Persist a local edit and update view state */
+  commit: (session: T) => void;
+
+  /** Conflicts from the most recent merges, newest last */
+  conflicts: string[];
+
+  /** Clear the conflict list */
+  dismissConflicts: () => void;
+}
+
+export function useSessionSync<T extends Session>(
+  session: T | null,
+  setSession: (session: T) => void,
+  { onRemoteDelete, onRemoteFinish }: SessionSyncOptions
+): SessionSync<T> {
+  // Last version both this tab and storage agreed on (the merge base)
+  const baseRef = useRef<T | null>(session);
+  const [conflicts, setConflicts] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (session && baseRef.current?.id !== session.id) {
+      baseRef.current = session;
+    }
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) return;
+
+    return subscribeToSessionChanges((id, remote) => {
+      if (id !== session.id) return;
+
+      if (!remote || remote.deletedAt) {
+        onRemoteDelete();
+        return;
+      }
+
+      const base = baseRef.current ?? session;
+      const merged = mergeSessions(base, session, remote as T);
+      baseRef.current = remote as T;
+
+      if (merged.conflicts.length > 0) {
+        setConflicts((prev) => [...prev, ...merged.conflicts]);
+      }
+
+      // Our edits survived the merge - write them back so both tabs converge
+      if (JSON.stringify(merged.session) !== JSON.stringify(remote)) {
+        updateSession(merged.session);
+        baseRef.current = merged.session;
+      }
+
+      setSession(merged.session);
+      if (merged.session.isFinished) {
+        onRemoteFinish();
+      }
+    });
+  }, [session, setSession, onRemoteDelete, onRemoteFinish]);
+
+  const commit = (updated: T) => {
+    updateSession(updated);
+    baseRef.current = updated;
+    setSession(updated);
+  };
+
+  return {
+    commit,
+    conflicts,
+    dismissConflicts: () => setConflicts([]),
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import type { Session } from '../models/Session';
+import { BUILT_IN_EXERCISES } from '../models/Exercise';
+import { V_SCALE } from '../models/GradeScale';
+import { createPyramidSession, createTrainingSession } from './SessionFactory';
+import { getCalendarDays, getStreaks } from './CalendarStats';
+
+const trapbar = BUILT_IN_EXERCISES[3];
+
+/**
+ * A finished session of all-sent V4 boulders (level 6).
+ */
+function volumeSession(date: Date, boulders = 10): Session {
+  const session = createPyramidSession([{ level: 6, boulderCount: boulders }], V_SCALE.id, date);
+  return {
+    ...session,
+    isFinished: true,
+    attempts: session.attempts.map((a) => ({ ...a, result: 'done' })),
+  };
+}
+
+/**
+ * A finished training session of trap bar deadlifts with every set done.
+ */
+function trainingSession(date: Date): Session {
+  const session = createTrainingSession([{ exercise: trapbar, load: 20 }], undefined, date);
+  return {
+    ...session,
+    isFinished: true,
+    trainingData: {
+      ...session.trainingData,
+      exercises: session.trainingData.exercises.map((block) => ({
+        ...block,
+        sets: block.sets.map((set) => ({ ...set, completed: true })),
+      })),
+    },
+  };
+}
+
+describe('getStreaks', () => {
+  // Mon Sep 28, Tue Oct 6 (twice), Wed Oct 14, 2026
+  const sessions = [
+    volumeSession(new Date(2026, 8, 28, 18)),
+    volumeSession(new Date(2026, 9, 6, 18)),
+    trainingSession(new Date(2026, 9, 6, 20)),
+    volumeSession(new Date(2026, 9, 14, 18)),
+  ];
+
+  it('counts weeks in a row, several sessions in a week counting once', () => {
+    expect(getStreaks(sessions, new Date(2026, 9, 18, 12))).toEqual({ current: 3, longest: 3 });
+  });
+
+  it('keeps the current streak through the week after the last session', () => {
+    expect(getStreaks(sessions, new Date(2026, 9, 25, 12)).current).toBe(3);
+    expect(getStreaks(sessions, new Date(2026, 10, 3, 12))).toEqual({ current: 0, longest: 3 });
+  });
+
+  it('starts over after a week without sessions', () => {
+    const later = [...sessions, volumeSession(new Date(2026, 9, 28, 18))];
+    expect(getStreaks(later, new Date(2026, 9, 30, 12))).toEqual({ current: 1, longest: 3 });
+  });
+
+  it('ignores sessions after now and is zero without sessions', () => {
+    expect(getStreaks(sessions, new Date(2026, 8, 1))).toEqual({ current: 0, longest: 0 });
+    expect(getStreaks([])).toEqual({ current: 0, longest: 0 });
+  });
+});
+
+describe('getCalendarDays', () => {
+  it('returns every day of the range with its sessions and type', () => {
+    const sessions = [
+      volumeSession(new Date(2026, 9, 5, 18)),
+      volumeSession(new Date(2026, 9, 6, 9)),
+      trainingSession(new Date(2026, 9, 6, 18)),
+      trainingSession(new Date(2026, 9, 8, 18)),
+    ];
+    const days = getCalendarDays(sessions, new Date(2026, 9, 5), new Date(2026, 9, 11));
+
+    expect(days).toHaveLength(7);
+    expect(days.map((d) => d.type)).toEqual([
+      'volume',
+      'both',
+      null,
+      'training',
+      null,
+      null,
+      null,
+    ]);
+    expect(days[1].sessions).toHaveLength(2);
+  });
+
+  it('scales intensity to the hardest day of all sessions', () => {
+    const sessions = [
+      volumeSession(new Date(2026, 9, 1, 18), 40),
+      volumeSession(new Date(2026, 9, 5, 18), 20),
+      volumeSession(new Date(2026, 9, 6, 18), 1),
+    ];
+    const days = getCalendarDays(sessions, new Date(2026, 9, 5), new Date(2026, 9, 7));
+
+    expect(days.map((d) => d.intensity)).toEqual([2, 1, 0]);
+    expect(days[0].load).toBe(120);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * CalendarStats.ts
+ *
+ * Day-by-day view of the finished sessions for the training calendar:
+ * which session types were done on each day and how hard the day was,
+ * and the streaks of weeks in a row with a session.
+ */
+
+import type { Session } from '../models/Session';
+import { isVolumeSession } from '../models/Session';
+import type { GradeScale } from '../models/GradeScale';
+import { BUILT_IN_SCALES } from '../models/GradeScale';
+import { getSessionLoad } from './TrainingLoad';
+import { weeksBetween } from './ProgressStats';
+
+/**
+ * Session types done on a day.
+ */
+export type CalendarDayType = 'volume' | 'training' | 'both';
+
+/**
+ * One day of the calendar.
+ */
+export interface CalendarDay {
+  /** Midnight at the start of the day */
+  date: Date;
+
+  /** Sessions of the day, oldest first */
+  sessions: Session[];
+
+  /** Session types of the day (null without sessions) */
+  type: CalendarDayType | null;
+
+  /** Total training load of the day's sessions */
+  load: number;
+
+  /** Load relative to the hardest day, 0 (no session) to 4 */
+  intensity: number;
+}
+
+/**
+ * Current and longest run of weeks in a row with a session.
+ */
+export interface Streaks {
+  /** Weeks in a row up to this week (or last week, while this one is empty) */
+  current: number;
+
+  longest: number;
+}
+
+/**
+ * Intensity steps of days with a session.
+ */
+export const INTENSITY_LEVELS = 4;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Midnight at the start of a date's day.
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * The day after a date's day (DST changes don't matter).
+ */
+export function nextDay(date: Date): Date {
+  return startOfDay(new Date(startOfDay(date).getTime() + 1.5 * DAY_MS));
+}
+
+/**
+ * Build the calendar days of a date range.
+ * Intensity is scaled to the hardest day of all given sessions, so days
+ * compare the same in any range.
+ * @param sessions Finished sessions (any order)
+ * @param from First day of the range
+ * @param to Last day of the range (inclusive)
+ * @param scales Known grade scales (to weigh boulders by grade)
+ * @returns One entry per day, oldest first
+ */
+export function getCalendarDays(
+  sessions: Session[],
+  from: Date,
+  to: Date,
+  scales: GradeScale[] = BUILT_IN_SCALES
+): CalendarDay[] {
+  const byDay = new Map<number, Session[]>();
+  for (const session of [...sessions].sort((a, b) => a.date.getTime() - b.date.getTime())) {
+    const key = startOfDay(session.date).getTime();
+    byDay.set(key, [...(byDay.get(key) ?? []), session]);
+  }
+
+  const loads = new Map<number, number>();
+  for (const [key, daySessions] of byDay) {
+    loads.set(key, daySessions.reduce((sum, s) => sum + getSessionLoad(s, scales), 0));
+  }
+  const maxLoad = Math.max(0, ...loads.values());
+
+  const days: CalendarDay[] = [];
+  const last = startOfDay(to).getTime();
+  for (let date = startOfDay(from); date.getTime() <= last; date = nextDay(date)) {
+    const daySessions = byDay.get(date.getTime()) ?? [];
+    const load = loads.get(date.getTime()) ?? 0;
+
+    const hasVolume = daySessions.some(isVolumeSession);
+    const hasTraining = daySessions.some((s) => !isVolumeSession(s));
+    let type: CalendarDayType | null = null;
+    if (hasVolume && hasTraining) type = 'both';
+    else if (hasVolume) type = 'volume';
+    else if (hasTraining) type = 'training';
+
+    // Days with a session are at least 1, even without logged load
+    const intensity =
+      daySessions.length === 0
+        ? 0
+        : Math.max(1, maxLoad > 0 ? Math.ceil((load / maxLoad) * INTENSITY_LEVELS) : 1);
+
+    days.push({ date, sessions: daySessions, type, load, intensity });
+  }
+  return days;
+}
+
+/**
+ * Current and longest streak of weeks in a row with a session.
+ * @param sessions Finished sessions (any order)
+ * @param now Current time
+ * @returns Both streaks in weeks (0 without sessions)
+ */
+export function getStreaks(sessions: Session[], now: Date = new Date()): Streaks {
+  const dates = sessions
+    .map((s) => s.date)
+    .filter((d) => d.getTime() <= now.getTime())
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  let longest = 0;
+  let weeks = 0;
+  let last: Date | null = null;
+  for (const date of dates) {
+    const gap = last ? weeksBetween(last, date) : null;
+    last = date;
+    if (gap === 0) continue;
+
+    weeks = gap === 1 ? weeks + 1 : 1;
+    longest = Math.max(longest, weeks);
+  }
+
+  // The streak is still going if the last session was this week or last week
+  const current = last && weeksBetween(last, now) <= 1 ? weeks : 0;
+  return { current, longest };
+}
@@ -0,0 +1,125 @@
+/**
+ * DataQuarantine.ts
+ *
+ * Keeps unreadable session data aside so it is never overwritten.
+ * Storage backends quarantine raw payloads here; the recovery screen reads them back.
+ */
+
+const QUARANTINE_KEY = 'boulderbody_sessions_quarantine';
+
+/**
+ * Raw session data that could not be read, kept aside so it is never overwritten.
+ */
+export interface QuarantineEntry {
+  /** When the data was set aside */
+  quarantinedAt: string;
+
+  /** Number of sessions recovered from the payload */
+  recoveredCount: number;
+
+  /** Number of sessions that could not be recovered (-1 if the payload was unreadable) */
+  failedCount: number;
+
+  /** Validation problems that caused sessions to be skipped ("path: message") */
+  issues?: string[];
+
+  /** The original stored value, byte for byte */
+  raw: string;
+}
+
+/**
+ * Raw payload that could not be quarantined (e.g. quota exceeded).
+ * While set, backends must not overwrite the original data.
+ */
+let blockedPayload: string | null = null;
+
+/**
+ * Move an unreadable payload to the quarantine key.
+ * If that fails the payload is held in memory and writes are blocked.
+ * @returns true if the payload is safely stored and the original may be replaced
+ */
+export function quarantineRawData(
+  raw: string,
+  recoveredCount: number,
+  failedCount: number,
+  issues?: string[]
+): boolean {
+  try {
+    const entry: QuarantineEntry = {
+      quarantinedAt: new Date().toISOString(),
+      recoveredCount,
+      failedCount,
+      issues,
+      raw,
+    };
+    localStorage.setItem(
+      QUARANTINE_KEY,
+      JSON.stringify([...getQuarantinedData(), entry])
+    );
+    return true;
+  } catch (error) {
+    console.error('Failed to quarantine corrupted session data:', error);
+    blockedPayload = raw;
+    return false;
+  }
+}
+
+/**
+ * Reason given by backends when they refuse a write.
+ */
+export const WRITES_BLOCKED_MESSAGE =
+  'Stored session data is unreadable and could not be backed up. Download it from the recovery screen before saving.';
+
+/**
+ * Whether writes must be refused to protect data that could not be quarantined.
+ */
+export function areWritesBlocked(): boolean {
+  return blockedPayload !== null;
+}
+
+/**
+ * Get all quarantined raw payloads, oldest first.
+ */
+export function getQuarantinedData(): QuarantineEntry[] {
+  try {
+    const stored = localStorage.getItem(QUARANTINE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Build a downloadable recovery file.
+ * Includes every quarantined payload, plus the blocked payload if there is one.
+ */
+export function exportQuarantinedData(): string {
+  const entries = getQuarantinedData();
+
+  if (blockedPayload) {
+    entries.push({
+      quarantinedAt: new Date().toISOString(),
+      recoveredCount: 0,
+      failedCount: -1,
+      raw: blockedPayload,
+    });
+  }
+
+  return JSON.stringify(entries, null, 2);
+}
+
+/**
+ * Whether there is unreadable data the user should know about.
+ */
+export function hasUnrecoveredData(): boolean {
+  return areWritesBlocked() || getQuarantinedData().length > 0;
+}
+
+/**
+ * Discard quarantined data after the user has downloaded or given up on it.
+ * Also lifts the write block so the salvaged sessions can be saved again.
+ */
+export function clearQuarantinedData(): void {
+  localStorage.removeItem(QUARANTINE_KEY);
+  blockedPayload = null;
+}
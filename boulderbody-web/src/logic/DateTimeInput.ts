@@ -0,0 +1,23 @@
+/**
+ * DateTimeInput.ts
+ *
+ * Conversions between Date objects and datetime-local input values.
+ * Inputs work in local time with minute precision.
+ */
+
+/**
+ * Format a date as YYYY-MM-DDTHH:mm for a datetime-local input.
+ */
+export function toDateTimeInputValue(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Parse a datetime-local input value.
+ * @returns The date, or null if the input is empty or incomplete
+ */
+export function parseDateTimeInput(value: string): Date | null {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
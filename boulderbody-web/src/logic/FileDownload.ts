@@ -0,0 +1,36 @@
+/**
+ * FileDownload.ts
+ *
+ * Browser helpers for saving generated content as a file.
+ */
+
+/**
+ * Trigger a download of text content as a file.
+ * @param filename Suggested file name for the download
+ * @param content File contents
+ * @param mimeType MIME type of the content (default: application/json)
+ */
+export function downloadTextFile(
+  filename: string,
+  content: string,
+  mimeType = 'application/json'
+): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Format today's date as YYYY-MM-DD for use in file names.
+ */
+export function fileDateStamp(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,36 @@
+/**
+ * ImageResize.ts
+ *
+ * Shrinks photos before they are stored, so a few project photos don't fill
+ * the browser's storage quota.
+ */
+
+/**
+ * Load an image file and re-encode it as a JPEG data URL.
+ * @param file Image picked by the user
+ * @param maxSize Longest side of the result in pixels (default: 640)
+ * @throws Error if the file can't be read as an image
+ */
+export function resizeImage(file: File, maxSize = 640): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+
+    image.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the photo. Try a JPEG or PNG image.'));
+    };
+
+    image.src = url;
+  });
+}
@@ -0,0 +1,168 @@
+/**
+ * IndexedDBRepository.ts
+ *
+ * Default session backend. Stores one record per session, so logging a boulder
+ * writes a single record instead of rewriting the whole history.
+ *
+ * Records are kept in their JSON-safe serialized form and the schema version is
+ * tracked in a separate meta store, so the shared migration chain applies here too.
+ */
+
+import type { Session } from '../models/Session';
+import type { SessionRepository } from './SessionRepository';
+import { CURRENT_VERSION, loadSessions, serializeSession } from './SessionSerializer';
+import { formatIssues } from './SessionValidator';
+import { quarantineRawData, areWritesBlocked, WRITES_BLOCKED_MESSAGE } from './DataQuarantine';
+
+const DB_NAME = 'boulderbody';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const META_STORE = 'meta';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+/**
+ * Stored session record.
+ * IndexedDB cannot index booleans, so isFinished is mirrored as 0/1.
+ */
+type SessionRecord = Session & { finishedFlag: 0 | 1 };
+
+/**
+ * Wrap an IDBRequest in a promise.
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve when a transaction commits, reject if it fails or aborts.
+ */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+function toRecord(session: Session): SessionRecord {
+  return { ...serializeSession(session), finishedFlag: session.isFinished ? 1 : 0 };
+}
+
+function fromRecord(record: SessionRecord): Session {
+  const data: Partial<SessionRecord> = { ...record };
+  delete data.finishedFlag;
+  return data as Session;
+}
+
+/**
+ * Open (and create or upgrade) the BoulderBody database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        store.createIndex('sessionType', 'sessionType');
+        store.createIndex('date', 'date');
+        store.createIndex('isFinished', 'finishedFlag');
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Database upgrade blocked by another tab'));
+  });
+}
+
+/**
+ * Open IndexedDB and create a repository on top of it.
+ * Rejects if IndexedDB is unavailable (e.g. some private browsing modes).
+ */
+export async function createIndexedDBRepository(): Promise<SessionRepository> {
+  const db = await openDatabase();
+
+  const putRecords = async (sessions: Session[]) => {
+    if (areWritesBlocked()) {
+      throw new Error(WRITES_BLOCKED_MESSAGE);
+    }
+    const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+    const store = tx.objectStore(SESSIONS_STORE);
+    sessions.forEach((s) => store.put(toRecord(s)));
+    await transactionDone(tx);
+  };
+
+  return {
+    async loadAll() {
+      const tx = db.transaction([SESSIONS_STORE, META_STORE], 'readonly');
+      const [records, storedVersion] = await Promise.all([
+        requestToPromise<SessionRecord[]>(tx.objectStore(SESSIONS_STORE).getAll()),
+        requestToPromise<number | undefined>(
+          tx.objectStore(META_STORE).get(SCHEMA_VERSION_KEY)
+        ),
+      ]);
+      const version = storedVersion ?? CURRENT_VERSION;
+
+      const { sessions, failedIndexes, issues } = loadSessions({
+        version,
+        sessions: records.map(fromRecord),
+      });
+      const failed = failedIndexes.map((i) => records[i]);
+
+      // Only drop unreadable records once a copy is safely quarantined
+      const quarantined =
+        failed.length === 0 ||
+        quarantineRawData(
+          JSON.stringify({ version, sessions: failed }),
+          sessions.length,
+          failed.length,
+          formatIssues(issues)
+        );
+
+      // Otherwise leave every record and the schema version as they are, so
+      // the old-format records still go through migration next time
+      if (quarantined) {
+        const cleanup = db.transaction([SESSIONS_STORE, META_STORE], 'readwrite');
+        failed.forEach((r) => cleanup.objectStore(SESSIONS_STORE).delete(r.id));
+        if (version < CURRENT_VERSION) {
+          sessions.forEach((s) => cleanup.objectStore(SESSIONS_STORE).put(toRecord(s)));
+          console.log(`Migration to v${CURRENT_VERSION} complete`);
+        }
+        cleanup.objectStore(META_STORE).put(CURRENT_VERSION, SCHEMA_VERSION_KEY);
+        await transactionDone(cleanup);
+      }
+
+      return sessions;
+    },
+
+    async put(session) {
+      await putRecords([session]);
+    },
+
+    async putMany(sessions) {
+      await putRecords(sessions);
+    },
+
+    async delete(id) {
+      if (areWritesBlocked()) {
+        throw new Error(WRITES_BLOCKED_MESSAGE);
+      }
+      const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+      tx.objectStore(SESSIONS_STORE).delete(id);
+      await transactionDone(tx);
+    },
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * LocalStorageRepository.ts
+ *
+ * Fallback session backend that keeps every session in a single localStorage key.
+ * Each write rewrites the whole array, so it is only used when IndexedDB is unavailable.
+ */
+
+import type { Session } from '../models/Session';
+import type { SessionRepository } from './SessionRepository';
+import type { StorageSchema } from './SessionSerializer';
+import { CURRENT_VERSION, loadSessions } from './SessionSerializer';
+import { formatIssues } from './SessionValidator';
+import { quarantineRawData, areWritesBlocked, WRITES_BLOCKED_MESSAGE } from './DataQuarantine';
+
+export const LEGACY_SESSIONS_KEY = 'boulderbody_sessions';
+
+/**
+ * Read sessions from the localStorage key.
+ * Corrupted payloads are quarantined before anything readable is written back.
+ */
+function readSessions(): Session[] {
+  const stored = localStorage.getItem(LEGACY_SESSIONS_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  let data: StorageSchema;
+  try {
+    data = JSON.parse(stored);
+    if (!data || !Array.isArray(data.sessions)) {
+      throw new Error('Missing sessions array');
+    }
+  } catch (error) {
+    console.error('Error loading sessions from localStorage:', error);
+    // Keep the raw payload aside; only remove it once it is safe
+    if (quarantineRawData(stored, 0, -1)) {
+      localStorage.removeItem(LEGACY_SESSIONS_KEY);
+    }
+    return [];
+  }
+
+  const needsMigration = !data.version || data.version < CURRENT_VERSION;
+  if (needsMigration) {
+    console.warn('Old data version detected, migrating...');
+  }
+
+  const { sessions, failedIndexes, issues } = loadSessions(data);
+  const failedCount = failedIndexes.length;
+
+  if (
+    failedCount > 0 &&
+    !quarantineRawData(stored, sessions.length, failedCount, formatIssues(issues))
+  ) {
+    return sessions;
+  }
+
+  // Persist migrated or salvaged data immediately
+  if (needsMigration || failedCount > 0) {
+    try {
+      writeSessions(sessions);
+      if (needsMigration) {
+        console.log(`Migration to v${CURRENT_VERSION} complete`);
+      }
+    } catch (saveError) {
+      console.error('Failed to save migrated data:', saveError);
+    }
+  }
+
+  return sessions;
+}
+
+/**
+ * Save all sessions to localStorage.
+ * Throws error if quota exceeded, localStorage unavailable, or writes are blocked.
+ */
+function writeSessions(sessions: Session[]): void {
+  if (areWritesBlocked()) {
+    throw new Error(WRITES_BLOCKED_MESSAGE);
+  }
+
+  try {
+    const data: StorageSchema = {
+      version: CURRENT_VERSION,
+      sessions,
+    };
+    localStorage.setItem(LEGACY_SESSIONS_KEY, JSON.stringify(data));
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+      throw new Error(
+        'Browser storage is full. Export a backup so your sessions are not lost.'
+      );
+    }
+    throw new Error('Failed to save session data. Storage may be unavailable.');
+  }
+}
+
+/**
+ * Create a repository backed by the legacy `boulderbody_sessions` key.
+ * Every write re-reads the key first so changes from other tabs are kept.
+ */
+export function createLocalStorageRepository(): SessionRepository {
+  return {
+    async loadAll() {
+      return readSessions();
+    },
+
+    async put(session) {
+      await this.putMany([session]);
+    },
+
+    async putMany(updated) {
+      const sessions = readSessions();
+      const byId = new Map(updated.map((s) => [s.id, s]));
+      const existingIds = new Set(sessions.map((s) => s.id));
+      writeSessions([
+        ...sessions.map((s) => byId.get(s.id) ?? s),
+        ...updated.filter((s) => !existingIds.has(s.id)),
+      ]);
+    },
+
+    async delete(id) {
+      writeSessions(readSessions().filter((s) => s.id !== id));
+    },
+  };
+}
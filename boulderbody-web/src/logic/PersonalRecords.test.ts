@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import type { Session } from '../models/Session';
+import type { AttemptResult } from '../models/BoulderAttempt';
+import { BUILT_IN_EXERCISES } from '../models/Exercise';
+import { V_SCALE } from '../models/GradeScale';
+import { createPyramidSession, createTrainingSession } from './SessionFactory';
+import { getNewRecords, getPersonalRecords } from './PersonalRecords';
+
+/** Monday, Sep 28, 2026 at 18:00 */
+const weekStart = (week: number) => new Date(2026, 8, 28 + week * 7, 18);
+
+const [hang, , , trapbar] = BUILT_IN_EXERCISES;
+
+const recordOf = (sessions: Session[], id: string) =>
+  getPersonalRecords(sessions).find((r) => r.id === id);
+
+/**
+ * A finished session of 10 V-scale boulders at one level with the given
+ * results, the rest sent.
+ */
+function volumeSession(date: Date, level: number, results: AttemptResult[] = []): Session {
+  const session = createPyramidSession([{ level, boulderCount: 10 }], V_SCALE.id, date);
+  return {
+    ...session,
+    isFinished: true,
+    attempts: session.attempts.map((a, i) => ({ ...a, result: results[i] ?? 'done' })),
+  };
+}
+
+/**
+ * A finished training session of one exercise with the first `setsDone`
+ * sets done.
+ */
+function trainingSession(date: Date, exercise = trapbar, load = 20, setsDone = 5): Session {
+  const session = createTrainingSession([{ exercise, load }], undefined, date);
+  return {
+    ...session,
+    isFinished: true,
+    trainingData: {
+      ...session.trainingData,
+      exercises: session.trainingData.exercises.map((block) => ({
+        ...block,
+        sets: block.sets.map((set, i) => ({ ...set, completed: i < setsDone })),
+      })),
+    },
+  };
+}
+
+describe('getPersonalRecords', () => {
+  it('counts a grade only when most of its boulders were sent', () => {
+    const sessions = [
+      volumeSession(weekStart(0), 5),
+      volumeSession(weekStart(0), 7, Array(5).fill('fail')),
+      volumeSession(weekStart(0), 6, Array(4).fill('fail')),
+    ];
+    const record = recordOf(sessions, 'level:v-scale');
+    expect(record?.value).toBe(6);
+    expect(record?.label).toBe('V4');
+  });
+
+  it('keeps the most flashes in one session', () => {
+    const sessions = [
+      volumeSession(weekStart(0), 5, ['flash', 'onsight', 'flash']),
+      volumeSession(weekStart(1), 5, ['flash']),
+    ];
+    expect(recordOf(sessions, 'flashes')?.label).toBe('3 flashes');
+  });
+
+  it('keeps the heaviest completed set of each exercise', () => {
+    const sessions = [
+      trainingSession(weekStart(0), trapbar, 40),
+      trainingSession(weekStart(1), trapbar, 50, 0),
+      trainingSession(weekStart(1), hang, 0),
+    ];
+    expect(recordOf(sessions, 'load:trapbar')?.label).toBe('40kg');
+    expect(recordOf(sessions, 'load:hang')).toBeUndefined();
+  });
+
+  it('counts the longest run of weeks with a session', () => {
+    const sessions = [0, 1, 1, 2, 4, 5].map((w) => volumeSession(weekStart(w), 5));
+    const streak = recordOf(sessions, 'streak');
+    expect(streak?.value).toBe(3);
+    expect(streak?.sessionId).toBe(sessions[3].id);
+  });
+
+  it('ignores unfinished sessions', () => {
+    const unfinished = { ...volumeSession(weekStart(1), 9), isFinished: false };
+    const sessions = [volumeSession(weekStart(0), 5), unfinished];
+    expect(recordOf(sessions, 'level:v-scale')?.value).toBe(5);
+  });
+});
+
+describe('getNewRecords', () => {
+  it('reports beaten records with the previous best', () => {
+    const first = trainingSession(weekStart(0), trapbar, 40);
+    const second = trainingSession(weekStart(1), trapbar, 45);
+    const sessions = [second, first];
+
+    expect(getNewRecords(first, sessions)).toEqual([]);
+    const [beaten, streak] = getNewRecords(second, sessions);
+    expect(beaten.record.label).toBe('45kg');
+    expect(beaten.previous.label).toBe('40kg');
+    expect(streak).toBeUndefined();
+  });
+
+  it('reports a longer streak', () => {
+    const sessions = [0, 1, 2].map((w) => volumeSession(weekStart(w), 5));
+    const records = getNewRecords(sessions[2], sessions);
+    expect(records.map((r) => r.record.label)).toEqual(['3 weeks in a row']);
+    expect(records[0].previous.value).toBe(2);
+  });
+});
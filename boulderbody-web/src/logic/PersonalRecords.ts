@@ -0,0 +1,240 @@
+/**
+ * PersonalRecords.ts
+ *
+ * All-time bests, recomputed from the finished sessions:
+ * - Hardest grade sent at a fail rate under 50%, per grade scale
+ * - Most flashes (including onsights) in a session
+ * - Heaviest load with all reps of a set done, per exercise
+ * - Longest streak of weeks in a row with a session
+ * Each record points to the session it came from. Ties keep the earlier session.
+ */
+
+import type { Session, VolumeSession, TrainingSession } from '../models/Session';
+import { isVolumeSession, splitByLevel, getFailRate } from '../models/Session';
+import { isSetComplete, getSessionExercise } from '../models/SessionType';
+import type { GradeScale } from '../models/GradeScale';
+import { BUILT_IN_SCALES, LEVEL_SCALE, getGradeLabel } from '../models/GradeScale';
+import { weeksBetween } from './ProgressStats';
+
+/**
+ * What a record measures.
+ */
+export type RecordKind = 'level' | 'flashes' | 'load' | 'streak';
+
+/**
+ * A best value and the session that set it.
+ */
+export interface PersonalRecord {
+  /** Unique per record, e.g. "level:font" or "load:hang" */
+  id: string;
+
+  kind: RecordKind;
+
+  /** What the record is, e.g. "Hardest grade (Fontainebleau)" */
+  title: string;
+
+  /** Value to compare (higher is better) */
+  value: number;
+
+  /** Value for display, e.g. "6B+", "12 flashes" or "20kg" */
+  label: string;
+
+  /** ID of the session that set the record */
+  sessionId: string;
+
+  /** Date of that session */
+  date: Date;
+}
+
+/**
+ * A record set by a session, with the best it beat.
+ */
+export interface NewRecord {
+  record: PersonalRecord;
+
+  /** The best before the session */
+  previous: PersonalRecord;
+}
+
+/**
+ * Highest fail rate (percent) at which a level counts as sent for the grade record.
+ */
+export const RECORD_MAX_FAIL_RATE = 50;
+
+/**
+ * Record candidates of a volume session: its hardest level block under the
+ * fail rate limit, and its flashes.
+ */
+function getVolumeCandidates(session: VolumeSession, scales: GradeScale[]): PersonalRecord[] {
+  const scale = scales.find((s) => s.id === session.gradeScale) ?? LEVEL_SCALE;
+  const candidates: PersonalRecord[] = [];
+
+  const sent = splitByLevel(session).filter(
+    (block) =>
+      block.attempts.some((a) => a.result !== undefined) &&
+      getFailRate(block) < RECORD_MAX_FAIL_RATE
+  );
+  if (sent.length > 0) {
+    const level = Math.max(...sent.map((b) => b.targetLevel));
+    candidates.push({
+      id: `level:${scale.id}`,
+      kind: 'level',
+      title: `Hardest grade (${scale.name})`,
+      value: level,
+      label: getGradeLabel(scale, level),
+      sessionId: session.id,
+      date: session.date,
+    });
+  }
+
+  const flashes = session.attempts.filter(
+    (a) => a.result === 'flash' || a.result === 'onsight'
+  ).length;
+  if (flashes > 0) {
+    candidates.push({
+      id: 'flashes',
+      kind: 'flashes',
+      title: 'Most flashes in a session',
+      value: flashes,
+      label: `${flashes} ${flashes === 1 ? 'flash' : 'flashes'}`,
+      sessionId: session.id,
+      date: session.date,
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Record candidates of a training session: the heaviest fully done set of
+ * each exercise (bodyweight-only sets don't count).
+ */
+function getTrainingCandidates(session: TrainingSession): PersonalRecord[] {
+  return session.trainingData.exercises.flatMap((block) => {
+    const { reps } = getSessionExercise(session.trainingData, block);
+    const loads = block.sets
+      .filter((s) => s.completed && isSetComplete(s, reps))
+      .map((s) => s.load ?? block.load);
+    const load = Math.max(0, ...loads);
+    if (load <= 0) {
+      return [];
+    }
+
+    return [
+      {
+        id: `load:${block.exercise.id}`,
+        kind: 'load' as const,
+        title: `Heaviest ${block.exercise.name}`,
+        value: load,
+        label: `${load}${block.exercise.unit}`,
+        sessionId: session.id,
+        date: session.date,
+      },
+    ];
+  });
+}
+
+/**
+ * Longest run of weeks in a row with a session, ending with the session
+ * that first reached it.
+ * @param sessions Finished sessions, oldest first
+ */
+function getStreakRecord(sessions: Session[]): PersonalRecord | null {
+  let best: PersonalRecord | null = null;
+  let weeks = 0;
+  let last: Session | null = null;
+
+  for (const session of sessions) {
+    const gap = last ? weeksBetween(last.date, session.date) : null;
+    last = session;
+    if (gap === 0) continue;
+
+    weeks = gap === 1 ? weeks + 1 : 1;
+
+    if (weeks > 1 && (!best || weeks > best.value)) {
+      best = {
+        id: 'streak',
+        kind: 'streak',
+        title: 'Longest streak',
+        value: weeks,
+        label: `${weeks} weeks in a row`,
+        sessionId: session.id,
+        date: session.date,
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * Best of each record across sessions, in order of first appearance.
+ * @param sessions Finished sessions, oldest first
+ */
+function getBests(sessions: Session[], scales: GradeScale[]): PersonalRecord[] {
+  const bests: PersonalRecord[] = [];
+
+  for (const session of sessions) {
+    const candidates = isVolumeSession(session)
+      ? getVolumeCandidates(session, scales)
+      : getTrainingCandidates(session);
+
+    for (const candidate of candidates) {
+      const i = bests.findIndex((r) => r.id === candidate.id);
+      if (i === -1) {
+        bests.push(candidate);
+      } else if (candidate.value > bests[i].value) {
+        bests[i] = candidate;
+      }
+    }
+  }
+
+  const streak = getStreakRecord(sessions);
+  return streak ? [...bests, streak] : bests;
+}
+
+/**
+ * Sort finished sessions oldest first.
+ */
+function chronological(sessions: Session[]): Session[] {
+  return sessions
+    .filter((s) => s.isFinished)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * All-time personal records.
+ * @param sessions All sessions (unfinished ones are ignored)
+ * @param scales Known grade scales (for grade records)
+ * @returns One record per kind (grades per scale, loads per exercise)
+ */
+export function getPersonalRecords(
+  sessions: Session[],
+  scales: GradeScale[] = BUILT_IN_SCALES
+): PersonalRecord[] {
+  return getBests(chronological(sessions), scales);
+}
+
+/**
+ * Records a session set by beating an earlier best.
+ * A first value for a record (nothing to beat yet) isn't counted.
+ * @param session The session to check
+ * @param sessions All sessions (unfinished ones are ignored)
+ * @param scales Known grade scales (for grade records)
+ * @returns The records the session set, each with the best it beat
+ */
+export function getNewRecords(
+  session: Session,
+  sessions: Session[],
+  scales: GradeScale[] = BUILT_IN_SCALES
+): NewRecord[] {
+  const all = chronological(sessions);
+  const index = all.findIndex((s) => s.id === session.id);
+  if (index === -1) {
+    return [];
+  }
+
+  const before = getBests(all.slice(0, index), scales);
+  return getBests(all.slice(0, index + 1), scales).flatMap((record) => {
+    const previous = before.find((b) => b.id === record.id);
+    return record.sessionId === session.id && previous ? [{ record, previous }] : [];
+  });
+}
@@ -0,0 +1,200 @@
+/**
+ * ProgressStats.ts
+ *
+ * Long-term series for the progress charts: level, fail rate and boulder
+ * volume of volume sessions, and the load of every training exercise.
+ * Every point is dated with the session's date in milliseconds.
+ */
+
+import type { VolumeSession, TrainingSession } from '../models/Session';
+import { getFailRate } from '../models/Session';
+import type { GradeScale } from '../models/GradeScale';
+import { LEVEL_SCALE, convertLevel } from '../models/GradeScale';
+
+/**
+ * A session's target level, in the scale the chart is drawn in.
+ */
+export interface LevelPoint {
+  date: number;
+
+  /** 1-indexed level within the chart's scale */
+  level: number;
+}
+
+/**
+ * A session's fail rate with the average of the sessions up to it.
+ */
+export interface FailRatePoint {
+  date: number;
+
+  /** Fail rate of the session (percent) */
+  failRate: number;
+
+  /** Average fail rate of this and the previous sessions in the average (percent) */
+  average: number;
+}
+
+/**
+ * Boulders climbed in one week.
+ */
+export interface WeekPoint {
+  /** Monday 00:00 of the week */
+  date: number;
+
+  boulders: number;
+}
+
+/**
+ * Load of one exercise over time.
+ */
+export interface ExerciseSeries {
+  /** Exercise ID */
+  id: string;
+
+  /** Exercise name (from the most recent session) */
+  name: string;
+
+  /** Load unit, e.g. "kg" */
+  unit: string;
+
+  /** Planned load per session, oldest first */
+  points: { date: number; load: number }[];
+}
+
+/**
+ * Sessions in the moving average of the fail rate chart.
+ */
+export const FAIL_RATE_AVERAGE_SESSIONS = 5;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Boulders a volume session counted (open-ended sessions: the ones logged).
+ */
+function getBoulderCount(session: VolumeSession): number {
+  return session.openEnded
+    ? session.attempts.filter((a) => a.result !== undefined).length
+    : session.attempts.length;
+}
+
+/**
+ * Whether a volume session has anything to chart (open-ended sessions
+ * ended before logging a boulder don't).
+ */
+function hasLoggedBoulders(session: VolumeSession): boolean {
+  return getBoulderCount(session) > 0;
+}
+
+/**
+ * Target level per session, converted to one scale.
+ * Sessions on scales that can't be converted to it are left out.
+ * @param sessions Volume sessions, oldest first
+ * @param scale Scale to draw the levels in
+ * @param scales Known grade scales (to convert from)
+ */
+export function getLevelHistory(
+  sessions: VolumeSession[],
+  scale: GradeScale,
+  scales: GradeScale[]
+): LevelPoint[] {
+  return sessions.filter(hasLoggedBoulders).flatMap((session) => {
+    const from = scales.find((s) => s.id === session.gradeScale) ?? LEVEL_SCALE;
+    const level = convertLevel(session.targetLevel, from, scale);
+    return level === null ? [] : [{ date: session.date.getTime(), level }];
+  });
+}
+
+/**
+ * Fail rate per session with a moving average over the last 5 sessions.
+ * @param sessions Volume sessions, oldest first
+ */
+export function getFailRateHistory(sessions: VolumeSession[]): FailRatePoint[] {
+  const rates = sessions.filter(hasLoggedBoulders).map((session) => ({
+    date: session.date.getTime(),
+    failRate: getFailRate(session),
+  }));
+
+  return rates.map((point, i) => {
+    const window = rates.slice(Math.max(0, i - FAIL_RATE_AVERAGE_SESSIONS + 1), i + 1);
+    return {
+      ...point,
+      average: window.reduce((sum, p) => sum + p.failRate, 0) / window.length,
+    };
+  });
+}
+
+/**
+ * Monday 00:00 of a date's week.
+ */
+export function startOfWeek(date: Date): Date {
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday);
+}
+
+/**
+ * Whole weeks from one date's week to another's (0 in the same week).
+ */
+export function weeksBetween(from: Date, to: Date): number {
+  // Rounded, so weeks with a DST change count as whole weeks
+  return Math.round((startOfWeek(to).getTime() - startOfWeek(from).getTime()) / (7 * DAY_MS));
+}
+
+/**
+ * Boulders per week, including the weeks without sessions in between.
+ * @param sessions Volume sessions, oldest first
+ */
+export function getBouldersPerWeek(sessions: VolumeSession[]): WeekPoint[] {
+  if (sessions.length === 0) {
+    return [];
+  }
+
+  const weeks: WeekPoint[] = [];
+  const last = startOfWeek(sessions[sessions.length - 1].date).getTime();
+  let week = startOfWeek(sessions[0].date);
+  while (week.getTime() <= last) {
+    weeks.push({ date: week.getTime(), boulders: 0 });
+    // Half a day past next Monday, so DST changes don't matter
+    week = startOfWeek(new Date(week.getTime() + 7.5 * DAY_MS));
+  }
+
+  for (const session of sessions) {
+    const date = startOfWeek(session.date).getTime();
+    const point = weeks.find((w) => w.date === date);
+    if (point) {
+      point.boulders += getBoulderCount(session);
+    }
+  }
+  return weeks;
+}
+
+/**
+ * Planned load per session for every exercise that was trained.
+ * Deload sessions are left out, so the series show the working loads.
+ * @param sessions Training sessions, oldest first
+ * @returns One series per exercise, in order of first appearance
+ */
+export function getExerciseProgress(sessions: TrainingSession[]): ExerciseSeries[] {
+  const series: ExerciseSeries[] = [];
+
+  for (const session of sessions) {
+    if (session.trainingData.deload) continue;
+
+    for (const block of session.trainingData.exercises) {
+      const point = { date: session.date.getTime(), load: block.load };
+      const existing = series.find((s) => s.id === block.exercise.id);
+      if (existing) {
+        existing.name = block.exercise.name;
+        existing.unit = block.exercise.unit;
+        existing.points.push(point);
+      } else {
+        series.push({
+          id: block.exercise.id,
+          name: block.exercise.name,
+          unit: block.exercise.unit,
+          points: [point],
+        });
+      }
+    }
+  }
+  return series;
+}
@@ -0,0 +1,155 @@
+/**
+ * SessionFactory.ts
+ *
+ * Builds new sessions with their placeholder attempts or sets.
+ * Used both for live sessions and for sessions logged after the fact.
+ */
+
+import type { VolumeSession, TrainingSession, LevelBlock } from '../models/Session';
+import type { BoulderAttempt } from '../models/BoulderAttempt';
+import type { TrainingSet } from '../models/SessionType';
+import type { Exercise } from '../models/Exercise';
+import type { TrainingProtocol } from '../models/TrainingProtocol';
+import { applyProtocol } from '../models/TrainingProtocol';
+
+/**
+ * An exercise planned for a new training session, with its load.
+ */
+export interface ExerciseLoad {
+  exercise: Exercise;
+
+  /** Load in the exercise's unit */
+  load: number;
+}
+
+function createSets(count: number, exercise: string): TrainingSet[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: crypto.randomUUID(),
+    order: i + 1,
+    exercise,
+    completed: false,
+  }));
+}
+
+/**
+ * Create an unfinished volume session with one unlogged attempt per boulder.
+ * @param gradeScale ID of the scale targetLevel refers to
+ * @param startTime When the session started (defaults to now)
+ */
+export function createVolumeSession(
+  targetLevel: number,
+  boulderCount: number,
+  gradeScale: string,
+  startTime: Date = new Date()
+): VolumeSession {
+  return createPyramidSession([{ level: targetLevel, boulderCount }], gradeScale, startTime);
+}
+
+/**
+ * Create an unfinished volume session made of level blocks, e.g. 8 boulders
+ * at level 4, 6 at level 5 and 3 at level 6.
+ * Attempts are numbered across blocks in the given order; with more than one
+ * block every attempt records its level and targetLevel is the top level.
+ * @param blocks Level blocks, usually easiest first
+ * @param gradeScale ID of the scale the levels refer to
+ * @param startTime When the session started (defaults to now)
+ */
+export function createPyramidSession(
+  blocks: LevelBlock[],
+  gradeScale: string,
+  startTime: Date = new Date()
+): VolumeSession {
+  const isPyramid = blocks.length > 1;
+  const levels = blocks.flatMap((block) =>
+    Array.from({ length: block.boulderCount }, () => block.level)
+  );
+
+  return {
+    id: crypto.randomUUID(),
+    sessionType: 'volume',
+    date: startTime,
+    startTime,
+    isFinished: false,
+    targetLevel: Math.max(...blocks.map((block) => block.level)),
+    gradeScale,
+    boulderCount: levels.length,
+    attempts: levels.map((level, i) => ({
+      id: crypto.randomUUID(),
+      order: i + 1,
+      ...(isPyramid && { level }),
+    })),
+  };
+}
+
+/**
+ * Create an unfinished open-ended volume session without placeholder attempts.
+ * Boulders are added one by one as they are climbed (see createAttempt).
+ * @param targetLevel Starting level, the default for the first boulder
+ * @param gradeScale ID of the scale the levels refer to
+ * @param startTime When the session started (defaults to now)
+ */
+export function createOpenSession(
+  targetLevel: number,
+  gradeScale: string,
+  startTime: Date = new Date()
+): VolumeSession {
+  return {
+    id: crypto.randomUUID(),
+    sessionType: 'volume',
+    date: startTime,
+    startTime,
+    isFinished: false,
+    targetLevel,
+    gradeScale,
+    boulderCount: 0,
+    openEnded: true,
+    attempts: [],
+  };
+}
+
+/**
+ * Create the next attempt for an open-ended session, numbered after the
+ * existing ones.
+ * @param level Level of the new boulder
+ */
+export function createAttempt(session: VolumeSession, level: number): BoulderAttempt {
+  return {
+    id: crypto.randomUUID(),
+    order: Math.max(0, ...session.attempts.map((a) => a.order)) + 1,
+    level,
+  };
+}
+
+/**
+ * Create an unfinished training session with each exercise's set count
+ * (or the template's, when one is given).
+ * @param exercises Exercises in session order, with their loads
+ * @param protocol Template for all exercises (each exercise's own protocol if omitted)
+ * @param startTime When the session started (defaults to now)
+ * @param deload Whether this is a deload session
+ */
+export function createTrainingSession(
+  exercises: ExerciseLoad[],
+  protocol?: TrainingProtocol,
+  startTime: Date = new Date(),
+  deload = false
+): TrainingSession {
+  return {
+    id: crypto.randomUUID(),
+    sessionType: 'training',
+    date: startTime,
+    startTime,
+    isFinished: false,
+    trainingData: {
+      exercises: exercises.map(({ exercise, load }, i) => ({
+        id: exercise.id,
+        order: i + 1,
+        exercise,
+        load,
+        sets: createSets(applyProtocol(exercise, protocol).sets, exercise.id),
+      })),
+      ...(protocol && { protocol }),
+      ...(deload && { deload }),
+    },
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * SessionMerger.ts
+ *
+ * Three-way merge for sessions edited in more than one tab.
+ * Boulder attempts and training sets are merged individually by ID, so logging
+ * different boulders in two tabs never loses either. When both tabs changed the
+ * same item, the most recently logged version wins and a conflict is reported.
+ */
+
+import type { Session } from '../models/Session';
+import type { ExerciseBlock } from '../models/SessionType';
+
+/**
+ * Result of merging two versions of a session.
+ */
+export interface MergeResult<T extends Session> {
+  /** The merged session */
+  session: T;
+
+  /** Human-readable descriptions of items both tabs changed */
+  conflicts: string[];
+}
+
+interface MergeableItem {
+  id: string;
+  order: number;
+  timestamp?: Date;
+}
+
+type Fields = Record<string, unknown>;
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isItemArray(value: unknown): value is MergeableItem[] {
+  return Array.isArray(value) && value.every((item) => typeof item?.id === 'string');
+}
+
+/**
+ * Merge two lists of attempts or sets by ID against their common base.
+ * Keeps remote order and appends items that only exist locally.
+ */
+function mergeItems<T extends MergeableItem>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  label: string,
+  conflicts: string[]
+): T[] {
+  const baseById = new Map(base.map((item) => [item.id, item]));
+  const localById = new Map(local.map((item) => [item.id, item]));
+  const remoteById = new Map(remote.map((item) => [item.id, item]));
+  const ids = [
+    ...remote.map((item) => item.id),
+    ...local.filter((item) => !remoteById.has(item.id)).map((item) => item.id),
+  ];
+
+  return ids.flatMap((id) => {
+    const b = baseById.get(id);
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+
+    // Removed on one side: honour it unless the other side changed the item
+    if (!l) return r && (!b || !same(b, r)) ? [r] : [];
+    if (!r) return !b || !same(b, l) ? [l] : [];
+
+    if (same(l, r) || (b && same(b, l))) return [r];
+    if (b && same(b, r)) return [l];
+
+    // Both sides changed the same item: newest log wins
+    const keepLocal = (l.timestamp?.getTime() ?? 0) > (r.timestamp?.getTime() ?? 0);
+    conflicts.push(
+      `${label} #${l.order} was changed in another tab - kept ${keepLocal ? 'this tab' : 'the other tab'}'s version`
+    );
+    return [keepLocal ? l : r];
+  });
+}
+
+/**
+ * Merge plain fields and item lists of one object level.
+ * Scalar fields take the local value only if it differs from base.
+ */
+function mergeFields(
+  base: Fields,
+  local: Fields,
+  remote: Fields,
+  labels: Record<string, string>,
+  conflicts: string[]
+): Fields {
+  const merged: Fields = { ...remote };
+
+  for (const key of new Set([...Object.keys(local), ...Object.keys(remote)])) {
+    const [b, l, r] = [base[key], local[key], remote[key]];
+
+    if (isItemArray(l) && isItemArray(r)) {
+      const baseItems = isItemArray(b) ? b : [];
+      merged[key] = mergeItems(baseItems, l, r, labels[key] ?? 'Item', conflicts);
+    } else if (!same(l, b)) {
+      merged[key] = l;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merge the exercise blocks of a training session.
+ * Blocks are fixed when the session is created, so each block's fields and
+ * sets are merged in place rather than as whole items.
+ */
+function mergeExerciseBlocks(
+  base: ExerciseBlock[],
+  local: ExerciseBlock[],
+  remote: ExerciseBlock[],
+  conflicts: string[]
+): ExerciseBlock[] {
+  const baseById = new Map(base.map((block) => [block.id, block]));
+  const localById = new Map(local.map((block) => [block.id, block]));
+  const remoteIds = new Set(remote.map((block) => block.id));
+
+  return [...remote, ...local.filter((block) => !remoteIds.has(block.id))].map((block) => {
+    const l = localById.get(block.id);
+    if (!l || !remoteIds.has(block.id)) return block;
+
+    return mergeFields(
+      (baseById.get(block.id) ?? {}) as unknown as Fields,
+      l as unknown as Fields,
+      block as unknown as Fields,
+      { sets: `${block.exercise.name} set` },
+      conflicts
+    ) as unknown as ExerciseBlock;
+  });
+}
+
+/**
+ * Merge a local and a remote version of the same session.
+ * @param base The version both sides started from (last synced state)
+ * @param local This tab's current version
+ * @param remote The version written by another tab
+ */
+export function mergeSessions<T extends Session>(
+  base: T,
+  local: T,
+  remote: T
+): MergeResult<T> {
+  const conflicts: string[] = [];
+
+  if (local.sessionType !== remote.sessionType) {
+    return { session: remote, conflicts };
+  }
+
+  const merged = mergeFields(
+    base as unknown as Fields,
+    local as unknown as Fields,
+    remote as unknown as Fields,
+    { attempts: 'Boulder' },
+    conflicts
+  );
+
+  if (local.sessionType === 'training' && remote.sessionType === 'training') {
+    const baseBlocks = base.sessionType === 'training' ? base.trainingData.exercises : [];
+    merged.trainingData = {
+      ...remote.trainingData,
+      exercises: mergeExerciseBlocks(
+        baseBlocks,
+        local.trainingData.exercises,
+        remote.trainingData.exercises,
+        conflicts
+      ),
+    };
+  }
+
+  // A session finished in either tab stays finished
+  if (local.isFinished || remote.isFinished) {
+    merged.isFinished = true;
+    merged.endTime = remote.isFinished ? remote.endTime : local.endTime;
+  }
+
+  return { session: merged as unknown as T, conflicts };
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import type { VolumeSession } from '../models/Session';
+import { V_SCALE } from '../models/GradeScale';
+import { createPyramidSession } from './SessionFactory';
+import { getRecommendation, getWeightedAverage } from './SessionRecommender';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const NOW = new Date(2026, 5, 30, 20);
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY_MS);
+
+/**
+ * A finished session of 10 V4 boulders with the first `fails` failed and the
+ * rest sent in `tries` tries.
+ */
+function volumeSession(date: Date, fails: number, tries = 2): VolumeSession {
+  const session = createPyramidSession([{ level: 6, boulderCount: 10 }], V_SCALE.id, date);
+  return {
+    ...session,
+    isFinished: true,
+    attempts: session.attempts.map((a, i) =>
+      i < fails ? { ...a, result: 'fail' } : { ...a, result: 'done', tries }
+    ),
+  };
+}
+
+describe('getWeightedAverage', () => {
+  it('counts each value half as much as the one before', () => {
+    expect(getWeightedAverage([0, 100])).toBeCloseTo(100 / 3);
+    expect(getWeightedAverage([60, 60, 60])).toBeCloseTo(60);
+    expect(getWeightedAverage([])).toBe(0);
+  });
+});
+
+describe('getRecommendation', () => {
+  it('starts at the default level without history', () => {
+    const rec = getRecommendation([], V_SCALE, 5, undefined, NOW);
+    expect(rec.level).toBe(5);
+    expect(rec.boulderCount).toBe(20);
+    expect(rec.daysSinceLastSession).toBeNull();
+  });
+
+  it('goes up a level after an easy session', () => {
+    const rec = getRecommendation([volumeSession(daysAgo(2), 1)], V_SCALE, 5, undefined, NOW);
+    expect(rec.level).toBe(7);
+    expect(rec.boulderCount).toBe(10);
+  });
+
+  it('keeps the level when easy sends took many tries', () => {
+    const rec = getRecommendation([volumeSession(daysAgo(2), 1, 6)], V_SCALE, 5, undefined, NOW);
+    expect(rec.level).toBe(6);
+  });
+
+  it('does not drop the level for one bad session in a good window', () => {
+    const history = [
+      volumeSession(daysAgo(2), 8),
+      ...[4, 6, 8, 10].map((d) => volumeSession(daysAgo(d), 0)),
+    ];
+
+    const windowed = getRecommendation(history, V_SCALE, 5, undefined, NOW);
+    expect(windowed.level).toBe(6);
+    expect(windowed.metrics[0].sessions).toBe(5);
+    expect(windowed.metrics[0].failRates).toEqual([80, 0, 0, 0, 0]);
+
+    const lastOnly = getRecommendation(history, V_SCALE, 1, undefined, NOW);
+    expect(lastOnly.level).toBe(5);
+  });
+
+  it('drops the level when the fail rate rises session after session', () => {
+    const history = [7, 5, 3].map((fails, i) => volumeSession(daysAgo(2 + i * 2), fails));
+    const rec = getRecommendation(history, V_SCALE, 5, undefined, NOW);
+    expect(rec.metrics[0].trend).toBeCloseTo(20);
+    expect(rec.level).toBe(5);
+  });
+
+  it('lowers the level after time off', () => {
+    const history = [volumeSession(daysAgo(10), 4)];
+    expect(getRecommendation(history, V_SCALE, 5, undefined, NOW).level).toBe(5);
+    expect(getRecommendation(history, V_SCALE, 5, undefined, daysAgo(-10)).level).toBe(4);
+  });
+});
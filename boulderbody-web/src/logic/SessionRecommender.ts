@@ -1,90 +1,404 @@
-import type { VolumeSession } from '../models/Session';
-import { getFailRate } from '../models/Session';
+import type { VolumeSession, LevelBlock } from '../models/Session';
+import { getFailRate, getAverageTries, splitByLevel } from '../models/Session';
+import type { GradeScale } from '../models/GradeScale';
+import {
+  LEVEL_SCALE,
+  isNumericScale,
+  getMaxLevel,
+  getGradeLabel,
+} from '../models/GradeScale';
+import type { WorkloadStatus } from './TrainingLoad';
 
 /**
  * Recommendation for the next volume bouldering session.
  */
 export interface SessionRecommendation {
-  /** Recommended difficulty level */
+  /** Recommended difficulty level (1-indexed grade within gradeScale) */
   level: number;
 
+  /** ID of the grade scale the level refers to */
+  gradeScale: string;
+
   /** Recommended number of boulders */
   boulderCount: number;
 
+  /** Recommended level blocks (a single block unless the last session was a pyramid) */
+  blocks: LevelBlock[];
+
+  /** Numbers behind each block's level change (one per block of the last session) */
+  metrics: LevelMetrics[];
+
+  /** Days since the last session (null without history) */
+  daysSinceLastSession: number | null;
+
   /** Explanation of how this was calculated */
   reason: string;
 }
 
+/**
+ * Performance at one level across the recent sessions that included it.
+ */
+export interface LevelMetrics {
+  /** Level (1-indexed grade within the scale) */
+  level: number;
+
+  /** Recent sessions with logged boulders at this level */
+  sessions: number;
+
+  /** Fail rate at this level in each of those sessions, most recent first (percent) */
+  failRates: number[];
+
+  /** Exponentially weighted fail rate, the most recent session counting most (percent) */
+  weightedFailRate: number;
+
+  /**
+   * Change in fail rate per session (percentage points, positive = more fails),
+   * or null with fewer than 3 sessions
+   */
+  trend: number | null;
+
+  /** Average tries per send in the most recent session (null without sends) */
+  averageTries: number | null;
+}
+
+/**
+ * Number of recent sessions the recommenders look at, unless configured.
+ */
+export const DEFAULT_RECOMMENDATION_WINDOW = 5;
+
+/**
+ * Weight of each session relative to the next more recent one.
+ */
+const SESSION_WEIGHT_DECAY = 0.5;
+
+/**
+ * Minimum sessions at a level before a trend is considered.
+ */
+const MIN_TREND_SESSIONS = 3;
+
+/**
+ * Change in fail rate per session (percentage points) that counts as a trend.
+ */
+const TREND_THRESHOLD = 15;
+
+/**
+ * Exponentially weighted average of values, most recent first.
+ */
+export function getWeightedAverage(values: number[]): number {
+  let total = 0;
+  let weights = 0;
+  values.forEach((value, i) => {
+    const weight = SESSION_WEIGHT_DECAY ** i;
+    total += value * weight;
+    weights += weight;
+  });
+  return weights > 0 ? total / weights : 0;
+}
+
+/**
+ * Least-squares slope of values per step, most recent first
+ * (positive when values grew over time).
+ */
+function getTrend(values: number[]): number {
+  const chronological = [...values].reverse();
+  const n = chronological.length;
+  const meanX = (n - 1) / 2;
+  const meanY = chronological.reduce((sum, v) => sum + v, 0) / n;
+
+  let numerator = 0;
+  let denominator = 0;
+  chronological.forEach((value, x) => {
+    numerator += (x - meanX) * (value - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
 /**
  * Default recommendation for new users with no session history.
  */
-const DEFAULT_RECOMMENDATION: SessionRecommendation = {
+const DEFAULT_RECOMMENDATION = {
   level: 5,
   boulderCount: 20,
   reason: 'Starting with default recommendation',
 };
 
+/**
+ * Share of boulders dropped on a load spike (percent).
+ */
+const LOAD_SPIKE_BOULDER_CUT = 25;
+
+/**
+ * Average tries per send at which a low fail rate no longer counts as easy.
+ */
+const HARD_SEND_TRIES = 5;
+
+/**
+ * Whether a level block has any logged boulders.
+ * An open-ended session that ended before any boulder was logged says nothing.
+ */
+function hasLoggedBoulders(block: VolumeSession): boolean {
+  return !block.openEnded || block.attempts.some((a) => a.result !== undefined);
+}
+
+/**
+ * Performance at a level across recent sessions.
+ * @param level The level to look at
+ * @param scaleId The scale the level refers to (sessions on other scales don't count)
+ * @param recent Recent volume sessions, newest first
+ * @returns Metrics, or null if none of the sessions logged boulders at the level
+ */
+function getLevelMetrics(
+  level: number,
+  scaleId: string,
+  recent: VolumeSession[]
+): LevelMetrics | null {
+  const blocks = recent.flatMap((session) =>
+    (session.gradeScale ?? LEVEL_SCALE.id) === scaleId
+      ? splitByLevel(session).filter((b) => b.targetLevel === level && hasLoggedBoulders(b))
+      : []
+  );
+  if (blocks.length === 0) {
+    return null;
+  }
+
+  const failRates = blocks.map(getFailRate);
+  return {
+    level,
+    sessions: blocks.length,
+    failRates,
+    weightedFailRate: getWeightedAverage(failRates),
+    trend: blocks.length >= MIN_TREND_SESSIONS ? getTrend(failRates) : null,
+    averageTries: getAverageTries(blocks[0]),
+  };
+}
+
+/**
+ * Whether the most recent fail rates all moved the same way, session after
+ * session (a single unusual session isn't a trend).
+ * @param direction 1 for rising, -1 for falling
+ */
+function isSteadyTrend(failRates: number[], direction: 1 | -1): boolean {
+  const latest = failRates.slice(0, MIN_TREND_SESSIONS);
+  return latest.every((rate, i) => i === 0 || (latest[i - 1] - rate) * direction > 0);
+}
+
+/**
+ * Level change for one level block based on how it went in recent sessions.
+ */
+function getPerformanceAdjustment(metrics: LevelMetrics | null): {
+  change: number;
+  reason: string;
+} {
+  if (!metrics) {
+    return { change: 0, reason: 'No boulders logged (same level)' };
+  }
+
+  const { failRates, weightedFailRate, trend, averageTries } = metrics;
+
+  if (weightedFailRate < 25 && averageTries !== null && averageTries >= HARD_SEND_TRIES) {
+    return {
+      change: 0,
+      reason: `Low fail rate, but sends took ${averageTries.toFixed(1)} tries on average (same level)`,
+    };
+  }
+  if (weightedFailRate < 25) {
+    return { change: 1, reason: 'Strong performance (+1 level)' };
+  }
+  if (weightedFailRate > 75) {
+    return { change: -1, reason: 'High fail rate (-1 level)' };
+  }
+  if (
+    trend !== null &&
+    trend >= TREND_THRESHOLD &&
+    weightedFailRate > 50 &&
+    isSteadyTrend(failRates, 1)
+  ) {
+    return { change: -1, reason: 'Fail rate rising over recent sessions (-1 level)' };
+  }
+  if (
+    trend !== null &&
+    trend <= -TREND_THRESHOLD &&
+    weightedFailRate < 50 &&
+    isSteadyTrend(failRates, -1)
+  ) {
+    return { change: 1, reason: 'Fail rate falling over recent sessions (+1 level)' };
+  }
+  return { change: 0, reason: 'Consistent performance (same level)' };
+}
+
+/**
+ * Describe level blocks, e.g. "8×6A, 6×6A+, 3×6B".
+ */
+function describeBlocks(blocks: LevelBlock[], scale: GradeScale): string {
+  return blocks
+    .map((block) => `${block.boulderCount}×${getGradeLabel(scale, block.level)}`)
+    .join(', ');
+}
+
 /**
  * Calculate recommended level and boulder count for next volume session.
  *
  * Algorithm:
- * 1. Start with the target level from last session
- * 2. Apply performance adjustment:
- *    - Fail rate < 25% → increase level by 1
- *    - Fail rate > 75% → decrease level by 1
- * 3. Apply time decay adjustment:
+ * 1. Start with the level blocks from last session (one block unless it
+ *    was a pyramid)
+ * 2. Apply performance adjustment to each block using the attempts at its
+ *    level in the recent sessions (the window), so one bad day doesn't
+ *    decide on its own. Fail rates are weighted exponentially, each session
+ *    counting half as much as the next more recent one:
+ *    - Weighted fail rate < 25% → increase level by 1, unless the last
+ *      session's sends took 5+ tries on average (hard-won sends → keep level)
+ *    - Weighted fail rate > 75% → decrease level by 1
+ *    - Otherwise, a fail rate that rose or fell in each of the last 3
+ *      sessions at the level, by 15+ points per session on average, moves
+ *      the level: rising (weighted > 50%) → -1, falling (weighted < 50%) → +1
+ *    Open-ended sessions count only the boulders that were logged.
+ * 3. Apply time decay adjustment to every block:
  *    - 8-14 days since last session → decrease level by 1
  *    - >14 days since last session → decrease level by 2
- * 4. Clamp level to minimum of 1
+ * 4. Temper by recent training load (volume and training sessions alike):
+ *    - Rising load (high workload ratio) → no level increases
+ *    - Load spike → decrease level by 1 and 25% fewer boulders
+ * 5. Clamp levels to the scale (minimum 1, maximum the hardest grade)
+ * 6. Merge blocks that ended up at the same level, so every block keeps
+ *    the shift its own attempts earned
+ *
+ * Levels step one grade at a time within the scale (e.g. 6A → 6A+).
  *
- * @param lastSession The most recent finished volume session (or null if none)
+ * @param history Finished volume sessions, newest first (empty if none)
+ * @param scale The last session's grade scale (or the preferred scale if none)
+ * @param window Number of recent sessions to look at
+ * @param workload Recent training load across both session types (not tempered if absent)
+ * @param now Current time (for time decay)
  * @returns Recommendation for next volume session
  */
 export function getRecommendation(
-  lastSession: VolumeSession | null
+  history: VolumeSession[],
+  scale: GradeScale = LEVEL_SCALE,
+  window: number = DEFAULT_RECOMMENDATION_WINDOW,
+  workload?: WorkloadStatus,
+  now: Date = new Date()
 ): SessionRecommendation {
+  const lastSession = history[0];
+
   // If no previous session, return default
   if (!lastSession) {
-    return DEFAULT_RECOMMENDATION;
+    const level = Math.min(DEFAULT_RECOMMENDATION.level, getMaxLevel(scale));
+    return {
+      ...DEFAULT_RECOMMENDATION,
+      level,
+      gradeScale: scale.id,
+      blocks: [{ level, boulderCount: DEFAULT_RECOMMENDATION.boulderCount }],
+      metrics: [],
+      daysSinceLastSession: null,
+    };
   }
 
-  let level = lastSession.targetLevel;
+  const lastBlocks = splitByLevel(lastSession);
+  const isPyramid = lastBlocks.length > 1;
+  const recent = history.slice(0, Math.max(1, window));
   const reasons: string[] = [];
 
-  // Step 1: Performance adjustment
-  const failRate = getFailRate(lastSession);
-  if (failRate < 25) {
-    level += 1;
-    reasons.push('Strong performance (+1 level)');
-  } else if (failRate > 75) {
-    level -= 1;
-    reasons.push('High fail rate (-1 level)');
-  } else {
-    reasons.push('Consistent performance (same level)');
-  }
+  // Step 1: Performance adjustment per block (tries per send as a difficulty signal)
+  const blockMetrics = lastBlocks.map((block) =>
+    getLevelMetrics(block.targetLevel, scale.id, recent)
+  );
+  const adjustments = blockMetrics.map(getPerformanceAdjustment);
+  adjustments.forEach((adjustment, i) => {
+    reasons.push(
+      isPyramid
+        ? `${getGradeLabel(scale, lastBlocks[i].targetLevel)}: ${adjustment.reason}`
+        : adjustment.reason
+    );
+  });
 
   // Step 2: Time decay adjustment
   const daysSinceLastSession = Math.floor(
-    (Date.now() - lastSession.date.getTime()) / (1000 * 60 * 60 * 24)
+    (now.getTime() - lastSession.date.getTime()) / (1000 * 60 * 60 * 24)
   );
 
+  let decay = 0;
   if (daysSinceLastSession > 14) {
-    level -= 2;
+    decay = -2;
     reasons.push(`${daysSinceLastSession} days since last session (-2 levels)`);
   } else if (daysSinceLastSession >= 8) {
-    level -= 1;
+    decay = -1;
     reasons.push(`${daysSinceLastSession} days since last session (-1 level)`);
   }
 
-  // Step 3: Clamp to minimum level 1
-  if (level < 1) {
-    level = 1;
-    reasons.push('(clamped to minimum level 1)');
+  // Step 3: Training load across both session types
+  const ratio = (workload?.ratio ?? 0).toFixed(2);
+  const holdLevel = workload?.zone === 'high';
+  const spike = workload?.zone === 'spike';
+  if (spike) {
+    reasons.push(`Load spike (${ratio}×): -1 level, ${LOAD_SPIKE_BOULDER_CUT}% fewer boulders`);
+  } else if (holdLevel && adjustments.some((a) => a.change > 0)) {
+    reasons.push(`Load rising (${ratio}×): no level increase`);
+  }
+  const withLoad = (boulderCount: number) =>
+    spike
+      ? Math.max(1, Math.round(boulderCount * (1 - LOAD_SPIKE_BOULDER_CUT / 100)))
+      : boulderCount;
+
+  // Step 4: Clamp to the grades of the scale
+  let clampedLow = false;
+  let clampedHigh = false;
+  const adjusted = lastBlocks.map((block, i) => {
+    const change = holdLevel ? Math.min(0, adjustments[i].change) : adjustments[i].change;
+    let level = block.targetLevel + change + decay + (spike ? -1 : 0);
+    if (level < 1) {
+      level = 1;
+      clampedLow = true;
+    } else if (level > getMaxLevel(scale)) {
+      level = getMaxLevel(scale);
+      clampedHigh = true;
+    }
+    return {
+      level,
+      boulderCount: withLoad(block.boulderCount || DEFAULT_RECOMMENDATION.boulderCount),
+    };
+  });
+
+  if (clampedLow) {
+    reasons.push(`(clamped to easiest grade ${getGradeLabel(scale, 1)})`);
+  }
+  if (clampedHigh) {
+    reasons.push(`(clamped to hardest grade ${getGradeLabel(scale, getMaxLevel(scale))})`);
+  }
+
+  // Step 5: Blocks shifted onto the same level become one block
+  const blocks: LevelBlock[] = [];
+  for (const block of adjusted) {
+    const existing = blocks.find((b) => b.level === block.level);
+    if (existing) {
+      existing.boulderCount += block.boulderCount;
+    } else {
+      blocks.push(block);
+    }
+  }
+  blocks.sort((a, b) => a.level - b.level);
+  const level = Math.max(...blocks.map((b) => b.level));
+
+  // Name the grades when they changed (e.g. "6A → 6A+")
+  if (isPyramid) {
+    const before = lastBlocks.map((b) => ({ level: b.targetLevel, boulderCount: b.boulderCount }));
+    if (describeBlocks(before, scale) !== describeBlocks(blocks, scale)) {
+      reasons.push(`${describeBlocks(before, scale)} → ${describeBlocks(blocks, scale)}`);
+    }
+  } else if (!isNumericScale(scale) && level !== lastSession.targetLevel) {
+    reasons.push(
+      `${getGradeLabel(scale, lastSession.targetLevel)} → ${getGradeLabel(scale, level)}`
+    );
   }
 
   return {
     level,
-    boulderCount: lastSession.boulderCount, // Keep same boulder count
+    gradeScale: scale.id,
+    // Keep same boulder count (open-ended sessions count the boulders they logged)
+    boulderCount: withLoad(lastSession.boulderCount || DEFAULT_RECOMMENDATION.boulderCount),
+    blocks,
+    metrics: blockMetrics.filter((m): m is LevelMetrics => m !== null),
+    daysSinceLastSession,
     reason: reasons.join(', '),
   };
 }
@@ -0,0 +1,23 @@
+/**
+ * SessionRepository.ts
+ *
+ * Storage backend abstraction for sessions.
+ * StorageManager talks only to this interface, so backends can be swapped
+ * (IndexedDB by default, localStorage as a fallback).
+ */
+
+import type { Session } from '../models/Session';
+
+export interface SessionRepository {
+  /** Load every stored session, migrated to the current schema */
+  loadAll(): Promise<Session[]>;
+
+  /** Insert or replace a single session */
+  put(session: Session): Promise<void>;
+
+  /** Insert or replace several sessions in one write */
+  putMany(sessions: Session[]): Promise<void>;
+
+  /** Remove a session by ID (no-op if it does not exist) */
+  delete(id: string): Promise<void>;
+}
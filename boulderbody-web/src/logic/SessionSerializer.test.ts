@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { StorageSchema } from './SessionSerializer';
+import { loadSessions } from './SessionSerializer';
+
+/**
+ * A stored v3 training session with hang and pull-up sets.
+ */
+function trainingSessionV3(id: string, trainingData: Record<string, unknown>) {
+  return {
+    id,
+    sessionType: 'training',
+    date: '2026-03-02T18:00:00.000Z',
+    startTime: '2026-03-02T18:00:00.000Z',
+    endTime: '2026-03-02T19:00:00.000Z',
+    isFinished: true,
+    trainingData: {
+      hangWeight: 4,
+      pullupWeight: 10,
+      hangSets: [{ id: `${id}-h1`, order: 1, exercise: 'hang', completed: true }],
+      pullupSets: [{ id: `${id}-p1`, order: 1, exercise: 'pullup', completed: true }],
+      ...trainingData,
+    },
+  };
+}
+
+/**
+ * Load a v3 payload the way storage backends and backup imports do.
+ */
+function loadV3(sessions: unknown[]) {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  const result = loadSessions({ version: 3, sessions } as unknown as StorageSchema);
+  vi.restoreAllMocks();
+  return result;
+}
+
+describe('loading v3 training sessions', () => {
+  it('converts each exercise with sets into a block with its weight', () => {
+    const { sessions, issues } = loadV3([trainingSessionV3('a', { benchSets: [] })]);
+
+    expect(issues).toEqual([]);
+    const [session] = sessions;
+    expect(session.sessionType === 'training' && session.trainingData.exercises).toMatchObject([
+      { id: 'hang', order: 1, load: 4, sets: [{ id: 'a-h1' }] },
+      { id: 'pullup', order: 2, load: 10, sets: [{ id: 'a-p1' }] },
+    ]);
+  });
+
+  it('reports a missing set list by path instead of dropping the exercise', () => {
+    const broken = trainingSessionV3('b', { hangSets: undefined });
+    const { sessions, failedIndexes, issues } = loadV3([trainingSessionV3('a', {}), broken]);
+
+    expect(sessions.map((s) => s.id)).toEqual(['a']);
+    expect(failedIndexes).toEqual([1]);
+    expect(issues).toEqual([
+      { path: 'sessions[1].trainingData.hangSets', message: 'expected an array, got missing' },
+    ]);
+  });
+
+  it('reports set lists that are not arrays', () => {
+    const { failedIndexes, issues } = loadV3([trainingSessionV3('c', { pullupSets: {} })]);
+
+    expect(failedIndexes).toEqual([0]);
+    expect(issues.map((i) => i.path)).toEqual(['sessions[0].trainingData.pullupSets']);
+  });
+});
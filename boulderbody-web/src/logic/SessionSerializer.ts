@@ -0,0 +1,282 @@
+/**
+ * SessionSerializer.ts
+ *
+ * Converts sessions to and from their stored JSON form.
+ * Owns the schema version and the migration chain shared by every storage backend and backup import.
+ */
+
+import type { Session } from '../models/Session';
+import type { ExerciseBlock, TrainingSet } from '../models/SessionType';
+import { BUILT_IN_EXERCISES } from '../models/Exercise';
+import type { ValidationIssue } from './SessionValidator';
+import { formatIssues, validateSession, validateTrainingDataV3 } from './SessionValidator';
+
+/**
+ * Storage schema for sessions data.
+ * Includes version for future migrations.
+ */
+export interface StorageSchema {
+  version: number;
+  sessions: Session[];
+}
+
+export const CURRENT_VERSION = 4; // Incremented for exercise blocks
+
+/**
+ * Migrate v1 schema (pre-sessionType) to v2.
+ * All existing sessions are assumed to be volume sessions.
+ */
+function migrateV1toV2(data: any): StorageSchema {
+  console.log('Migrating storage from v1 to v2...');
+  return {
+    version: 2,
+    sessions: data.sessions.map((s: any) => ({
+      ...s,
+      sessionType: s.sessionType || 'volume',
+    })),
+  };
+}
+
+/**
+ * Migrate v2 schema to v3.
+ * Adds bench and trapbar fields to training sessions.
+ */
+function migrateV2toV3(data: any): StorageSchema {
+  console.log('Migrating storage from v2 to v3...');
+  return {
+    version: 3,
+    sessions: data.sessions.map((s: any) => {
+      if (s.sessionType !== 'training') return s;
+      return {
+        ...s,
+        trainingData: {
+          ...s.trainingData,
+          benchWeight: s.trainingData.benchWeight ?? 10,
+          trapBarWeight: s.trainingData.trapBarWeight ?? 20,
+          benchSets: s.trainingData.benchSets ?? [],
+          trapBarSets: s.trainingData.trapBarSets ?? [],
+        },
+      };
+    }),
+  };
+}
+
+/**
+ * A training set in its stored (JSON) form.
+ */
+type StoredTrainingSet = Omit<TrainingSet, 'timestamp'> & { timestamp?: string };
+
+/**
+ * An exercise block in its stored (JSON) form.
+ */
+type StoredExerciseBlock = Omit<ExerciseBlock, 'sets'> & { sets: StoredTrainingSet[] };
+
+/**
+ * Training data of a stored v3 session: a weight and a set list per fixed exercise.
+ */
+interface StoredTrainingDataV3 {
+  hangWeight: number;
+  pullupWeight: number;
+  benchWeight?: number;
+  trapBarWeight?: number;
+  hangSets: StoredTrainingSet[];
+  pullupSets: StoredTrainingSet[];
+  benchSets?: StoredTrainingSet[];
+  trapBarSets?: StoredTrainingSet[];
+}
+
+/**
+ * The fields of a stored v3 session that the v3 to v4 migration reads.
+ */
+interface StoredSessionV3 {
+  sessionType?: string;
+  trainingData?: unknown;
+}
+
+/**
+ * Per-exercise fields of the v3 training data shape.
+ */
+const V3_EXERCISE_FIELDS: {
+  id: string;
+  weightKey: 'hangWeight' | 'pullupWeight' | 'benchWeight' | 'trapBarWeight';
+  setsKey: 'hangSets' | 'pullupSets' | 'benchSets' | 'trapBarSets';
+}[] = [
+  { id: 'hang', weightKey: 'hangWeight', setsKey: 'hangSets' },
+  { id: 'pullup', weightKey: 'pullupWeight', setsKey: 'pullupSets' },
+  { id: 'bench', weightKey: 'benchWeight', setsKey: 'benchSets' },
+  { id: 'trapbar', weightKey: 'trapBarWeight', setsKey: 'trapBarSets' },
+];
+
+/**
+ * Thrown by a migration when a session doesn't have the shape it converts
+ * from. Issue paths are relative to the session, e.g. "trainingData.hangSets".
+ */
+class SessionShapeError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(formatIssues(issues).join('; '));
+    this.issues = issues;
+  }
+}
+
+/**
+ * Migrate v3 schema to v4.
+ * Replaces the fixed weight and set fields of training sessions with a list
+ * of exercise blocks. Exercises without sets are dropped.
+ * @throws SessionShapeError if a training session is missing a weight or set list
+ */
+function migrateV3toV4(data: { sessions: StoredSessionV3[] }): StorageSchema {
+  console.log('Migrating storage from v3 to v4...');
+  return {
+    version: 4,
+    sessions: data.sessions.map((s) => {
+      if (s.sessionType !== 'training') return s;
+
+      const issues = validateTrainingDataV3(s.trainingData, 'trainingData');
+      if (issues.length > 0) {
+        throw new SessionShapeError(issues);
+      }
+
+      const trainingData = s.trainingData as StoredTrainingDataV3;
+      const exercises: StoredExerciseBlock[] = V3_EXERCISE_FIELDS.filter(
+        ({ setsKey }) => (trainingData[setsKey] ?? []).length > 0
+      ).map(({ id, weightKey, setsKey }, i) => {
+        const exercise = BUILT_IN_EXERCISES.find((e) => e.id === id)!;
+        return {
+          id,
+          order: i + 1,
+          exercise,
+          load: trainingData[weightKey] ?? exercise.defaultLoad,
+          sets: trainingData[setsKey] ?? [],
+        };
+      });
+      return { ...s, trainingData: { exercises } };
+    }) as Session[],
+  };
+}
+
+/**
+ * Deserialize a stored session record.
+ * Converts ISO date strings back to Date objects.
+ * Handles both volume and training sessions.
+ */
+export function deserializeSession(data: any): Session {
+  // Handle training sessions with special deserialization for sets
+  if (data.sessionType === 'training') {
+    return {
+      ...data,
+      date: new Date(data.date),
+      startTime: new Date(data.startTime),
+      endTime: data.endTime ? new Date(data.endTime) : undefined,
+      deletedAt: data.deletedAt ? new Date(data.deletedAt) : undefined,
+      trainingData: {
+        ...data.trainingData,
+        exercises: data.trainingData.exercises.map((block: StoredExerciseBlock) => ({
+          ...block,
+          sets: block.sets.map((s) => ({
+            ...s,
+            timestamp: s.timestamp ? new Date(s.timestamp) : undefined,
+          })),
+        })),
+      },
+    };
+  }
+
+  // Handle volume sessions (existing behavior)
+  return {
+    ...data,
+    date: new Date(data.date),
+    startTime: new Date(data.startTime),
+    endTime: data.endTime ? new Date(data.endTime) : undefined,
+    deletedAt: data.deletedAt ? new Date(data.deletedAt) : undefined,
+    attempts: data.attempts.map((a: any) => ({
+      ...a,
+      timestamp: a.timestamp ? new Date(a.timestamp) : undefined,
+    })),
+  };
+}
+
+/**
+ * Bring parsed storage data up to the current schema version.
+ * Applies migrations sequentially and returns the input unchanged if current.
+ */
+export function migrateSchema(data: StorageSchema): StorageSchema {
+  if (!data.version || data.version < 2) {
+    data = migrateV1toV2(data);
+  }
+  if (data.version < 3) {
+    data = migrateV2toV3(data);
+  }
+  if (data.version < 4) {
+    data = migrateV3toV4(data);
+  }
+  return data;
+}
+
+/**
+ * Result of loading a batch of stored sessions.
+ */
+export interface LoadResult {
+  /** Sessions that passed migration and validation */
+  sessions: Session[];
+
+  /** Indexes (into the input array) of sessions that were skipped */
+  failedIndexes: number[];
+
+  /** Every problem found in the skipped sessions */
+  issues: ValidationIssue[];
+}
+
+const MIGRATION_FAILED = Symbol('migration failed');
+
+/**
+ * Migrate, validate and deserialize sessions, skipping any that fail.
+ * Migrates the whole payload at once and only falls back to per-session
+ * migration if that throws. Issue paths are relative to `sessions[i]`.
+ */
+export function loadSessions(data: StorageSchema): LoadResult {
+  let migrated: unknown[];
+  try {
+    migrated = migrateSchema(data).sessions;
+  } catch (error) {
+    console.error('Some sessions could not be migrated, salvaging the rest:', error);
+    migrated = data.sessions.map((raw) => {
+      try {
+        return migrateSchema({ version: data.version, sessions: [raw] }).sessions[0];
+      } catch (sessionError) {
+        return sessionError instanceof SessionShapeError ? sessionError : MIGRATION_FAILED;
+      }
+    });
+  }
+
+  const result: LoadResult = { sessions: [], failedIndexes: [], issues: [] };
+
+  migrated.forEach((raw, i) => {
+    const path = `sessions[${i}]`;
+    let issues: ValidationIssue[];
+    if (raw === MIGRATION_FAILED) {
+      issues = [{ path, message: `could not be migrated from v${data.version ?? 1}` }];
+    } else if (raw instanceof SessionShapeError) {
+      issues = raw.issues.map((issue) => ({ ...issue, path: `${path}.${issue.path}` }));
+    } else {
+      issues = validateSession(raw, path);
+    }
+
+    if (issues.length > 0) {
+      result.failedIndexes.push(i);
+      result.issues.push(...issues);
+    } else {
+      result.sessions.push(deserializeSession(raw));
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Convert a session into its JSON-safe stored form (dates become ISO strings).
+ */
+export function serializeSession(session: Session): Session {
+  return JSON.parse(JSON.stringify(session));
+}
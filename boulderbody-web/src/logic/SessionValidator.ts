@@ -0,0 +1,319 @@
+/**
+ * SessionValidator.ts
+ *
+ * Runtime validation for stored and imported session data.
+ * Checks the JSON-safe stored form (after migrations, before deserialization)
+ * and reports every problem with a path such as
+ * `sessions[4].trainingData.exercises[1].sets[2].completed`.
+ */
+
+import type { BoulderTag } from '../models/BoulderAttempt';
+import { ATTEMPT_RESULTS, BOULDER_TAGS } from '../models/BoulderAttempt';
+import { EXERCISE_KINDS } from '../models/Exercise';
+
+/**
+ * A single problem found in session data.
+ */
+export interface ValidationIssue {
+  /** Location of the problem, e.g. "sessions[0].attempts[3].result" */
+  path: string;
+
+  /** What is wrong at that location */
+  message: string;
+}
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidDate(value: unknown): boolean {
+  if (value instanceof Date) {
+    return !isNaN(value.getTime());
+  }
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+/**
+ * Collects issues for one object, with helpers for the common field checks.
+ */
+function fieldChecker(data: Fields, path: string, issues: ValidationIssue[]) {
+  const report = (key: string, expected: string) => {
+    issues.push({
+      path: `${path}.${key}`,
+      message: `expected ${expected}, got ${describe(data[key])}`,
+    });
+  };
+
+  return {
+    string(key: string, optional = false) {
+      const value = data[key];
+      if (optional && value === undefined) return;
+      if (typeof value !== 'string' || (!optional && value === '')) {
+        report(key, 'a non-empty string');
+      }
+    },
+    number(key: string, { optional = false, min }: { optional?: boolean; min?: number } = {}) {
+      const value = data[key];
+      if (optional && value === undefined) return;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        report(key, 'a number');
+      } else if (min !== undefined && value < min) {
+        report(key, `a number of at least ${min}`);
+      }
+    },
+    boolean(key: string, optional = false) {
+      if (optional && data[key] === undefined) return;
+      if (typeof data[key] !== 'boolean') {
+        report(key, 'true or false');
+      }
+    },
+    date(key: string, optional = false) {
+      const value = data[key];
+      if (optional && value === undefined) return;
+      if (!isValidDate(value)) {
+        report(key, 'a valid date');
+      }
+    },
+    oneOf<T>(key: string, allowed: readonly T[], optional = false) {
+      const value = data[key];
+      if (optional && value === undefined) return;
+      if (!allowed.includes(value as T)) {
+        report(key, `one of ${allowed.join(', ')}`);
+      }
+    },
+    array(key: string, optional = false): unknown[] | null {
+      const value = data[key];
+      if (optional && value === undefined) return null;
+      if (!Array.isArray(value)) {
+        report(key, 'an array');
+        return null;
+      }
+      return value;
+    },
+  };
+}
+
+/**
+ * Validate a single boulder attempt.
+ */
+export function validateBoulderAttempt(data: unknown, path: string): ValidationIssue[] {
+  if (!isObject(data)) {
+    return [{ path, message: `expected an attempt object, got ${describe(data)}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const check = fieldChecker(data, path, issues);
+  check.string('id');
+  check.number('order', { min: 1 });
+  check.number('level', { optional: true, min: 1 });
+  check.oneOf('result', ATTEMPT_RESULTS, true);
+  check.number('tries', { optional: true, min: 1 });
+  check.string('comment', true);
+  check.array('tags', true)?.forEach((tag, i) => {
+    if (!BOULDER_TAGS.includes(tag as BoulderTag)) {
+      issues.push({
+        path: `${path}.tags[${i}]`,
+        message: `expected one of ${BOULDER_TAGS.join(', ')}, got ${describe(tag)}`,
+      });
+    }
+  });
+  check.string('projectId', true);
+  check.date('timestamp', true);
+  return issues;
+}
+
+/**
+ * Validate a single training set.
+ */
+export function validateTrainingSet(data: unknown, path: string): ValidationIssue[] {
+  if (!isObject(data)) {
+    return [{ path, message: `expected a set object, got ${describe(data)}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const check = fieldChecker(data, path, issues);
+  check.string('id');
+  check.number('order', { min: 1 });
+  check.string('exercise');
+  check.boolean('completed');
+  check.number('repsCompleted', { optional: true, min: 0 });
+  check.number('load', { optional: true });
+  check.number('secondsHeld', { optional: true, min: 0 });
+  check.number('rpe', { optional: true, min: 1 });
+  check.number('rir', { optional: true, min: 0 });
+  check.date('timestamp', true);
+  check.string('notes', true);
+  return issues;
+}
+
+/**
+ * Validate an exercise definition (catalog entry or session snapshot).
+ * @param data Exercise in its stored (JSON) form
+ * @param path Path prefix for reported issues
+ * @returns All issues found; empty if the exercise is valid
+ */
+export function validateExercise(data: unknown, path: string): ValidationIssue[] {
+  if (!isObject(data)) {
+    return [{ path, message: `expected an exercise object, got ${describe(data)}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const check = fieldChecker(data, path, issues);
+  check.string('id');
+  check.string('name');
+  check.string('unit');
+  check.oneOf('kind', EXERCISE_KINDS);
+  check.number('sets', { min: 1 });
+  check.number('reps', { min: 1 });
+  check.number('duration', { optional: data.kind !== 'timed', min: 1 });
+  check.number('repRest', { optional: true, min: 0 });
+  check.number('rest', { min: 0 });
+  check.number('increment', { min: 0 });
+  check.number('defaultLoad');
+  check.boolean('builtIn', true);
+  return issues;
+}
+
+/**
+ * Validate a protocol template snapshot.
+ * @param data Template in its stored (JSON) form
+ * @param path Path prefix for reported issues
+ * @returns All issues found; empty if the template is valid
+ */
+function validateProtocol(data: unknown, path: string): ValidationIssue[] {
+  if (!isObject(data)) {
+    return [{ path, message: `expected a protocol object, got ${describe(data)}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const check = fieldChecker(data, path, issues);
+  check.string('id');
+  check.string('name');
+  check.number('sets', { min: 1 });
+  check.number('reps', { min: 1 });
+  check.number('hangDuration', { min: 1 });
+  check.number('repRest', { optional: true, min: 0 });
+  check.number('rest', { min: 0 });
+  check.number('prepDuration', { min: 0 });
+  check.boolean('builtIn', true);
+  return issues;
+}
+
+/**
+ * Validate one exercise block of a training session.
+ * @param data Exercise block in its stored (JSON) form
+ * @param path Path prefix for reported issues
+ * @returns All issues found; empty if the block is valid
+ */
+function validateExerciseBlock(data: unknown, path: string): ValidationIssue[] {
+  if (!isObject(data)) {
+    return [{ path, message: `expected an exercise block object, got ${describe(data)}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const check = fieldChecker(data, path, issues);
+  check.string('id');
+  check.number('order', { min: 1 });
+  issues.push(...validateExercise(data.exercise, `${path}.exercise`));
+  check.number('load');
+  check.array('sets')?.forEach((set, i) => {
+    issues.push(...validateTrainingSet(set, `${path}.sets[${i}]`));
+  });
+  return issues;
+}
+
+/**
+ * Validate a stored session of either type.
+ * @param data Session in its stored (JSON) form
+ * @param path Path prefix for reported issues, e.g. "sessions[4]"
+ * @returns All issues found; empty if the session is valid
+ */
+export function validateSession(data: unknown, path: string): ValidationIssue[] {
+  if (!isObject(data)) {
+    return [{ path, message: `expected a session object, got ${describe(data)}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const check = fieldChecker(data, path, issues);
+  check.string('id');
+  check.oneOf('sessionType', ['volume', 'training']);
+  check.date('date');
+  check.date('startTime');
+  check.date('endTime', true);
+  check.date('deletedAt', true);
+  check.boolean('isFinished');
+
+  if (data.sessionType === 'volume') {
+    check.number('targetLevel', { min: 1 });
+    check.string('gradeScale', true);
+    check.number('boulderCount', { min: 0 });
+    check.boolean('openEnded', true);
+    check.array('attempts')?.forEach((attempt, i) => {
+      issues.push(...validateBoulderAttempt(attempt, `${path}.attempts[${i}]`));
+    });
+  }
+
+  if (data.sessionType === 'training') {
+    const trainingPath = `${path}.trainingData`;
+    if (!isObject(data.trainingData)) {
+      issues.push({
+        path: trainingPath,
+        message: `expected an object, got ${describe(data.trainingData)}`,
+      });
+      return issues;
+    }
+
+    const training = fieldChecker(data.trainingData, trainingPath, issues);
+    training.array('exercises')?.forEach((block, i) => {
+      issues.push(...validateExerciseBlock(block, `${trainingPath}.exercises[${i}]`));
+    });
+    training.boolean('deload', true);
+    if (data.trainingData.protocol !== undefined) {
+      issues.push(...validateProtocol(data.trainingData.protocol, `${trainingPath}.protocol`));
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate the training data of a v3 session (fixed fields per exercise)
+ * before it is converted to exercise blocks. The sets themselves are checked
+ * after conversion, at their new paths.
+ * @param data Training data in its stored v3 form
+ * @param path Path prefix for reported issues, e.g. "sessions[4].trainingData"
+ * @returns All issues found; empty if the data can be converted
+ */
+export function validateTrainingDataV3(data: unknown, path: string): ValidationIssue[] {
+  if (!isObject(data)) {
+    return [{ path, message: `expected an object, got ${describe(data)}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const check = fieldChecker(data, path, issues);
+  check.number('hangWeight');
+  check.number('pullupWeight');
+  check.number('benchWeight', { optional: true });
+  check.number('trapBarWeight', { optional: true });
+  check.array('hangSets');
+  check.array('pullupSets');
+  check.array('benchSets', true);
+  check.array('trapBarSets', true);
+  return issues;
+}
+
+/**
+ * Format issues as human-readable lines ("path: message").
+ */
+export function formatIssues(issues: ValidationIssue[]): string[] {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`);
+}
@@ -0,0 +1,198 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { VolumeSession } from '../models/Session';
+import type { Project } from '../models/Project';
+import type { Exercise } from '../models/Exercise';
+import type { TrainingProtocol } from '../models/TrainingProtocol';
+import type { GradeScale } from '../models/GradeScale';
+import {
+  getAllSessions,
+  saveSession,
+  updateSession,
+  subscribeToWriteErrors,
+  saveProject,
+  getProjects,
+  saveExercise,
+  saveExerciseIncrement,
+  getExercises,
+  saveProtocol,
+  getProtocols,
+  saveGradeScale,
+  getGradeScales,
+  setRecommendationWindow,
+  getRecommendationWindow,
+  exportBackup,
+  parseBackup,
+  previewImport,
+  applyImport,
+  countLibraryItems,
+} from './StorageManager';
+
+const project: Project = {
+  id: 'project-1',
+  name: 'The blue roof',
+  color: 'blue',
+  photo: 'data:image/jpeg;base64,AAAA',
+  createdAt: new Date(2026, 2, 1),
+};
+
+const exercise: Exercise = {
+  id: 'one-arm-hang',
+  name: 'One-arm hangs',
+  unit: 'kg',
+  kind: 'timed',
+  sets: 4,
+  reps: 2,
+  duration: 5,
+  rest: 120,
+  increment: 1,
+  defaultLoad: 0,
+};
+
+const protocol: TrainingProtocol = {
+  id: 'repeaters',
+  name: 'Repeaters',
+  sets: 6,
+  reps: 6,
+  hangDuration: 7,
+  repRest: 3,
+  rest: 180,
+  prepDuration: 5,
+};
+
+const scale: GradeScale = {
+  id: 'gym-colors',
+  name: 'Gym colors',
+  grades: [
+    { label: 'Green', difficulty: 0 },
+    { label: 'Blue', difficulty: 2 },
+  ],
+};
+
+/**
+ * A finished volume session of two boulders, one sent.
+ */
+function volumeSession(id: string, targetLevel = 5): VolumeSession {
+  const date = new Date(2026, 2, 2, 18);
+  return {
+    id,
+    sessionType: 'volume',
+    date,
+    startTime: date,
+    endTime: new Date(2026, 2, 2, 19),
+    isFinished: true,
+    targetLevel,
+    boulderCount: 2,
+    attempts: [
+      { id: `${id}-1`, order: 1, result: 'flash', timestamp: date },
+      { id: `${id}-2`, order: 2, result: 'fail', timestamp: date },
+    ],
+  };
+}
+
+describe('backups', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('add sessions from an older backup', () => {
+    const backup = JSON.stringify({ version: 3, sessions: [volumeSession('old')] });
+
+    const preview = previewImport(parseBackup(backup).sessions);
+    expect(preview.added.map((s) => s.id)).toEqual(['old']);
+    applyImport(preview);
+
+    expect(getAllSessions().map((s) => s.id)).toContain('old');
+  });
+
+  it('skip identical sessions and replace changed ones', () => {
+    saveSession(volumeSession('same'));
+    saveSession(volumeSession('changed'));
+    const backup = exportBackup();
+    updateSession(volumeSession('changed', 7));
+
+    const preview = previewImport(parseBackup(backup).sessions);
+    expect(preview.skipped.map((s) => s.id)).toContain('same');
+    expect(preview.replaced.map((s) => s.id)).toEqual(['changed']);
+  });
+
+  it('leave out malformed sessions and say where they are broken', () => {
+    const broken: Partial<VolumeSession> = volumeSession('broken');
+    delete broken.attempts;
+    const backup = JSON.stringify({ version: 3, sessions: [volumeSession('ok'), broken] });
+
+    const parsed = parseBackup(backup);
+    expect(parsed.sessions.map((s) => s.id)).toEqual(['ok']);
+    expect(parsed.invalidCount).toBe(1);
+    expect(parsed.issues[0].path).toMatch(/^sessions\[1\]\.attempts/);
+  });
+
+  it('restore projects, exercises, protocols, grade scales and settings', () => {
+    saveProject(project);
+    saveExercise(exercise);
+    saveExerciseIncrement('trapbar', 2.5);
+    saveProtocol(protocol);
+    saveGradeScale(scale);
+    setRecommendationWindow(8);
+
+    const backup = exportBackup();
+    localStorage.clear();
+    expect(getProjects()).toEqual([]);
+
+    const parsed = parseBackup(backup);
+    expect(countLibraryItems(parsed.library)).toBe(4);
+    applyImport(previewImport(parsed.sessions, parsed.library));
+
+    expect(getProjects()).toEqual([project]);
+    expect(getExercises()).toContainEqual({ ...exercise, builtIn: false });
+    expect(getExercises().find((e) => e.id === 'trapbar')?.increment).toBe(2.5);
+    expect(getProtocols()).toContainEqual({ ...protocol, builtIn: false });
+    expect(getGradeScales()).toContainEqual({ ...scale, builtIn: false });
+    expect(getRecommendationWindow()).toBe(8);
+  });
+
+  it('import old backups that only have sessions', () => {
+    const parsed = parseBackup(JSON.stringify({ version: 4, sessions: [] }));
+    expect(countLibraryItems(parsed.library)).toBe(0);
+    expect(parsed.library.recommendationWindow).toBeNull();
+  });
+
+  it('leave out built-in exercises and entries without an ID', () => {
+    const parsed = parseBackup(
+      JSON.stringify({
+        version: 4,
+        sessions: [],
+        exercises: [{ id: 'hang', name: 'Max Hangs' }, { name: 'No ID' }, exercise],
+        increments: { trapbar: 5, custom: 1, bench: -1 },
+      })
+    );
+    expect(parsed.library.exercises).toEqual([exercise]);
+    expect(parsed.library.increments).toEqual({ trapbar: 5 });
+  });
+
+  it('reject files from a newer app version', () => {
+    expect(() => parseBackup(JSON.stringify({ version: 99, sessions: [] }))).toThrow(
+      /newer version/
+    );
+  });
+});
+
+describe('session writes', () => {
+  it('report failures to listeners and keep the session in memory', async () => {
+    const errors: string[] = [];
+    const unsubscribe = subscribeToWriteErrors((message) => errors.push(message));
+    const setItem = vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    saveSession(volumeSession('unsaved'));
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+
+    setItem.mockRestore();
+    consoleError.mockRestore();
+    unsubscribe();
+    expect(errors[0]).toMatch(/storage is full/);
+    expect(getAllSessions().some((s) => s.id === 'unsaved')).toBe(true);
+  });
+});
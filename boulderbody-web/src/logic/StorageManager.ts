@@ -1,178 +1,247 @@
 import type { Session, VolumeSession, TrainingSession } from '../models/Session';
-import { isVolumeSession, isTrainingSession } from '../models/Session';
+import { isVolumeSession, isTrainingSession, splitByLevel } from '../models/Session';
+import type { BoulderAttempt } from '../models/BoulderAttempt';
+import type { Project } from '../models/Project';
+import type { Exercise } from '../models/Exercise';
+import { BUILT_IN_EXERCISES } from '../models/Exercise';
+import type { TrainingProtocol } from '../models/TrainingProtocol';
+import { BUILT_IN_PROTOCOLS } from '../models/TrainingProtocol';
+import type { GradeScale } from '../models/GradeScale';
+import {
+  BUILT_IN_SCALES,
+  LEVEL_SCALE,
+  LEVEL_SCALE_ID,
+  isNumericScale,
+  getGradeLabel,
+} from '../models/GradeScale';
+import type { SessionRepository } from './SessionRepository';
+import type { StorageSchema } from './SessionSerializer';
+import { CURRENT_VERSION, loadSessions } from './SessionSerializer';
+import type { ValidationIssue } from './SessionValidator';
+import {
+  createLocalStorageRepository,
+  LEGACY_SESSIONS_KEY,
+} from './LocalStorageRepository';
+import { createIndexedDBRepository } from './IndexedDBRepository';
+import { areWritesBlocked } from './DataQuarantine';
+import { DEFAULT_RECOMMENDATION_WINDOW } from './SessionRecommender';
+import type { WorkloadStatus } from './TrainingLoad';
+import { getWorkload } from './TrainingLoad';
+
+export type { QuarantineEntry } from './DataQuarantine';
+export {
+  getQuarantinedData,
+  exportQuarantinedData,
+  hasUnrecoveredData,
+  clearQuarantinedData,
+} from './DataQuarantine';
 
 // localStorage keys
-const SESSIONS_KEY = 'boulderbody_sessions';
 const THEME_KEY = 'boulderbody_theme';
+const TRASH_RETENTION_KEY = 'boulderbody_trash_retention_days';
+const GRADE_SCALES_KEY = 'boulderbody_grade_scales';
+const PREFERRED_SCALE_KEY = 'boulderbody_grade_scale';
+const PROJECTS_KEY = 'boulderbody_projects';
+const EXERCISES_KEY = 'boulderbody_exercises';
+const PROTOCOLS_KEY = 'boulderbody_protocols';
+const INCREMENTS_KEY = 'boulderbody_exercise_increments';
+const RECOMMENDATION_WINDOW_KEY = 'boulderbody_recommendation_window';
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
 
 /**
- * Storage schema for sessions data.
- * Includes version for future migrations.
+ * Active storage backend. Replaced by IndexedDB in initializeStorage() when available.
  */
-interface StorageSchema {
-  version: number;
-  sessions: Session[];
-}
+let repository: SessionRepository = createLocalStorageRepository();
+
+/**
+ * In-memory copy of all sessions, loaded once at startup.
+ * Reads are served from here; writes update it and persist through the repository.
+ */
+let sessionCache: Session[] = [];
 
-const CURRENT_VERSION = 3; // Incremented for bench + trapbar exercises
+/**
+ * Called when another tab changes a session.
+ * Receives the session ID and the new version, or null if it was deleted.
+ */
+export type SessionChangeListener = (id: string, session: Session | null) => void;
 
 /**
- * Migrate v1 schema (pre-sessionType) to v2.
- * All existing sessions are assumed to be volume sessions.
+ * Message sent to other tabs after every write.
  */
-function migrateV1toV2(data: any): StorageSchema {
-  console.log('Migrating storage from v1 to v2...');
-  return {
-    version: 2,
-    sessions: data.sessions.map((s: any) => ({
-      ...s,
-      sessionType: s.sessionType || 'volume',
-    })),
-  };
+type SyncMessage =
+  | { type: 'put'; sessions: Session[] }
+  | { type: 'delete'; id: string };
+
+const SYNC_CHANNEL = 'boulderbody-sessions';
+
+/**
+ * Called when a session write fails. Receives the reason, e.g. "Browser storage is full."
+ */
+export type WriteErrorListener = (message: string) => void;
+
+const changeListeners = new Set<SessionChangeListener>();
+const writeErrorListeners = new Set<WriteErrorListener>();
+let syncChannel: BroadcastChannel | null = null;
+
+/**
+ * Copy sessions from the legacy localStorage key into IndexedDB, once.
+ * The key is removed only after the copy has been committed.
+ */
+async function migrateFromLocalStorage(target: SessionRepository): Promise<void> {
+  if (!localStorage.getItem(LEGACY_SESSIONS_KEY)) {
+    return;
+  }
+
+  console.log('Moving sessions from localStorage to IndexedDB...');
+  const legacySessions = await createLocalStorageRepository().loadAll();
+  await target.putMany(legacySessions);
+
+  // Unreadable data that could not be quarantined stays where it is
+  if (!areWritesBlocked()) {
+    localStorage.removeItem(LEGACY_SESSIONS_KEY);
+  }
 }
 
 /**
- * Migrate v2 schema to v3.
- * Adds bench and trapbar fields to training sessions.
+ * Pick a storage backend and load all sessions into memory.
+ * Must complete before the app renders. Falls back to localStorage if
+ * IndexedDB cannot be opened.
  */
-function migrateV2toV3(data: any): StorageSchema {
-  console.log('Migrating storage from v2 to v3...');
-  return {
-    version: 3,
-    sessions: data.sessions.map((s: any) => {
-      if (s.sessionType !== 'training') return s;
-      return {
-        ...s,
-        trainingData: {
-          ...s.trainingData,
-          benchWeight: s.trainingData.benchWeight ?? 10,
-          trapBarWeight: s.trainingData.trapBarWeight ?? 20,
-          benchSets: s.trainingData.benchSets ?? [],
-          trapBarSets: s.trainingData.trapBarSets ?? [],
-        },
-      };
-    }),
-  };
+export async function initializeStorage(): Promise<void> {
+  try {
+    const indexedDBRepository = await createIndexedDBRepository();
+    await migrateFromLocalStorage(indexedDBRepository);
+    repository = indexedDBRepository;
+  } catch (error) {
+    console.warn('IndexedDB unavailable, using localStorage instead:', error);
+    repository = createLocalStorageRepository();
+  }
+
+  sessionCache = await repository.loadAll();
+  purgeExpiredTrash();
+  startCrossTabSync();
 }
 
 /**
- * Deserialize session data from localStorage.
- * Converts ISO date strings back to Date objects.
- * Handles both volume and training sessions.
- */
-function deserializeSession(data: any): Session {
-  // Handle training sessions with special deserialization for sets
-  if (data.sessionType === 'training') {
-    return {
-      ...data,
-      date: new Date(data.date),
-      startTime: new Date(data.startTime),
-      endTime: data.endTime ? new Date(data.endTime) : undefined,
-      trainingData: {
-        ...data.trainingData,
-        hangSets: data.trainingData.hangSets.map((s: any) => ({
-          ...s,
-          timestamp: s.timestamp ? new Date(s.timestamp) : undefined,
-        })),
-        pullupSets: data.trainingData.pullupSets.map((s: any) => ({
-          ...s,
-          timestamp: s.timestamp ? new Date(s.timestamp) : undefined,
-        })),
-        benchSets: (data.trainingData.benchSets ?? []).map((s: any) => ({
-          ...s,
-          timestamp: s.timestamp ? new Date(s.timestamp) : undefined,
-        })),
-        trapBarSets: (data.trainingData.trapBarSets ?? []).map((s: any) => ({
-          ...s,
-          timestamp: s.timestamp ? new Date(s.timestamp) : undefined,
-        })),
-      },
+ * Listen for writes from other tabs and keep the in-memory copy current.
+ * Uses BroadcastChannel; without it, falls back to the storage event, which
+ * only fires for the localStorage backend.
+ */
+function startCrossTabSync(): void {
+  if (typeof BroadcastChannel !== 'undefined') {
+    syncChannel = new BroadcastChannel(SYNC_CHANNEL);
+    syncChannel.onmessage = (event: MessageEvent<SyncMessage>) => {
+      const message = event.data;
+      if (message.type === 'put') {
+        message.sessions.forEach((s) => applyRemoteChange(s.id, s));
+      } else {
+        applyRemoteChange(message.id, null);
+      }
     };
+    return;
   }
 
-  // Handle volume sessions (existing behavior)
-  return {
-    ...data,
-    date: new Date(data.date),
-    startTime: new Date(data.startTime),
-    endTime: data.endTime ? new Date(data.endTime) : undefined,
-    attempts: data.attempts.map((a: any) => ({
-      ...a,
-      timestamp: a.timestamp ? new Date(a.timestamp) : undefined,
-    })),
-  };
+  window.addEventListener('storage', async (event) => {
+    if (event.key !== LEGACY_SESSIONS_KEY) return;
+
+    const previous = new Map(sessionCache.map((s) => [s.id, s]));
+    const reloaded = await repository.loadAll();
+    const reloadedIds = new Set(reloaded.map((s) => s.id));
+
+    reloaded
+      .filter((s) => JSON.stringify(s) !== JSON.stringify(previous.get(s.id)))
+      .forEach((s) => applyRemoteChange(s.id, s));
+    [...previous.keys()]
+      .filter((id) => !reloadedIds.has(id))
+      .forEach((id) => applyRemoteChange(id, null));
+  });
 }
 
 /**
- * Get all sessions from localStorage.
- * Handles missing data, corrupted data, and version migrations.
+ * Update the in-memory copy with another tab's write and notify listeners.
  */
-export function getAllSessions(): Session[] {
-  try {
-    const stored = localStorage.getItem(SESSIONS_KEY);
-    if (!stored) {
-      return [];
-    }
+function applyRemoteChange(id: string, session: Session | null): void {
+  if (!session) {
+    sessionCache = sessionCache.filter((s) => s.id !== id);
+  } else if (sessionCache.some((s) => s.id === id)) {
+    sessionCache = sessionCache.map((s) => (s.id === id ? session : s));
+  } else {
+    sessionCache = [...sessionCache, session];
+  }
+  changeListeners.forEach((listener) => listener(id, session));
+}
 
-    let data: StorageSchema = JSON.parse(stored);
+/**
+ * Tell other tabs about a write made in this tab.
+ */
+function broadcast(message: SyncMessage): void {
+  syncChannel?.postMessage(message);
+}
 
-    // Handle data migration if needed
-    if (!data.version || data.version < CURRENT_VERSION) {
-      console.warn('Old data version detected, migrating...');
+/**
+ * Subscribe to session changes made in other tabs.
+ * @returns Function that removes the listener
+ */
+export function subscribeToSessionChanges(listener: SessionChangeListener): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
 
-      // Apply migrations sequentially
-      if (!data.version || data.version < 2) {
-        data = migrateV1toV2(data);
-      }
-      if (data.version < 3) {
-        data = migrateV2toV3(data);
-      }
-      // Save migrated data immediately
-      try {
-        localStorage.setItem(SESSIONS_KEY, JSON.stringify(data));
-        console.log(`Migration to v${CURRENT_VERSION} complete`);
-      } catch (saveError) {
-        console.error('Failed to save migrated data:', saveError);
-      }
-    }
+/**
+ * Subscribe to failed session writes.
+ * The in-memory copy keeps the unsaved change, so it can still be exported.
+ * @returns Function that removes the listener
+ */
+export function subscribeToWriteErrors(listener: WriteErrorListener): () => void {
+  writeErrorListeners.add(listener);
+  return () => {
+    writeErrorListeners.delete(listener);
+  };
+}
 
-    return data.sessions.map(deserializeSession);
-  } catch (error) {
-    console.error('Error loading sessions from localStorage:', error);
-    // Return empty array on error (corrupted data)
-    return [];
+/**
+ * Short reason for a failed storage read or write, e.g. "Browser storage is full."
+ */
+export function describeStorageError(error: unknown): string {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return 'Browser storage is full.';
+  }
+  if (error instanceof Error) {
+    return error.message;
   }
+  return 'Storage may be unavailable.';
 }
 
 /**
- * Save all sessions to localStorage.
- * Throws error if quota exceeded or localStorage unavailable.
+ * Run a repository write in the background and report failures.
  */
-function saveAllSessions(sessions: Session[]): void {
-  try {
-    const data: StorageSchema = {
-      version: CURRENT_VERSION,
-      sessions,
-    };
-    localStorage.setItem(SESSIONS_KEY, JSON.stringify(data));
-  } catch (error: any) {
-    if (error.name === 'QuotaExceededError') {
-      throw new Error(
-        'Storage quota exceeded. Please delete old sessions to free up space.'
-      );
-    }
-    throw new Error('Failed to save session data. Storage may be unavailable.');
-  }
+function persist(write: Promise<void>): void {
+  write.catch((error) => {
+    console.error('Failed to save session data:', error);
+    const reason = describeStorageError(error);
+    writeErrorListeners.forEach((listener) => listener(reason));
+  });
+}
+
+/**
+ * Get all sessions that are not in the trash.
+ * Served from memory; storage is only read once in initializeStorage().
+ */
+export function getAllSessions(): Session[] {
+  return sessionCache.filter((s) => !s.deletedAt);
 }
 
 /**
  * Save a new session.
- * Adds it to the list and persists to localStorage.
+ * Adds it to the list and persists it.
  */
 export function saveSession(session: Session): void {
-  const sessions = getAllSessions();
-  sessions.push(session);
-  saveAllSessions(sessions);
+  sessionCache = [...sessionCache, session];
+  persist(repository.put(session));
+  broadcast({ type: 'put', sessions: [session] });
 }
 
 /**
@@ -180,29 +249,437 @@ export function saveSession(session: Session): void {
  * Replaces the session with matching ID.
  */
 export function updateSession(updatedSession: Session): void {
-  const sessions = getAllSessions();
-  const index = sessions.findIndex((s) => s.id === updatedSession.id);
+  const index = sessionCache.findIndex((s) => s.id === updatedSession.id);
 
   if (index === -1) {
     throw new Error(`Session with ID ${updatedSession.id} not found`);
   }
 
-  sessions[index] = updatedSession;
-  saveAllSessions(sessions);
+  sessionCache = sessionCache.map((s) =>
+    s.id === updatedSession.id ? updatedSession : s
+  );
+  persist(repository.put(updatedSession));
+  broadcast({ type: 'put', sessions: [updatedSession] });
 }
 
 /**
- * Delete a session by ID.
+ * Move a session to the trash.
+ * It disappears from history and recommendations but can be restored until it expires.
  */
 export function deleteSession(id: string): void {
-  const sessions = getAllSessions();
-  const filtered = sessions.filter((s) => s.id !== id);
+  const session = getAllSessions().find((s) => s.id === id);
 
-  if (filtered.length === sessions.length) {
+  if (!session) {
     throw new Error(`Session with ID ${id} not found`);
   }
 
-  saveAllSessions(filtered);
+  updateSession({ ...session, deletedAt: new Date() });
+}
+
+/**
+ * Get all sessions in the trash, most recently deleted first.
+ */
+export function getTrashedSessions(): Session[] {
+  return sessionCache
+    .filter((s) => s.deletedAt)
+    .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+}
+
+/**
+ * Move a session out of the trash.
+ * Throws if it is unfinished and another session is already active.
+ */
+export function restoreSession(id: string): Session {
+  const session = getTrashedSessions().find((s) => s.id === id);
+
+  if (!session) {
+    throw new Error(`Session with ID ${id} not found in trash`);
+  }
+
+  if (!session.isFinished && getCurrentSession()) {
+    throw new Error('Finish or break your current session before restoring this one.');
+  }
+
+  const restored = { ...session, deletedAt: undefined };
+  updateSession(restored);
+  return restored;
+}
+
+/**
+ * Permanently delete a session. Only sessions in the trash can be purged.
+ */
+export function purgeSession(id: string): void {
+  if (!getTrashedSessions().some((s) => s.id === id)) {
+    throw new Error(`Session with ID ${id} not found in trash`);
+  }
+
+  sessionCache = sessionCache.filter((s) => s.id !== id);
+  persist(repository.delete(id));
+  broadcast({ type: 'delete', id });
+}
+
+/**
+ * Permanently delete trashed sessions older than the retention period.
+ */
+export function purgeExpiredTrash(): void {
+  const cutoff = Date.now() - getTrashRetentionDays() * 24 * 60 * 60 * 1000;
+  getTrashedSessions()
+    .filter((s) => s.deletedAt!.getTime() < cutoff)
+    .forEach((s) => purgeSession(s.id));
+}
+
+/**
+ * Get how many days sessions stay in the trash before being purged.
+ */
+export function getTrashRetentionDays(): number {
+  const stored = parseInt(localStorage.getItem(TRASH_RETENTION_KEY) ?? '', 10);
+  return stored > 0 ? stored : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Save how many days sessions stay in the trash.
+ */
+export function setTrashRetentionDays(days: number): void {
+  localStorage.setItem(TRASH_RETENTION_KEY, String(days));
+}
+
+/**
+ * Get how many recent sessions the recommendations look at.
+ */
+export function getRecommendationWindow(): number {
+  const stored = parseInt(localStorage.getItem(RECOMMENDATION_WINDOW_KEY) ?? '', 10);
+  return stored > 0 ? stored : DEFAULT_RECOMMENDATION_WINDOW;
+}
+
+/**
+ * Save how many recent sessions the recommendations look at.
+ */
+export function setRecommendationWindow(sessions: number): void {
+  localStorage.setItem(RECOMMENDATION_WINDOW_KEY, String(sessions));
+}
+
+/**
+ * Get the user's custom grade scales (e.g. gym color circuits).
+ */
+function getCustomGradeScales(): GradeScale[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GRADE_SCALES_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get all grade scales: built-in scales first, then custom ones.
+ */
+export function getGradeScales(): GradeScale[] {
+  return [...BUILT_IN_SCALES, ...getCustomGradeScales()];
+}
+
+/**
+ * Look up a grade scale by ID.
+ * Sessions without a scale, or whose custom scale was deleted, use numeric levels.
+ */
+export function getGradeScale(id: string | undefined): GradeScale {
+  return getGradeScales().find((s) => s.id === id) ?? LEVEL_SCALE;
+}
+
+/**
+ * Grade label for a volume session, e.g. "V4", "6A+" or "Level 5".
+ * Pyramid sessions show their range, e.g. "6A–6B" or "Levels 4–6".
+ */
+export function getSessionGradeLabel(session: VolumeSession): string {
+  const scale = getGradeScale(session.gradeScale);
+  const blocks = splitByLevel(session);
+  if (blocks.length > 1) {
+    const lowest = blocks[0].targetLevel;
+    const highest = blocks[blocks.length - 1].targetLevel;
+    return isNumericScale(scale)
+      ? `Levels ${lowest}–${highest}`
+      : `${getGradeLabel(scale, lowest)}–${getGradeLabel(scale, highest)}`;
+  }
+  return getGradeLabel(scale, session.targetLevel);
+}
+
+/**
+ * Add or replace a custom grade scale.
+ * @throws Error if the scale is invalid or would replace a built-in scale
+ */
+export function saveGradeScale(scale: GradeScale): void {
+  if (BUILT_IN_SCALES.some((s) => s.id === scale.id)) {
+    throw new Error('Built-in grade scales cannot be changed.');
+  }
+  if (!scale.name.trim()) {
+    throw new Error('Give the grade scale a name.');
+  }
+  if (scale.grades.length === 0) {
+    throw new Error('A grade scale needs at least one grade.');
+  }
+
+  const custom = getCustomGradeScales().filter((s) => s.id !== scale.id);
+  localStorage.setItem(
+    GRADE_SCALES_KEY,
+    JSON.stringify([...custom, { ...scale, builtIn: false }])
+  );
+}
+
+/**
+ * Delete a custom grade scale.
+ * Sessions using it keep their levels and are shown as numeric levels.
+ */
+export function deleteGradeScale(id: string): void {
+  const custom = getCustomGradeScales().filter((s) => s.id !== id);
+  localStorage.setItem(GRADE_SCALES_KEY, JSON.stringify(custom));
+
+  if (getPreferredGradeScaleId() === id) {
+    localStorage.removeItem(PREFERRED_SCALE_KEY);
+  }
+}
+
+/**
+ * Get the scale used for new sessions when there is no history to go by.
+ */
+export function getPreferredGradeScaleId(): string {
+  return localStorage.getItem(PREFERRED_SCALE_KEY) ?? LEVEL_SCALE_ID;
+}
+
+/**
+ * Scale for the next volume recommendation: the last session's scale,
+ * or the preferred scale if there is no history yet.
+ */
+export function getRecommendationScale(lastSession: VolumeSession | null): GradeScale {
+  return getGradeScale(lastSession ? lastSession.gradeScale : getPreferredGradeScaleId());
+}
+
+/**
+ * Remember the scale picked for the last new session.
+ */
+export function setPreferredGradeScaleId(id: string): void {
+  localStorage.setItem(PREFERRED_SCALE_KEY, id);
+}
+
+/**
+ * Get all projects, newest first.
+ */
+export function getProjects(): Project[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROJECTS_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored
+      .map((p) => ({ ...p, createdAt: new Date(p.createdAt) }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Look up a project by ID.
+ */
+export function getProject(id: string): Project | null {
+  return getProjects().find((p) => p.id === id) ?? null;
+}
+
+function writeProjects(projects: Project[]): void {
+  try {
+    localStorage.setItem(PROJECTS_KEY, JSON.stringify(projects));
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+      throw new Error('Browser storage is full. Remove a project photo and try again.');
+    }
+    throw new Error('Failed to save project. Storage may be unavailable.');
+  }
+}
+
+/**
+ * Add or replace a project.
+ * @throws Error if the project has no name or storage is full
+ */
+export function saveProject(project: Project): void {
+  if (!project.name.trim()) {
+    throw new Error('Give the project a name.');
+  }
+
+  const others = getProjects().filter((p) => p.id !== project.id);
+  writeProjects([...others, project]);
+}
+
+/**
+ * Delete a project.
+ * Linked attempts keep their results and simply lose the link.
+ */
+export function deleteProject(id: string): void {
+  writeProjects(getProjects().filter((p) => p.id !== id));
+}
+
+/**
+ * An attempt on a project together with the session it was logged in.
+ */
+export interface ProjectAttempt {
+  session: VolumeSession;
+  attempt: BoulderAttempt;
+}
+
+/**
+ * Get every attempt linked to a project, oldest session first.
+ * Trashed sessions are left out.
+ */
+export function getProjectAttempts(projectId: string): ProjectAttempt[] {
+  return getAllSessions()
+    .filter(isVolumeSession)
+    .flatMap((session) =>
+      session.attempts
+        .filter((attempt) => attempt.projectId === projectId)
+        .map((attempt) => ({ session, attempt }))
+    )
+    .sort((a, b) => a.session.date.getTime() - b.session.date.getTime());
+}
+
+/**
+ * Get the user's custom exercises.
+ */
+function getCustomExercises(): Exercise[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(EXERCISES_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get the user's progression increments for built-in exercises, by exercise ID.
+ */
+function getIncrementOverrides(): Record<string, number> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(INCREMENTS_KEY) ?? '{}');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Get the exercise catalog: built-in exercises first, then custom ones.
+ * Built-in exercises use the user's increment where one is set.
+ */
+export function getExercises(): Exercise[] {
+  const increments = getIncrementOverrides();
+  const builtIn = BUILT_IN_EXERCISES.map((exercise) =>
+    typeof increments[exercise.id] === 'number'
+      ? { ...exercise, increment: increments[exercise.id] }
+      : exercise
+  );
+  return [...builtIn, ...getCustomExercises()];
+}
+
+/**
+ * Set the progression increment of a built-in exercise
+ * (e.g. 1kg with microplates). Other built-in settings can't be changed.
+ * @throws Error if the exercise isn't built in or the increment is negative
+ */
+export function saveExerciseIncrement(id: string, increment: number): void {
+  if (!BUILT_IN_EXERCISES.some((e) => e.id === id)) {
+    throw new Error('Only built-in exercises have a separate increment.');
+  }
+  if (!(increment >= 0)) {
+    throw new Error('The increment cannot be negative.');
+  }
+
+  localStorage.setItem(
+    INCREMENTS_KEY,
+    JSON.stringify({ ...getIncrementOverrides(), [id]: increment })
+  );
+}
+
+/**
+ * Add or replace a custom exercise.
+ * Past sessions keep the definition they were created with.
+ * @throws Error if the exercise is invalid or would replace a built-in exercise
+ */
+export function saveExercise(exercise: Exercise): void {
+  if (BUILT_IN_EXERCISES.some((e) => e.id === exercise.id)) {
+    throw new Error('Built-in exercises cannot be changed.');
+  }
+  if (!exercise.name.trim()) {
+    throw new Error('Give the exercise a name.');
+  }
+  if (exercise.sets < 1 || exercise.reps < 1) {
+    throw new Error('An exercise needs at least one set and one rep.');
+  }
+  if (exercise.kind === 'timed' && !(exercise.duration && exercise.duration >= 1)) {
+    throw new Error('Timed exercises need a duration of at least one second.');
+  }
+
+  const custom = getCustomExercises().filter((e) => e.id !== exercise.id);
+  localStorage.setItem(
+    EXERCISES_KEY,
+    JSON.stringify([...custom, { ...exercise, builtIn: false }])
+  );
+}
+
+/**
+ * Delete a custom exercise.
+ * Sessions that used it keep their snapshot; it's just no longer recommended.
+ */
+export function deleteExercise(id: string): void {
+  const custom = getCustomExercises().filter((e) => e.id !== id);
+  localStorage.setItem(EXERCISES_KEY, JSON.stringify(custom));
+}
+
+/**
+ * Get the user's custom protocol templates.
+ */
+function getCustomProtocols(): TrainingProtocol[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROTOCOLS_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get all protocol templates: built-in templates first, then custom ones.
+ */
+export function getProtocols(): TrainingProtocol[] {
+  return [...BUILT_IN_PROTOCOLS, ...getCustomProtocols()];
+}
+
+/**
+ * Add or replace a custom protocol template.
+ * Past sessions keep the snapshot they were started with.
+ * @throws Error if the template is invalid or would replace a built-in template
+ */
+export function saveProtocol(protocol: TrainingProtocol): void {
+  if (BUILT_IN_PROTOCOLS.some((p) => p.id === protocol.id)) {
+    throw new Error('Built-in protocols cannot be changed.');
+  }
+  if (!protocol.name.trim()) {
+    throw new Error('Give the protocol a name.');
+  }
+  if (protocol.sets < 1 || protocol.reps < 1) {
+    throw new Error('A protocol needs at least one set and one rep.');
+  }
+  if (protocol.hangDuration < 1) {
+    throw new Error('Hangs need a duration of at least one second.');
+  }
+
+  const custom = getCustomProtocols().filter((p) => p.id !== protocol.id);
+  localStorage.setItem(
+    PROTOCOLS_KEY,
+    JSON.stringify([...custom, { ...protocol, builtIn: false }])
+  );
+}
+
+/**
+ * Delete a custom protocol template.
+ */
+export function deleteProtocol(id: string): void {
+  const custom = getCustomProtocols().filter((p) => p.id !== id);
+  localStorage.setItem(PROTOCOLS_KEY, JSON.stringify(custom));
 }
 
 /**
@@ -251,6 +728,24 @@ export function getLastVolumeSession(): VolumeSession | null {
   return volumeFinished[0];
 }
 
+/**
+ * Get all finished volume sessions, newest first.
+ * Used for calculating volume session recommendations.
+ */
+export function getVolumeHistory(): VolumeSession[] {
+  return getAllSessions()
+    .filter((s): s is VolumeSession => isVolumeSession(s) && s.isFinished)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+/**
+ * Get the recent training load across all finished sessions.
+ * Used for load warnings and for tempering both recommendations.
+ */
+export function getCurrentWorkload(): WorkloadStatus {
+  return getWorkload(getAllSessions().filter((s) => s.isFinished), getGradeScales());
+}
+
 /**
  * Get the most recent finished training session.
  * Used for calculating training session recommendations.
@@ -270,6 +765,310 @@ export function getLastTrainingSession(): TrainingSession | null {
   return trainingFinished[0];
 }
 
+/**
+ * Get all finished training sessions, newest first.
+ * Used for calculating training session recommendations.
+ */
+export function getTrainingHistory(): TrainingSession[] {
+  return getAllSessions()
+    .filter((s): s is TrainingSession => isTrainingSession(s) && s.isFinished)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+/**
+ * Everything besides sessions that is kept in localStorage and goes into backups.
+ */
+export interface BackupLibrary {
+  projects: Project[];
+
+  /** Custom exercises */
+  exercises: Exercise[];
+
+  /** Progression increments of built-in exercises, by exercise ID */
+  increments: Record<string, number>;
+
+  /** Custom protocol templates */
+  protocols: TrainingProtocol[];
+
+  /** Custom grade scales */
+  gradeScales: GradeScale[];
+
+  /** Recent sessions the recommendations look at (null if never changed) */
+  recommendationWindow: number | null;
+}
+
+/**
+ * Backup file contents: the stored session schema plus the library.
+ * The library fields are absent in backups from before they were added.
+ */
+export interface BackupSchema extends StorageSchema {
+  projects?: Project[];
+  exercises?: Exercise[];
+  increments?: Record<string, number>;
+  protocols?: TrainingProtocol[];
+  gradeScales?: GradeScale[];
+  recommendationWindow?: number | null;
+}
+
+const EMPTY_LIBRARY: BackupLibrary = {
+  projects: [],
+  exercises: [],
+  increments: {},
+  protocols: [],
+  gradeScales: [],
+  recommendationWindow: null,
+};
+
+/**
+ * Outcome of comparing an imported backup against the stored sessions.
+ * Sessions are matched by ID.
+ */
+export interface ImportPreview {
+  /** Sessions whose ID does not exist yet */
+  added: Session[];
+
+  /** Sessions that exist with different content and will be overwritten */
+  replaced: Session[];
+
+  /** Sessions that are identical to stored ones, or would create a second active session */
+  skipped: Session[];
+
+  /** Projects, exercises, protocols and settings to restore (matched by ID) */
+  library: BackupLibrary;
+}
+
+/**
+ * Serialize all sessions and the library into a versioned JSON backup.
+ * Uses the stored session schema so it can be re-imported after migrations.
+ */
+export function exportBackup(): string {
+  const stored = parseInt(localStorage.getItem(RECOMMENDATION_WINDOW_KEY) ?? '', 10);
+  const data: BackupSchema = {
+    version: CURRENT_VERSION,
+    sessions: sessionCache, // Includes the trash
+    projects: getProjects(),
+    exercises: getCustomExercises(),
+    increments: getIncrementOverrides(),
+    protocols: getCustomProtocols(),
+    gradeScales: getCustomGradeScales(),
+    recommendationWindow: stored > 0 ? stored : null,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Entries of a backup list that have an ID and a name, leaving out built-in ones.
+ */
+function readBackupList<T extends { id: string; name: string }>(
+  list: unknown,
+  builtIn: { id: string }[]
+): T[] {
+  if (!Array.isArray(list)) return [];
+  return list.filter(
+    (item): item is T =>
+      !!item &&
+      typeof item.id === 'string' &&
+      typeof item.name === 'string' &&
+      !builtIn.some((b) => b.id === item.id)
+  );
+}
+
+/**
+ * Read the library from a backup. Missing or malformed parts are left empty.
+ */
+function readBackupLibrary(data: BackupSchema): BackupLibrary {
+  const increments =
+    data.increments && typeof data.increments === 'object' && !Array.isArray(data.increments)
+      ? Object.fromEntries(
+          Object.entries(data.increments).filter(
+            ([id, increment]) =>
+              BUILT_IN_EXERCISES.some((e) => e.id === id) &&
+              typeof increment === 'number' &&
+              increment >= 0
+          )
+        )
+      : {};
+  const recommendationWindow = Number(data.recommendationWindow);
+
+  return {
+    projects: readBackupList<Project>(data.projects, []).map((p) => ({
+      ...p,
+      createdAt: new Date(p.createdAt),
+    })),
+    exercises: readBackupList<Exercise>(data.exercises, BUILT_IN_EXERCISES),
+    increments,
+    protocols: readBackupList<TrainingProtocol>(data.protocols, BUILT_IN_PROTOCOLS),
+    gradeScales: readBackupList<GradeScale>(data.gradeScales, BUILT_IN_SCALES).filter((s) =>
+      Array.isArray(s.grades)
+    ),
+    recommendationWindow: recommendationWindow > 0 ? recommendationWindow : null,
+  };
+}
+
+/**
+ * Replace items with the same ID and add the rest.
+ */
+function mergeById<T extends { id: string }>(current: T[], imported: T[]): T[] {
+  const importedIds = new Set(imported.map((item) => item.id));
+  return [...current.filter((item) => !importedIds.has(item.id)), ...imported];
+}
+
+/**
+ * Number of projects, exercises, protocols and grade scales in a library.
+ */
+export function countLibraryItems(library: BackupLibrary): number {
+  return (
+    library.projects.length +
+    library.exercises.length +
+    library.protocols.length +
+    library.gradeScales.length
+  );
+}
+
+/**
+ * Sessions read from a backup file, plus problems with the ones that were left out.
+ */
+export interface ParsedBackup {
+  /** Sessions that passed migration and validation */
+  sessions: Session[];
+
+  /** Projects, exercises, protocols and settings in the file */
+  library: BackupLibrary;
+
+  /** Problems that caused sessions to be left out of the import */
+  issues: ValidationIssue[];
+
+  /** Number of sessions in the file that were left out */
+  invalidCount: number;
+}
+
+/**
+ * Parse a JSON backup file into sessions.
+ * Runs the backup through the same migration chain and validation as stored data.
+ * Invalid sessions are left out and reported; throws only if the file is not a
+ * BoulderBody backup or comes from a newer app version.
+ */
+export function parseBackup(json: string): ParsedBackup {
+  let data: BackupSchema;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Backup file is not valid JSON.');
+  }
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.sessions)) {
+    throw new Error('Backup file does not contain any sessions.');
+  }
+
+  if (data.version > CURRENT_VERSION) {
+    throw new Error(
+      `Backup was created with a newer version of BoulderBody (v${data.version}).`
+    );
+  }
+
+  const { sessions, failedIndexes, issues } = loadSessions(data);
+  return {
+    sessions,
+    library: readBackupLibrary(data),
+    issues,
+    invalidCount: failedIndexes.length,
+  };
+}
+
+/**
+ * Compare imported sessions against stored ones without changing anything.
+ * Unfinished sessions are skipped when another session is already active,
+ * since only one active session may exist at a time.
+ * @param imported Sessions from the backup
+ * @param library Projects, exercises, protocols and settings from the backup
+ */
+export function previewImport(
+  imported: Session[],
+  library: BackupLibrary = EMPTY_LIBRARY
+): ImportPreview {
+  const existing = new Map(sessionCache.map((s) => [s.id, s]));
+  let hasActive = getCurrentSession() !== null;
+  const preview: ImportPreview = { added: [], replaced: [], skipped: [], library };
+
+  for (const session of imported) {
+    const current = existing.get(session.id);
+
+    if (current && JSON.stringify(current) === JSON.stringify(session)) {
+      preview.skipped.push(session);
+      continue;
+    }
+
+    const becomesActive =
+      !session.isFinished &&
+      !session.deletedAt &&
+      (!current || current.isFinished || !!current.deletedAt);
+    if (becomesActive) {
+      if (hasActive) {
+        preview.skipped.push(session);
+        continue;
+      }
+      hasActive = true;
+    }
+
+    if (current) {
+      preview.replaced.push(session);
+    } else {
+      preview.added.push(session);
+    }
+  }
+
+  return preview;
+}
+
+/**
+ * Apply a previously computed import preview.
+ * Restores the library first (items from the backup replace ones with the
+ * same ID), then adds new sessions and overwrites replaced ones in a single write.
+ * @throws Error if the projects don't fit in storage
+ */
+export function applyImport(preview: ImportPreview): void {
+  const { library } = preview;
+  if (library.projects.length > 0) {
+    writeProjects(mergeById(getProjects(), library.projects));
+  }
+  if (library.exercises.length > 0) {
+    localStorage.setItem(
+      EXERCISES_KEY,
+      JSON.stringify(mergeById(getCustomExercises(), library.exercises))
+    );
+  }
+  if (Object.keys(library.increments).length > 0) {
+    localStorage.setItem(
+      INCREMENTS_KEY,
+      JSON.stringify({ ...getIncrementOverrides(), ...library.increments })
+    );
+  }
+  if (library.protocols.length > 0) {
+    localStorage.setItem(
+      PROTOCOLS_KEY,
+      JSON.stringify(mergeById(getCustomProtocols(), library.protocols))
+    );
+  }
+  if (library.gradeScales.length > 0) {
+    localStorage.setItem(
+      GRADE_SCALES_KEY,
+      JSON.stringify(mergeById(getCustomGradeScales(), library.gradeScales))
+    );
+  }
+  if (library.recommendationWindow !== null) {
+    setRecommendationWindow(library.recommendationWindow);
+  }
+
+  const changed = [...preview.replaced, ...preview.added];
+  const replacements = new Map(preview.replaced.map((s) => [s.id, s]));
+  sessionCache = [
+    ...sessionCache.map((s) => replacements.get(s.id) ?? s),
+    ...preview.added,
+  ];
+  persist(repository.putMany(changed));
+  broadcast({ type: 'put', sessions: changed });
+}
+
 /**
  * Get current theme preference.
  * Defaults to 'dark' if not set.
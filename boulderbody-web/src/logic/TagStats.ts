@@ -0,0 +1,43 @@
+/**
+ * TagStats.ts
+ *
+ * Fail rate per style tag, to show which kinds of boulders are a weakness.
+ * Only logged attempts count here: unlogged boulders have no tags to group by.
+ */
+
+import type { BoulderAttempt, BoulderTag } from '../models/BoulderAttempt';
+import { BOULDER_TAGS, isSend } from '../models/BoulderAttempt';
+
+/**
+ * Fail statistics for one tag.
+ */
+export interface TagStat {
+  tag: BoulderTag;
+
+  /** Logged attempts carrying this tag */
+  attempts: number;
+
+  /** Of those, attempts that were not topped (fail or zone) */
+  fails: number;
+
+  /** fails / attempts as a percentage (0-100) */
+  failRate: number;
+}
+
+/**
+ * Break down fail rate by tag.
+ * An attempt with several tags counts towards each of them.
+ * @param attempts Attempts from one or more sessions
+ * @returns Stats for every tag that occurs, highest fail rate first
+ */
+export function getFailRateByTag(attempts: BoulderAttempt[]): TagStat[] {
+  const logged = attempts.filter((a) => a.result !== undefined);
+
+  return BOULDER_TAGS.flatMap((tag) => {
+    const tagged = logged.filter((a) => a.tags?.includes(tag));
+    if (tagged.length === 0) return [];
+
+    const fails = tagged.filter((a) => !isSend(a.result)).length;
+    return [{ tag, attempts: tagged.length, fails, failRate: (fails / tagged.length) * 100 }];
+  }).sort((a, b) => b.failRate - a.failRate || b.attempts - a.attempts);
+}
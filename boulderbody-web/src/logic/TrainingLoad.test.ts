@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import type { Session } from '../models/Session';
+import { BUILT_IN_EXERCISES } from '../models/Exercise';
+import { createPyramidSession, createTrainingSession } from './SessionFactory';
+import { getSessionLoad, getWorkload, getWorkloadZone } from './TrainingLoad';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const NOW = new Date(2026, 5, 30, 20);
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY_MS);
+
+const [hang, , , trapbar] = BUILT_IN_EXERCISES;
+
+/**
+ * A finished volume session of V-scale boulders, all sent.
+ */
+function volumeSession(date: Date, level: number, boulders: number): Session {
+  const session = createPyramidSession([{ level, boulderCount: boulders }], 'v-scale', date);
+  return {
+    ...session,
+    isFinished: true,
+    attempts: session.attempts.map((a) => ({ ...a, result: 'done' })),
+  };
+}
+
+/**
+ * A finished training session of one exercise with every set done.
+ */
+function trainingSession(date: Date, exercise = trapbar, load = exercise.defaultLoad): Session {
+  const session = createTrainingSession([{ exercise, load }], undefined, date);
+  return {
+    ...session,
+    isFinished: true,
+    trainingData: {
+      ...session.trainingData,
+      exercises: session.trainingData.exercises.map((block) => ({
+        ...block,
+        sets: block.sets.map((set) => ({ ...set, completed: true })),
+      })),
+    },
+  };
+}
+
+describe('getSessionLoad', () => {
+  it('weighs boulders by grade', () => {
+    // V4 is level 6 of the V-scale: intensity 4 + 2
+    expect(getSessionLoad(volumeSession(NOW, 6, 10))).toBe(60);
+  });
+
+  it('scores training at the starting load by reps and effort', () => {
+    // 5 sets × 3 reps × RPE 7 × 3
+    expect(getSessionLoad(trainingSession(NOW))).toBeCloseTo(31.5);
+  });
+
+  it('scores heavier loads higher', () => {
+    const light = getSessionLoad(trainingSession(NOW, trapbar, 20));
+    const heavy = getSessionLoad(trainingSession(NOW, trapbar, 40));
+    expect(heavy).toBeCloseTo(light * (110 / 90));
+
+    const bodyweight = getSessionLoad(trainingSession(NOW, hang, 0));
+    const weighted = getSessionLoad(trainingSession(NOW, hang, 14));
+    expect(weighted).toBeCloseTo(bodyweight * 1.2);
+  });
+});
+
+describe('getWorkload', () => {
+  it('has no ratio before four weeks of history', () => {
+    const workload = getWorkload([volumeSession(daysAgo(10), 6, 10)], undefined, NOW);
+    expect(workload.ratio).toBeNull();
+    expect(workload.zone).toBeNull();
+  });
+
+  it('is optimal for steady training', () => {
+    const sessions = [2, 5, 9, 12, 16, 19, 23, 26, 30].map((d) => volumeSession(daysAgo(d), 6, 10));
+    const workload = getWorkload(sessions, undefined, NOW);
+    expect(workload.zone).toBe('optimal');
+    expect(workload.warnings).toEqual([]);
+  });
+
+  it('warns about a spike and days in a row', () => {
+    const sessions = [
+      ...[9, 16, 23, 30].map((d) => volumeSession(daysAgo(d), 6, 10)),
+      ...[0, 1, 2].map((d) => volumeSession(daysAgo(d), 6, 20)),
+    ];
+    const workload = getWorkload(sessions, undefined, NOW);
+    expect(workload.zone).toBe('spike');
+    expect(workload.consecutiveDays).toBe(3);
+    expect(workload.warnings).toHaveLength(2);
+  });
+
+  it('sorts ratios into zones', () => {
+    expect(getWorkloadZone(0.5)).toBe('low');
+    expect(getWorkloadZone(1)).toBe('optimal');
+    expect(getWorkloadZone(1.4)).toBe('high');
+    expect(getWorkloadZone(1.6)).toBe('spike');
+  });
+});
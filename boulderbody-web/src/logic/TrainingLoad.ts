@@ -0,0 +1,255 @@
+/**
+ * TrainingLoad.ts
+ *
+ * Load model across both session types, to catch hard days stacking up.
+ * Every finished session gets a load score; the acute:chronic workload ratio
+ * compares the last week's load with the weekly average of the last four.
+ */
+
+import type { Session, VolumeSession, TrainingSession } from '../models/Session';
+import { isVolumeSession, getAttemptLevel } from '../models/Session';
+import type { TrainingSet, ExerciseBlock } from '../models/SessionType';
+import { getSessionExercise } from '../models/SessionType';
+import type { GradeScale } from '../models/GradeScale';
+import { BUILT_IN_SCALES, LEVEL_SCALE, getGradeDifficulty } from '../models/GradeScale';
+
+/**
+ * Where the acute:chronic workload ratio falls.
+ * - low: less than usual (detraining or a rest week)
+ * - optimal: in line with what the body is used to
+ * - high: load building up faster than usual
+ * - spike: sharp rise, associated with injuries
+ */
+export type WorkloadZone = 'low' | 'optimal' | 'high' | 'spike';
+
+/**
+ * Recent training load and what it means for the next session.
+ */
+export interface WorkloadStatus {
+  /** Load of the last 7 days */
+  acuteLoad: number;
+
+  /** Average weekly load of the last 28 days */
+  chronicLoad: number;
+
+  /** acuteLoad / chronicLoad, or null without enough history */
+  ratio: number | null;
+
+  /** Zone of the ratio, or null without enough history */
+  zone: WorkloadZone | null;
+
+  /** Days in a row with a session, ending today or yesterday (0 if neither) */
+  consecutiveDays: number;
+
+  /** Warnings to show before starting a session */
+  warnings: string[];
+}
+
+/**
+ * Ratio limits between zones: below 0.8 low, up to 1.3 optimal,
+ * up to 1.5 high, above that a spike.
+ */
+const LOW_RATIO = 0.8;
+const HIGH_RATIO = 1.3;
+const SPIKE_RATIO = 1.5;
+
+/**
+ * History needed before the ratio means anything (days since the first session).
+ * With less, the chronic load underestimates what the body is used to.
+ */
+const MIN_HISTORY_DAYS = 28;
+
+/**
+ * Days in a row with a session from which a rest day is suggested.
+ */
+const CONSECUTIVE_DAYS_WARNING = 2;
+
+/**
+ * Effort of a training set without RPE or RIR logged (RPE scale).
+ */
+const DEFAULT_SET_RPE = 7;
+
+/**
+ * Load per rep at RPE 10 and the exercise's starting load, so a typical
+ * training session scores about as much as a typical volume session
+ * (5 sets × 3 reps × 4 exercises ≈ 120).
+ */
+const TRAINING_REP_LOAD = 3;
+
+/**
+ * Body mass assumed to move with every rep, per load unit. Added load counts
+ * relative to it: +14kg on a bodyweight exercise makes each rep 20% harder.
+ */
+const BODY_MASS: Record<string, number> = { kg: 70, lb: 155 };
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Intensity of a boulder: its V-scale equivalent shifted so VB counts 1,
+ * or the plain level on scales that can't be converted.
+ */
+function getBoulderIntensity(scale: GradeScale, level: number): number {
+  const difficulty = getGradeDifficulty(scale, level);
+  return Math.max(1, difficulty === null ? level : difficulty + 2);
+}
+
+/**
+ * Volume session load: boulders × grade intensity.
+ * Open-ended sessions count only the boulders that were logged.
+ */
+function getVolumeLoad(session: VolumeSession, scales: GradeScale[]): number {
+  const scale = scales.find((s) => s.id === session.gradeScale) ?? LEVEL_SCALE;
+  const attempts = session.openEnded
+    ? session.attempts.filter((a) => a.result !== undefined)
+    : session.attempts;
+
+  return attempts.reduce(
+    (sum, attempt) => sum + getBoulderIntensity(scale, getAttemptLevel(session, attempt)),
+    0
+  );
+}
+
+/**
+ * Effort of a set on the RPE scale (from RPE, else RIR, else the default).
+ */
+function getSetEffort(set: TrainingSet): number {
+  if (set.rpe !== undefined) return set.rpe;
+  if (set.rir !== undefined) return 10 - set.rir;
+  return DEFAULT_SET_RPE;
+}
+
+/**
+ * How heavy a set's load is compared to the exercise's starting load
+ * (body mass plus load). Units without a known body mass count as 1.
+ */
+function getLoadFactor(block: ExerciseBlock, set: TrainingSet): number {
+  const body = BODY_MASS[block.exercise.unit.toLowerCase()];
+  if (body === undefined) {
+    return 1;
+  }
+  const load = set.load ?? block.load;
+  return Math.max(0, body + load) / Math.max(1, body + block.exercise.defaultLoad);
+}
+
+/**
+ * Training session load: reps done × effort × load factor, over all done sets.
+ */
+function getTrainingSessionLoad(session: TrainingSession): number {
+  return session.trainingData.exercises.reduce((sum, block) => {
+    const { reps } = getSessionExercise(session.trainingData, block);
+    return (
+      sum +
+      block.sets
+        .filter((s) => s.completed)
+        .reduce(
+          (setSum, s) =>
+            setSum +
+            (s.repsCompleted ?? reps) *
+              (getSetEffort(s) / 10) *
+              getLoadFactor(block, s) *
+              TRAINING_REP_LOAD,
+          0
+        )
+    );
+  }, 0);
+}
+
+/**
+ * Load score of a session, in arbitrary units comparable across session types.
+ * @param session The session to score
+ * @param scales Known grade scales (to weigh boulders by grade)
+ */
+export function getSessionLoad(session: Session, scales: GradeScale[] = BUILT_IN_SCALES): number {
+  return isVolumeSession(session)
+    ? getVolumeLoad(session, scales)
+    : getTrainingSessionLoad(session);
+}
+
+/**
+ * Zone of an acute:chronic workload ratio.
+ */
+export function getWorkloadZone(ratio: number): WorkloadZone {
+  if (ratio > SPIKE_RATIO) return 'spike';
+  if (ratio > HIGH_RATIO) return 'high';
+  if (ratio < LOW_RATIO) return 'low';
+  return 'optimal';
+}
+
+/**
+ * Midnight at the start of a date's day.
+ */
+function startOfDay(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+/**
+ * Days in a row with a session, ending today or yesterday.
+ */
+function getConsecutiveDays(sessions: Session[], now: Date): number {
+  const days = new Set(sessions.map((s) => startOfDay(s.date)));
+  let day = startOfDay(now);
+  if (!days.has(day)) {
+    day = startOfDay(new Date(day - DAY_MS / 2));
+  }
+
+  let count = 0;
+  while (days.has(day)) {
+    count++;
+    day = startOfDay(new Date(day - DAY_MS / 2));
+  }
+  return count;
+}
+
+/**
+ * Calculate recent training load across both session types.
+ *
+ * - Acute load: total load of the last 7 days
+ * - Chronic load: total load of the last 28 days / 4
+ * - Ratio: acute / chronic, once there are 4 weeks of history
+ *   (> 1.3 high, > 1.5 spike, < 0.8 low)
+ *
+ * Warnings are given for a high ratio or a spike, and for sessions on
+ * 2+ days in a row.
+ *
+ * @param sessions Finished sessions of both types
+ * @param scales Known grade scales (to weigh boulders by grade)
+ * @param now Current time
+ * @returns Workload status with warnings
+ */
+export function getWorkload(
+  sessions: Session[],
+  scales: GradeScale[] = BUILT_IN_SCALES,
+  now: Date = new Date()
+): WorkloadStatus {
+  const past = sessions.filter((s) => s.date.getTime() <= now.getTime());
+  const loadSince = (days: number) =>
+    past
+      .filter((s) => s.date.getTime() > now.getTime() - days * DAY_MS)
+      .reduce((sum, s) => sum + getSessionLoad(s, scales), 0);
+
+  const acuteLoad = loadSince(7);
+  const chronicLoad = loadSince(28) / 4;
+  const firstSession = Math.min(...past.map((s) => s.date.getTime()));
+  const ratio =
+    chronicLoad > 0 && now.getTime() - firstSession >= MIN_HISTORY_DAYS * DAY_MS
+      ? acuteLoad / chronicLoad
+      : null;
+  const zone = ratio === null ? null : getWorkloadZone(ratio);
+  const consecutiveDays = getConsecutiveDays(past, now);
+
+  const warnings: string[] = [];
+  if (zone === 'spike' && ratio !== null) {
+    warnings.push(
+      `Load spike: ${Math.round(acuteLoad)} this week vs ${Math.round(chronicLoad)} on average (${ratio.toFixed(2)}×) — recommendations are eased off`
+    );
+  } else if (zone === 'high' && ratio !== null) {
+    warnings.push(
+      `Load rising: ${Math.round(acuteLoad)} this week vs ${Math.round(chronicLoad)} on average (${ratio.toFixed(2)}×) — recommendations hold steady`
+    );
+  }
+  if (consecutiveDays >= CONSECUTIVE_DAYS_WARNING) {
+    warnings.push(`Sessions on ${consecutiveDays} days in a row — consider a rest day for your fingers`);
+  }
+
+  return { acuteLoad, chronicLoad, ratio, zone, consecutiveDays, warnings };
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import type { TrainingSession } from '../models/Session';
+import { BUILT_IN_EXERCISES } from '../models/Exercise';
+import { BUILT_IN_PROTOCOLS } from '../models/TrainingProtocol';
+import type { ExerciseLoad } from './SessionFactory';
+import { createTrainingSession } from './SessionFactory';
+import { CURRENT_VERSION, loadSessions, serializeSession } from './SessionSerializer';
+import { getTrainingRecommendation } from './TrainingRecommender';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const START = new Date(2026, 0, 5, 18);
+
+const daysAfterStart = (days: number) => new Date(START.getTime() + days * DAY_MS);
+
+const loadOf = (exercises: ExerciseLoad[], id: string) =>
+  exercises.find((e) => e.exercise.id === id)?.load;
+
+/**
+ * A finished training session with every set done, or only the first
+ * `setsDone` sets of each exercise.
+ */
+function finishedSession(
+  exercises: ExerciseLoad[],
+  date: Date,
+  { deload = false, setsDone }: { deload?: boolean; setsDone?: number } = {}
+): TrainingSession {
+  const session = createTrainingSession(exercises, undefined, date, deload);
+  return {
+    ...session,
+    isFinished: true,
+    endTime: new Date(date.getTime() + 60 * 60 * 1000),
+    trainingData: {
+      ...session.trainingData,
+      exercises: session.trainingData.exercises.map((block) => ({
+        ...block,
+        sets: block.sets.map((set, i) => ({
+          ...set,
+          completed: setsDone === undefined || i < setsDone,
+        })),
+      })),
+    },
+  };
+}
+
+/**
+ * Store and load sessions the way every storage backend does.
+ */
+function roundTrip(sessions: TrainingSession[]): TrainingSession[] {
+  const stored = JSON.parse(
+    JSON.stringify({ version: CURRENT_VERSION, sessions: sessions.map(serializeSession) })
+  );
+  return loadSessions(stored).sessions as TrainingSession[];
+}
+
+const defaults = BUILT_IN_EXERCISES.map((exercise) => ({
+  exercise,
+  load: exercise.defaultLoad,
+}));
+
+describe('getTrainingRecommendation', () => {
+  it('starts with the built-in exercises at their default loads', () => {
+    const rec = getTrainingRecommendation([], BUILT_IN_EXERCISES, 5, undefined, START);
+    expect(rec.exercises).toEqual(defaults);
+    expect(rec.deload).toBe(false);
+  });
+
+  it('adds each exercise increment after a session with every set done', () => {
+    const history = [finishedSession(defaults, START)];
+    const rec = getTrainingRecommendation(
+      history,
+      BUILT_IN_EXERCISES,
+      5,
+      undefined,
+      daysAfterStart(2)
+    );
+    expect(loadOf(rec.exercises, 'hang')).toBe(1);
+    expect(loadOf(rec.exercises, 'trapbar')).toBe(25);
+  });
+
+  it('holds after one missed session and reduces after two', () => {
+    const first = finishedSession(defaults, START, { setsDone: 2 });
+    const held = getTrainingRecommendation(
+      [first],
+      BUILT_IN_EXERCISES,
+      5,
+      undefined,
+      daysAfterStart(2)
+    );
+    expect(loadOf(held.exercises, 'trapbar')).toBe(20);
+
+    const second = finishedSession(defaults, daysAfterStart(2), { setsDone: 2 });
+    const reduced = getTrainingRecommendation(
+      [second, first],
+      BUILT_IN_EXERCISES,
+      5,
+      undefined,
+      daysAfterStart(4)
+    );
+    expect(loadOf(reduced.exercises, 'trapbar')).toBe(15);
+  });
+
+  it('reduces all loads after time off', () => {
+    const history = [finishedSession(defaults, START)];
+    const rec = getTrainingRecommendation(
+      history,
+      BUILT_IN_EXERCISES,
+      5,
+      undefined,
+      daysAfterStart(30)
+    );
+    expect(rec.daysSinceLastSession).toBe(30);
+    expect(loadOf(rec.exercises, 'trapbar')).toBe(15);
+  });
+
+  it('schedules a deload after three weeks and then returns to working loads', () => {
+    const history = [21, 14, 7, 0].map((day) => finishedSession(defaults, daysAfterStart(day)));
+    const deload = getTrainingRecommendation(
+      history,
+      BUILT_IN_EXERCISES,
+      5,
+      undefined,
+      daysAfterStart(23)
+    );
+    expect(deload.deload).toBe(true);
+    expect(loadOf(deload.exercises, 'trapbar')).toBe(20);
+
+    const afterDeload = getTrainingRecommendation(
+      [finishedSession(deload.exercises, daysAfterStart(23), { deload: true }), ...history],
+      BUILT_IN_EXERCISES,
+      5,
+      undefined,
+      daysAfterStart(25)
+    );
+    expect(afterDeload.deload).toBe(false);
+    expect(loadOf(afterDeload.exercises, 'trapbar')).toBe(25);
+  });
+});
+
+describe('training sessions in storage', () => {
+  it('keep the protocol and deload flag through a round-trip', () => {
+    const protocol = BUILT_IN_PROTOCOLS[0];
+    const session = createTrainingSession(defaults, protocol, START, true);
+    const [loaded] = roundTrip([session]);
+
+    expect(loaded.trainingData.protocol).toEqual(protocol);
+    expect(loaded.trainingData.deload).toBe(true);
+  });
+
+  it('keep progressing across deload weeks when reloaded between sessions', () => {
+    let history: TrainingSession[] = [];
+    for (let day = 0; day <= 60; day += 2) {
+      const now = daysAfterStart(day);
+      const rec = getTrainingRecommendation(history, BUILT_IN_EXERCISES, 5, undefined, now);
+      const session = finishedSession(rec.exercises, now, { deload: rec.deload });
+      history = roundTrip([session, ...history]);
+    }
+
+    const deloads = history.filter((s) => s.trainingData.deload);
+    expect(deloads.length).toBeGreaterThan(0);
+    expect(deloads.length).toBeLessThanOrEqual(3);
+
+    const latest = getTrainingRecommendation(
+      history,
+      BUILT_IN_EXERCISES,
+      5,
+      undefined,
+      daysAfterStart(62)
+    );
+    expect(loadOf(latest.exercises, 'pullup')).toBeGreaterThan(20);
+    expect(loadOf(latest.exercises, 'trapbar')).toBeGreaterThan(60);
+  });
+});
@@ -1,94 +1,363 @@
 /**
  * TrainingRecommender.ts
  *
- * Calculates weight progression for training sessions.
- * Uses simple linear progression: +2.5kg when all sets completed, maintain when incomplete.
- * Hangs and pull-ups progress independently.
+ * Calculates load progression for training sessions.
+ * Each exercise progresses by its own increment when every set was done as
+ * planned, holds after a miss or an all-out effort, and drops after repeated
+ * misses across the recent sessions. Time off reduces all loads, and every
+ * fourth week of continuous training is a lighter deload week.
  */
 
 import type { TrainingSession } from '../models/Session';
-import { isExerciseComplete } from '../models/SessionType';
+import type { Exercise } from '../models/Exercise';
+import { BUILT_IN_EXERCISES } from '../models/Exercise';
+import type { ExerciseBlock, TrainingData } from '../models/SessionType';
+import { isSetComplete, isMaxEffort, getSessionExercise } from '../models/SessionType';
+import type { ExerciseLoad } from './SessionFactory';
+import { DEFAULT_RECOMMENDATION_WINDOW, getWeightedAverage } from './SessionRecommender';
+import type { WorkloadStatus } from './TrainingLoad';
 
 export interface TrainingRecommendation {
-  hangWeight: number;
-  pullupWeight: number;
-  benchWeight: number;
-  trapBarWeight: number;
+  /** Exercises for the next session, in order, with recommended loads */
+  exercises: ExerciseLoad[];
+
+  /** Whether the next session is a deload (lighter loads, not a baseline for progression) */
+  deload: boolean;
+
+  /** Numbers behind each exercise's load (one per recommended exercise) */
+  metrics: ExerciseMetrics[];
+
+  /** Days since the last session (null without history) */
+  daysSinceLastSession: number | null;
+
+  /** Explanation of how this was calculated */
   reason: string;
 }
 
-const DEFAULT_WEIGHT = 0; // Bodyweight (0kg added)
-const DEFAULT_BENCH_WEIGHT = 10; // kg
-const DEFAULT_TRAPBAR_WEIGHT = 20; // kg
-const WEIGHT_INCREMENT = 2.5; // kg
+/**
+ * How an exercise went across the recent regular (non-deload) sessions.
+ */
+export interface ExerciseMetrics {
+  /** Exercise ID */
+  exerciseId: string;
+
+  /** Recent regular sessions that included the exercise */
+  sessions: number;
+
+  /** Load of the most recent of those sessions, before any adjustment */
+  baseLoad: number;
+
+  /**
+   * Share of sets done as planned (all reps at the planned load), exponentially
+   * weighted so the most recent session counts most (percent)
+   */
+  weightedCompletion: number;
+
+  /** Missed sessions in a row, most recent first */
+  consecutiveMisses: number;
+}
+
+/**
+ * Consecutive missed sessions of an exercise before its load is reduced.
+ */
+const MISSES_BEFORE_REGRESSION = 2;
+
+/**
+ * Load reduction after repeated misses (percent).
+ */
+const REGRESSION_PERCENT = 10;
+
+/**
+ * Weighted share of sets done as planned (percent) below which repeated
+ * misses reduce the load. Closer misses only hold it.
+ */
+const REGRESSION_COMPLETION = 75;
+
+/**
+ * Load reduction for time off, longest break first: [minimum days, percent].
+ */
+const TIME_OFF_DECAY: [number, number][] = [
+  [29, 20],
+  [15, 10],
+  [8, 5],
+];
+
+/**
+ * Gap in days that ends a run of continuous training.
+ */
+const TRAINING_BREAK_DAYS = 14;
+
+/**
+ * Days of continuous training after which the next session is a deload
+ * (three weeks of training, then the deload week).
+ */
+const DELOAD_AFTER_DAYS = 21;
 
 /**
- * Calculate recommended weights for next training session.
+ * Load reduction in a deload week (percent).
+ */
+const DELOAD_PERCENT = 20;
+
+/**
+ * Load reduction on a training load spike across both session types (percent).
+ */
+const LOAD_SPIKE_PERCENT = 10;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Why an exercise's load should be held, from what was logged for its sets.
+ * Misses (sets not done, missed reps, a lighter load) count towards a load
+ * reduction; an all-out effort only holds the load.
+ * @returns The kind and a short note, or null if the exercise can progress
+ */
+function getHoldReason(
+  data: TrainingData,
+  block: ExerciseBlock
+): { miss: boolean; note: string } | null {
+  const { reps } = getSessionExercise(data, block);
+  const done = block.sets.filter((s) => s.completed);
+
+  if (done.length < block.sets.length) {
+    const missed = block.sets.length - done.length;
+    return { miss: true, note: `${missed} ${missed === 1 ? 'set' : 'sets'} not done` };
+  }
+  if (done.some((s) => !isSetComplete(s, reps))) {
+    return { miss: true, note: 'missed reps' };
+  }
+  if (done.some((s) => s.load !== undefined && s.load < block.load)) {
+    return { miss: true, note: 'lighter load used' };
+  }
+  const last = done[done.length - 1];
+  if (isMaxEffort(last)) {
+    const note =
+      last.rpe !== undefined && last.rpe >= 10 ? 'RPE 10 on last set' : 'RIR 0 on last set';
+    return { miss: false, note };
+  }
+  return null;
+}
+
+/**
+ * Share of a block's planned sets that were done as planned (percent).
+ */
+function getCompletion(data: TrainingData, block: ExerciseBlock): number {
+  if (block.sets.length === 0) {
+    return 100;
+  }
+  const { reps } = getSessionExercise(data, block);
+  const done = block.sets.filter(
+    (s) => s.completed && isSetComplete(s, reps) && !(s.load !== undefined && s.load < block.load)
+  );
+  return (done.length / block.sets.length) * 100;
+}
+
+/**
+ * Reduce a load by a percentage, rounded down to the exercise's increment
+ * (at least one increment lower, never below zero).
+ */
+function reduceLoad(load: number, percent: number, exercise: Exercise): number {
+  const target = load * (1 - percent / 100);
+  const step = exercise.increment > 0 ? exercise.increment : 0.5;
+  const rounded = Math.min(Math.floor(target / step) * step, load - step);
+  return Math.max(0, Math.round(rounded * 100) / 100);
+}
+
+/**
+ * Format a load change, e.g. "+2.5kg" or "-5kg".
+ */
+function formatChange(change: number, exercise: Exercise): string {
+  const rounded = Math.round(change * 100) / 100;
+  return `${rounded > 0 ? '+' : ''}${rounded}${exercise.unit}`;
+}
+
+/**
+ * Days of continuous training up to the most recent session, counted from the
+ * first session after the last deload or the last break.
+ * @param history Finished training sessions, newest first
+ */
+function getTrainingRunDays(history: TrainingSession[], now: Date): number {
+  let start = history[0];
+  for (const session of history.slice(1)) {
+    const gap = (start.date.getTime() - session.date.getTime()) / DAY_MS;
+    if (session.trainingData.deload || gap > TRAINING_BREAK_DAYS) {
+      break;
+    }
+    start = session;
+  }
+  return Math.floor((now.getTime() - start.date.getTime()) / DAY_MS);
+}
+
+/**
+ * Calculate recommended loads for next training session.
  *
  * Algorithm:
- * 1. If no previous session: Return all defaults
- * 2. For each exercise independently:
- *    - All 5 sets completed → Add 2.5kg
- *    - Incomplete or absent sets → Keep same weight
+ * 1. If no previous session: built-in exercises at their default loads
+ * 2. Otherwise the last session's exercises (those still in the catalog),
+ *    starting from the load of their last regular session. Deload sessions
+ *    are skipped, so loads return to (and progress from) the working loads.
+ *    Only the most recent regular sessions (the window) are looked at.
+ * 3. Performance, each exercise independently:
+ *    - Every set done with all reps at the planned load → Add the exercise's increment
+ *    - Sets not done, missed reps or a lighter load → Keep same load, or reduce
+ *      it by 10% after 2 missed sessions in a row when under 75% of sets were
+ *      done as planned (weighted, each session counting half as much as the
+ *      next more recent one)
+ *    - Last set logged as all-out (RPE 10 or RIR 0) → Keep same load
+ * 4. Time off (replaces step 3 for all exercises):
+ *    - 8-14 days since last session → -5%
+ *    - 15-28 days → -10%
+ *    - 29+ days → -20%
+ * 5. Deload week: after 3 weeks of continuous training (no break over 14
+ *    days since the last deload), the next session is at -20%
+ * 6. Recent training load (volume and training sessions alike), outside
+ *    deload weeks:
+ *    - Rising load (high workload ratio) → no increases
+ *    - Load spike → no increases and -10% on all exercises
+ *
+ * Reductions round down to the exercise's increment.
  *
- * @param lastTrainingSession Most recent finished training session, or null for first session
- * @returns Recommended weights and explanation
+ * @param history Finished training sessions, newest first (empty for the first session)
+ * @param catalog Available exercises (current definitions are used for the next session)
+ * @param window Number of recent regular sessions to look at
+ * @param workload Recent training load across both session types (not tempered if absent)
+ * @param now Current time (for time off and deload scheduling)
+ * @returns Recommended exercises with loads and explanation
  */
 export function getTrainingRecommendation(
-  lastTrainingSession: TrainingSession | null
+  history: TrainingSession[],
+  catalog: Exercise[] = BUILT_IN_EXERCISES,
+  window: number = DEFAULT_RECOMMENDATION_WINDOW,
+  workload?: WorkloadStatus,
+  now: Date = new Date()
 ): TrainingRecommendation {
-  if (!lastTrainingSession) {
+  const lastSession = history[0];
+  if (!lastSession) {
     return {
-      hangWeight: DEFAULT_WEIGHT,
-      pullupWeight: DEFAULT_WEIGHT,
-      benchWeight: DEFAULT_BENCH_WEIGHT,
-      trapBarWeight: DEFAULT_TRAPBAR_WEIGHT,
+      exercises: catalog
+        .filter((exercise) => exercise.builtIn)
+        .map((exercise) => ({ exercise, load: exercise.defaultLoad })),
+      deload: false,
+      metrics: [],
+      daysSinceLastSession: null,
       reason: 'First session — starting with defaults',
     };
   }
 
-  const { trainingData } = lastTrainingSession;
-
-  const hangComplete = isExerciseComplete(trainingData.hangSets);
-  const pullupComplete = isExerciseComplete(trainingData.pullupSets);
-  const benchComplete = isExerciseComplete(trainingData.benchSets);
-  const trapBarComplete = isExerciseComplete(trainingData.trapBarSets);
-
-  const newHangWeight = hangComplete
-    ? trainingData.hangWeight + WEIGHT_INCREMENT
-    : trainingData.hangWeight;
-
-  const newPullupWeight = pullupComplete
-    ? trainingData.pullupWeight + WEIGHT_INCREMENT
-    : trainingData.pullupWeight;
-
-  const newBenchWeight = benchComplete
-    ? (trainingData.benchWeight ?? DEFAULT_BENCH_WEIGHT) + WEIGHT_INCREMENT
-    : (trainingData.benchWeight ?? DEFAULT_BENCH_WEIGHT);
-
-  const newTrapBarWeight = trapBarComplete
-    ? (trainingData.trapBarWeight ?? DEFAULT_TRAPBAR_WEIGHT) + WEIGHT_INCREMENT
-    : (trainingData.trapBarWeight ?? DEFAULT_TRAPBAR_WEIGHT);
-
-  const completed = [hangComplete, pullupComplete, benchComplete, trapBarComplete];
-  const completedCount = completed.filter(Boolean).length;
-
-  let reason = '';
-  if (completedCount === 4) {
-    reason = `All exercises complete (+${WEIGHT_INCREMENT}kg each)`;
-  } else if (completedCount === 0) {
-    reason = 'No exercises completed — maintain weights';
-  } else {
-    const names = ['hangs', 'pull-ups', 'bench', 'trap bar'];
-    const progressed = names.filter((_, i) => completed[i]).join(', ');
-    reason = `${progressed} +${WEIGHT_INCREMENT}kg, others same`;
+  const regular = history
+    .filter((s) => !s.trainingData.deload)
+    .slice(0, Math.max(1, window));
+  const reasons: string[] = [];
+  const metrics: ExerciseMetrics[] = [];
+
+  // Step 1: Time off since the last session
+  const daysSinceLastSession = Math.floor((now.getTime() - lastSession.date.getTime()) / DAY_MS);
+  const decay = TIME_OFF_DECAY.find(([days]) => daysSinceLastSession >= days)?.[1] ?? 0;
+  if (decay > 0) {
+    reasons.push(`${daysSinceLastSession} days since last session (-${decay}% on all exercises)`);
+  } else if (lastSession.trainingData.deload) {
+    reasons.push('Deload week done — back to working loads');
+  }
+
+  // Deload weeks already ease off; otherwise a rising load holds progression
+  const deload =
+    decay === 0 &&
+    !lastSession.trainingData.deload &&
+    getTrainingRunDays(history, now) >= DELOAD_AFTER_DAYS;
+  const loadZone = deload ? null : workload?.zone;
+  const holdProgression = loadZone === 'high' || loadZone === 'spike';
+  let progressionHeld = false;
+
+  // Step 2: Per-exercise progression from its regular sessions
+  const exercises = lastSession.trainingData.exercises.flatMap((lastBlock) => {
+    const exercise = catalog.find((e) => e.id === lastBlock.exercise.id);
+    if (!exercise) {
+      return [];
+    }
+
+    // Regular sessions with this exercise, newest first
+    const occurrences = regular.flatMap((session) => {
+      const block = session.trainingData.exercises.find((b) => b.id === lastBlock.id);
+      return block ? [{ data: session.trainingData, block }] : [];
+    });
+    const base = occurrences[0]?.block.load ?? lastBlock.load;
+
+    let misses = 0;
+    for (const { data, block } of occurrences) {
+      if (!getHoldReason(data, block)?.miss) break;
+      misses++;
+    }
+    const completion = getWeightedAverage(
+      occurrences.map(({ data, block }) => getCompletion(data, block))
+    );
+    if (occurrences.length > 0) {
+      metrics.push({
+        exerciseId: exercise.id,
+        sessions: occurrences.length,
+        baseLoad: base,
+        weightedCompletion: completion,
+        consecutiveMisses: misses,
+      });
+    }
+
+    if (decay > 0) {
+      return [{ exercise, load: reduceLoad(base, decay, exercise) }];
+    }
+    if (occurrences.length === 0) {
+      return [{ exercise, load: base }];
+    }
+
+    const hold = getHoldReason(occurrences[0].data, occurrences[0].block);
+    if (!hold && holdProgression) {
+      progressionHeld = true;
+      return [{ exercise, load: base }];
+    }
+    if (!hold) {
+      reasons.push(`${exercise.name} ${formatChange(exercise.increment, exercise)}`);
+      return [{ exercise, load: base + exercise.increment }];
+    }
+
+    if (
+      hold.miss &&
+      misses >= MISSES_BEFORE_REGRESSION &&
+      completion < REGRESSION_COMPLETION &&
+      base > 0
+    ) {
+      const load = reduceLoad(base, REGRESSION_PERCENT, exercise);
+      reasons.push(
+        `${exercise.name} ${formatChange(load - base, exercise)} (missed ${misses} sessions in a row, ${Math.round(completion)}% of sets done)`
+      );
+      return [{ exercise, load }];
+    }
+
+    reasons.push(`${exercise.name} same (${hold.note})`);
+    return [{ exercise, load: base }];
+  });
+
+  // Step 3: Deload week after a run of continuous training,
+  // or less load after a spike across both session types
+  const ratio = (workload?.ratio ?? 0).toFixed(2);
+  let reduction = 0;
+  if (deload) {
+    reduction = DELOAD_PERCENT;
+    reasons.push(`Deload week after 3 weeks of training (-${DELOAD_PERCENT}%)`);
+  } else if (loadZone === 'spike') {
+    reduction = LOAD_SPIKE_PERCENT;
+    reasons.push(`Load spike (${ratio}×): no increases, -${LOAD_SPIKE_PERCENT}% on all exercises`);
+  } else if (progressionHeld) {
+    reasons.push(`Load rising (${ratio}×): no increases`);
   }
 
   return {
-    hangWeight: newHangWeight,
-    pullupWeight: newPullupWeight,
-    benchWeight: newBenchWeight,
-    trapBarWeight: newTrapBarWeight,
-    reason,
+    exercises:
+      reduction > 0
+        ? exercises.map(({ exercise, load }) => ({
+            exercise,
+            load: load > 0 ? reduceLoad(load, reduction, exercise) : load,
+          }))
+        : exercises,
+    deload,
+    metrics,
+    daysSinceLastSession,
+    reason: reasons.length > 0 ? reasons.join(', ') : 'No changes — maintain weights',
   };
 }
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import type { Session } from '../models/Session';
+import type { AttemptResult } from '../models/BoulderAttempt';
+import { BUILT_IN_EXERCISES } from '../models/Exercise';
+import { V_SCALE } from '../models/GradeScale';
+import { createPyramidSession, createTrainingSession } from './SessionFactory';
+import { getPeriodStart, getTrainingReport, shiftPeriod } from './TrainingReport';
+
+const MINUTE_MS = 1000 * 60;
+
+const trapbar = BUILT_IN_EXERCISES[3];
+
+/**
+ * A finished session of 10 V-scale boulders at one level with the given
+ * results, the rest sent.
+ */
+function volumeSession(
+  date: Date,
+  level: number,
+  results: AttemptResult[] = [],
+  minutes = 60
+): Session {
+  const session = createPyramidSession([{ level, boulderCount: 10 }], V_SCALE.id, date);
+  return {
+    ...session,
+    isFinished: true,
+    endTime: new Date(date.getTime() + minutes * MINUTE_MS),
+    attempts: session.attempts.map((a, i) => ({ ...a, result: results[i] ?? 'done' })),
+  };
+}
+
+/**
+ * A finished training session of trap bar deadlifts with every set done.
+ */
+function trainingSession(date: Date, load: number, minutes = 30): Session {
+  const session = createTrainingSession([{ exercise: trapbar, load }], undefined, date);
+  return {
+    ...session,
+    isFinished: true,
+    endTime: new Date(date.getTime() + minutes * MINUTE_MS),
+    trainingData: {
+      ...session.trainingData,
+      exercises: session.trainingData.exercises.map((block) => ({
+        ...block,
+        sets: block.sets.map((set) => ({ ...set, completed: true })),
+      })),
+    },
+  };
+}
+
+describe('report periods', () => {
+  it('start on Monday or the 1st', () => {
+    // Sunday, Oct 18, 2026
+    const date = new Date(2026, 9, 18, 12);
+    expect(getPeriodStart('week', date)).toEqual(new Date(2026, 9, 12));
+    expect(getPeriodStart('month', date)).toEqual(new Date(2026, 9, 1));
+  });
+
+  it('shift by whole periods', () => {
+    expect(shiftPeriod('week', new Date(2026, 9, 18), 1)).toEqual(new Date(2026, 9, 19));
+    expect(shiftPeriod('week', new Date(2026, 9, 18), -2)).toEqual(new Date(2026, 8, 28));
+    expect(shiftPeriod('month', new Date(2027, 0, 31), -1)).toEqual(new Date(2026, 11, 1));
+  });
+});
+
+describe('getTrainingReport', () => {
+  const sessions = [
+    // Previous week
+    volumeSession(new Date(2026, 9, 5, 18), 5, ['flash', 'flash', 'flash']),
+    trainingSession(new Date(2026, 9, 7, 18), 40),
+    // Week of Oct 12
+    volumeSession(new Date(2026, 9, 13, 18), 6, ['flash', 'flash', 'onsight', 'flash', 'fail']),
+    trainingSession(new Date(2026, 9, 15, 18), 45),
+    { ...volumeSession(new Date(2026, 9, 16, 18), 9), isFinished: false },
+    // Next week
+    volumeSession(new Date(2026, 9, 19, 18), 7),
+  ];
+
+  it('sums the sessions of the period', () => {
+    const report = getTrainingReport(sessions, 'week', new Date(2026, 9, 14));
+
+    expect(report.volumeSessions).toBe(1);
+    expect(report.trainingSessions).toBe(1);
+    expect(report.boulders).toBe(10);
+    expect(report.sends).toBe(9);
+    expect(report.flashes).toBe(4);
+    expect(report.sendRate).toBe(90);
+    expect(report.duration).toBe(90 * MINUTE_MS);
+    expect(report.levels.map((l) => [l.label, l.boulders, l.sendRate])).toEqual([['V4', 10, 90]]);
+    expect(report.exercises).toEqual([
+      { id: 'trapbar', name: trapbar.name, unit: 'kg', sets: 5, reps: 15, volume: 675 },
+    ]);
+  });
+
+  it('lists the records beaten in the period', () => {
+    const report = getTrainingReport(sessions, 'week', new Date(2026, 9, 14));
+    expect(report.records.map((r) => `${r.record.label} was ${r.previous.label}`)).toEqual([
+      'V4 was V3',
+      '4 flashes was 3 flashes',
+      '45kg was 40kg',
+    ]);
+  });
+
+  it('covers whole months and is empty without sessions', () => {
+    const month = getTrainingReport(sessions, 'month', new Date(2026, 9, 14));
+    expect(month.volumeSessions).toBe(3);
+    expect(month.levels.map((l) => l.label)).toEqual(['V3', 'V4', 'V5']);
+
+    const empty = getTrainingReport(sessions, 'month', new Date(2026, 10, 14));
+    expect(empty.boulders).toBe(0);
+    expect(empty.sendRate).toBeNull();
+    expect(empty.records).toEqual([]);
+  });
+});
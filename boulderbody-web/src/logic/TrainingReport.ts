@@ -0,0 +1,272 @@
+/**
+ * TrainingReport.ts
+ *
+ * Summary of the finished sessions of one week or month, for the report view:
+ * - Sessions by type and time spent
+ * - Boulders and send rates per level
+ * - Training volume (reps × load) per exercise
+ * - Personal records set in the period
+ * Reports of consecutive periods can be compared to each other.
+ */
+
+import type { Session, VolumeSession, TrainingSession } from '../models/Session';
+import {
+  isVolumeSession,
+  isTrainingSession,
+  splitByLevel,
+  getFailRate,
+  getAttemptCounts,
+  getSessionDurationMs,
+} from '../models/Session';
+import { getSessionExercise } from '../models/SessionType';
+import type { GradeScale } from '../models/GradeScale';
+import { BUILT_IN_SCALES, LEVEL_SCALE, getGradeLabel } from '../models/GradeScale';
+import type { NewRecord } from './PersonalRecords';
+import { getNewRecords } from './PersonalRecords';
+import { startOfWeek } from './ProgressStats';
+
+/**
+ * Length of a report period.
+ */
+export type ReportPeriod = 'week' | 'month';
+
+/**
+ * Boulders climbed at one level of one scale.
+ */
+export interface LevelReport {
+  scale: GradeScale;
+
+  /** 1-indexed level within the scale */
+  level: number;
+
+  /** Grade label, e.g. "6B+" */
+  label: string;
+
+  /** Boulders counted (open-ended sessions: the ones logged) */
+  boulders: number;
+
+  /** Boulders sent */
+  sends: number;
+
+  /** Sends / boulders (percent) */
+  sendRate: number;
+}
+
+/**
+ * Work done on one exercise.
+ */
+export interface ExerciseReport {
+  /** Exercise ID */
+  id: string;
+
+  /** Exercise name (from the most recent session) */
+  name: string;
+
+  /** Load unit, e.g. "kg" */
+  unit: string;
+
+  /** Sets completed */
+  sets: number;
+
+  /** Reps of the completed sets */
+  reps: number;
+
+  /** Reps × load of the completed sets */
+  volume: number;
+}
+
+/**
+ * Everything done in one period.
+ */
+export interface TrainingReport {
+  period: ReportPeriod;
+
+  /** First day of the period (00:00) */
+  start: Date;
+
+  /** First day of the next period (exclusive) */
+  end: Date;
+
+  volumeSessions: number;
+  trainingSessions: number;
+
+  /** Boulders counted across volume sessions */
+  boulders: number;
+
+  /** Boulders sent */
+  sends: number;
+
+  /** Flashes and onsights */
+  flashes: number;
+
+  /** Sends / boulders (percent, null without boulders) */
+  sendRate: number | null;
+
+  /** Per level, by scale and then from easiest to hardest */
+  levels: LevelReport[];
+
+  /** Per exercise, in order of first appearance */
+  exercises: ExerciseReport[];
+
+  /** Time spent in sessions (milliseconds) */
+  duration: number;
+
+  /** Records set in the period, oldest first */
+  records: NewRecord[];
+}
+
+/**
+ * First day of the period a date falls in (Monday or the 1st).
+ * @param period Week or month
+ * @param date Any date in the period
+ */
+export function getPeriodStart(period: ReportPeriod, date: Date): Date {
+  return period === 'week'
+    ? startOfWeek(date)
+    : new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+/**
+ * First day of the period some periods before or after a date's period.
+ * @param period Week or month
+ * @param date Any date in the period
+ * @param offset Periods to move (negative: earlier)
+ */
+export function shiftPeriod(period: ReportPeriod, date: Date, offset: number): Date {
+  const start = getPeriodStart(period, date);
+  return period === 'week'
+    ? new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset * 7)
+    : new Date(start.getFullYear(), start.getMonth() + offset, 1);
+}
+
+/**
+ * Boulders a volume session (or level block) counted.
+ */
+function getBoulderCount(session: VolumeSession): number {
+  const counts = getAttemptCounts(session);
+  return session.openEnded ? session.attempts.length - counts.unlogged : session.boulderCount;
+}
+
+/**
+ * Add a volume session's boulders to the per-level totals.
+ */
+function addLevels(levels: LevelReport[], session: VolumeSession, scales: GradeScale[]): void {
+  const scale = scales.find((s) => s.id === session.gradeScale) ?? LEVEL_SCALE;
+
+  for (const block of splitByLevel(session)) {
+    const boulders = getBoulderCount(block);
+    if (boulders === 0) continue;
+    const sends = Math.round(boulders * (1 - getFailRate(block) / 100));
+
+    const existing = levels.find((l) => l.scale.id === scale.id && l.level === block.targetLevel);
+    if (existing) {
+      existing.boulders += boulders;
+      existing.sends += sends;
+    } else {
+      levels.push({
+        scale,
+        level: block.targetLevel,
+        label: getGradeLabel(scale, block.targetLevel),
+        boulders,
+        sends,
+        sendRate: 0,
+      });
+    }
+  }
+}
+
+/**
+ * Add a training session's completed sets to the per-exercise totals.
+ */
+function addExercises(exercises: ExerciseReport[], session: TrainingSession): void {
+  for (const block of session.trainingData.exercises) {
+    const { reps } = getSessionExercise(session.trainingData, block);
+    const done = block.sets.filter((s) => s.completed);
+    const setReps = done.map((s) => s.repsCompleted ?? reps);
+    const volume = done.reduce((sum, s, i) => sum + setReps[i] * (s.load ?? block.load), 0);
+    const total = setReps.reduce((sum, r) => sum + r, 0);
+
+    const existing = exercises.find((e) => e.id === block.exercise.id);
+    if (existing) {
+      existing.name = block.exercise.name;
+      existing.unit = block.exercise.unit;
+      existing.sets += done.length;
+      existing.reps += total;
+      existing.volume += volume;
+    } else {
+      exercises.push({
+        id: block.exercise.id,
+        name: block.exercise.name,
+        unit: block.exercise.unit,
+        sets: done.length,
+        reps: total,
+        volume,
+      });
+    }
+  }
+}
+
+/**
+ * Build the report of the period a date falls in.
+ * @param sessions All sessions (unfinished ones are ignored; earlier ones
+ *   are needed to tell which records were beaten)
+ * @param period Week or month
+ * @param date Any date in the period
+ * @param scales Known grade scales (for grade labels and records)
+ * @returns Totals of the period
+ */
+export function getTrainingReport(
+  sessions: Session[],
+  period: ReportPeriod,
+  date: Date,
+  scales: GradeScale[] = BUILT_IN_SCALES
+): TrainingReport {
+  const start = getPeriodStart(period, date);
+  const end = shiftPeriod(period, date, 1);
+  const inPeriod = sessions
+    .filter(
+      (s) =>
+        s.isFinished &&
+        s.date.getTime() >= start.getTime() &&
+        s.date.getTime() < end.getTime()
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  const volumeSessions = inPeriod.filter(isVolumeSession);
+  const trainingSessions = inPeriod.filter(isTrainingSession);
+
+  const levels: LevelReport[] = [];
+  let flashes = 0;
+  for (const session of volumeSessions) {
+    addLevels(levels, session, scales);
+    const counts = getAttemptCounts(session);
+    flashes += counts.flash + counts.onsight;
+  }
+  for (const level of levels) {
+    level.sendRate = (level.sends / level.boulders) * 100;
+  }
+  levels.sort((a, b) => a.scale.id.localeCompare(b.scale.id) || a.level - b.level);
+
+  const exercises: ExerciseReport[] = [];
+  for (const session of trainingSessions) {
+    addExercises(exercises, session);
+  }
+
+  const boulders = levels.reduce((sum, l) => sum + l.boulders, 0);
+  const sends = levels.reduce((sum, l) => sum + l.sends, 0);
+
+  return {
+    period,
+    start,
+    end,
+    volumeSessions: volumeSessions.length,
+    trainingSessions: trainingSessions.length,
+    boulders,
+    sends,
+    flashes,
+    sendRate: boulders > 0 ? (sends / boulders) * 100 : null,
+    levels,
+    exercises,
+    duration: inPeriod.reduce((sum, s) => sum + (getSessionDurationMs(s) ?? 0), 0),
+    records: inPeriod.flatMap((s) => getNewRecords(s, sessions, scales)),
+  };
+}
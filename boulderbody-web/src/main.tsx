@@ -2,9 +2,21 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { describeStorageError, initializeStorage } from './logic/StorageManager'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
+function render(loadError?: string) {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App loadError={loadError} />
+    </StrictMode>,
+  )
+}
+
+// Sessions are loaded into memory before the first render
+initializeStorage().then(
+  () => render(),
+  (error) => {
+    console.error('Failed to load sessions:', error)
+    render(describeStorageError(error))
+  },
 )
@@ -1,11 +1,57 @@
 /**
  * Result of a boulder attempt.
- * - flash: Climbed on first try
+ * - onsight: Climbed on first try without any beta
+ * - flash: Climbed on first try with beta (beta flash)
  * - done: Completed after multiple tries
+ * - zone: Not completed, but reached the zone hold or a clear highpoint
  * - fail: Could not complete
  * - undefined: Not yet logged
  */
-export type AttemptResult = 'flash' | 'done' | 'fail';
+export type AttemptResult = 'onsight' | 'flash' | 'done' | 'zone' | 'fail';
+
+/**
+ * All results, from best to worst.
+ */
+export const ATTEMPT_RESULTS: AttemptResult[] = ['onsight', 'flash', 'done', 'zone', 'fail'];
+
+/**
+ * Whether the result means the boulder was topped.
+ */
+export function isSend(result: AttemptResult | undefined): boolean {
+  return result === 'onsight' || result === 'flash' || result === 'done';
+}
+
+/**
+ * Structured style tags for a boulder.
+ */
+export type HoldType = 'crimp' | 'sloper' | 'pinch' | 'pocket';
+export type WallAngle = 'slab' | 'vertical' | 'overhang' | 'roof';
+export type MovementStyle = 'dyno' | 'compression' | 'technical';
+export type BoulderTag = HoldType | WallAngle | MovementStyle;
+
+/**
+ * A group of related tags.
+ * Single-select groups allow at most one tag per boulder (a wall has one angle).
+ */
+export interface TagGroup {
+  label: string;
+  tags: BoulderTag[];
+  singleSelect: boolean;
+}
+
+/**
+ * Tag groups in display order.
+ */
+export const TAG_GROUPS: TagGroup[] = [
+  { label: 'Holds', tags: ['crimp', 'sloper', 'pinch', 'pocket'], singleSelect: false },
+  { label: 'Wall Angle', tags: ['slab', 'vertical', 'overhang', 'roof'], singleSelect: true },
+  { label: 'Movement', tags: ['dyno', 'compression', 'technical'], singleSelect: false },
+];
+
+/**
+ * All valid tags.
+ */
+export const BOULDER_TAGS: BoulderTag[] = TAG_GROUPS.flatMap((group) => group.tags);
 
 /**
  * Represents a single boulder attempt within a session.
@@ -17,12 +63,24 @@ export interface BoulderAttempt {
   /** Order within the session (1-indexed) */
   order: number;
 
+  /** Level of this boulder in a pyramid session (undefined = the session's targetLevel) */
+  level?: number;
+
   /** Result of the attempt (undefined if not yet logged) */
   result?: AttemptResult;
 
+  /** Number of tries on this boulder (optional, 1 for onsight/flash) */
+  tries?: number;
+
   /** Optional comment/note about this boulder */
   comment?: string;
 
+  /** Style tags (hold types, wall angle, movement) */
+  tags?: BoulderTag[];
+
+  /** ID of the project this boulder is (undefined if not a project) */
+  projectId?: string;
+
   /** When this attempt was logged (undefined if not yet logged) */
   timestamp?: Date;
 }
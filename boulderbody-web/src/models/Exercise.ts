@@ -0,0 +1,132 @@
+/**
+ * Exercise.ts
+ *
+ * Exercise definitions for training sessions.
+ * The catalog holds the built-in lifts plus any exercises the user adds;
+ * sessions keep a snapshot of each exercise so later catalog edits don't
+ * change past sessions.
+ */
+
+/**
+ * How a set is performed: held for a time (hangs, levers) or counted in reps.
+ */
+export type ExerciseKind = 'timed' | 'reps';
+
+export const EXERCISE_KINDS: ExerciseKind[] = ['timed', 'reps'];
+
+/**
+ * A trainable exercise and its protocol.
+ */
+export interface Exercise {
+  /** Unique identifier, stored on sets */
+  id: string;
+
+  /** Display name, e.g. "Max Hangs" */
+  name: string;
+
+  /** Unit of the load, e.g. "kg" */
+  unit: string;
+
+  /** Timed holds or counted reps */
+  kind: ExerciseKind;
+
+  /** Sets per session */
+  sets: number;
+
+  /** Reps per set */
+  reps: number;
+
+  /** Seconds per rep (timed exercises only) */
+  duration?: number;
+
+  /** Rest between reps of a set in seconds (timed exercises only) */
+  repRest?: number;
+
+  /** Rest between sets in seconds */
+  rest: number;
+
+  /** Load added after a session with every set completed */
+  increment: number;
+
+  /** Starting load for the first session */
+  defaultLoad: number;
+
+  /** Whether this exercise ships with the app (built-in exercises can't be edited) */
+  builtIn?: boolean;
+}
+
+/**
+ * Exercises that ship with the app, in display order.
+ * Based on standard max strength training principles:
+ * - Max hangs: 7 seconds × 3 reps (3s between reps) with 3 min rest
+ * - Max pull-ups: 3 reps with 3 min rest
+ * - Bench press: 3 reps with 3 min rest
+ * - Trap bar deadlift: 3 reps with 3 min rest
+ */
+export const BUILT_IN_EXERCISES: Exercise[] = [
+  {
+    id: 'hang',
+    name: 'Max Hangs',
+    unit: 'kg',
+    kind: 'timed',
+    sets: 5,
+    reps: 3,
+    duration: 7,
+    repRest: 3,
+    rest: 180,
+    increment: 1, // Microplates
+    defaultLoad: 0, // Bodyweight (0kg added)
+    builtIn: true,
+  },
+  {
+    id: 'pullup',
+    name: 'Max Pull-ups',
+    unit: 'kg',
+    kind: 'reps',
+    sets: 5,
+    reps: 3,
+    rest: 180,
+    increment: 2.5,
+    defaultLoad: 0,
+    builtIn: true,
+  },
+  {
+    id: 'bench',
+    name: 'Bench Press',
+    unit: 'kg',
+    kind: 'reps',
+    sets: 5,
+    reps: 3,
+    rest: 180,
+    increment: 2.5,
+    defaultLoad: 10,
+    builtIn: true,
+  },
+  {
+    id: 'trapbar',
+    name: 'Trap Bar Deadlift',
+    unit: 'kg',
+    kind: 'reps',
+    sets: 5,
+    reps: 3,
+    rest: 180,
+    increment: 5,
+    defaultLoad: 20,
+    builtIn: true,
+  },
+];
+
+/**
+ * Short protocol description, e.g. "5 sets of 7s/3s × 3" (hang/rest between
+ * reps), "5 sets of 10s × 1" or "5 sets of 3 reps".
+ */
+export function describeExercise(exercise: Exercise): string {
+  if (exercise.kind !== 'timed') {
+    return `${exercise.sets} sets of ${exercise.reps} reps`;
+  }
+  const timing =
+    exercise.repRest && exercise.reps > 1
+      ? `${exercise.duration ?? 0}s/${exercise.repRest}s`
+      : `${exercise.duration ?? 0}s`;
+  return `${exercise.sets} sets of ${timing} × ${exercise.reps}`;
+}
@@ -0,0 +1,182 @@
+/**
+ * GradeScale.ts
+ *
+ * Grading systems for volume sessions.
+ * A session's targetLevel is the 1-indexed position of its grade within the
+ * session's scale. Every grade carries a V-scale equivalent, which serves as
+ * the conversion table between scales.
+ */
+
+/**
+ * A single grade within a scale.
+ */
+export interface Grade {
+  /** Display label, e.g. "V4", "6B+" or "Blue" */
+  label: string;
+
+  /** V-scale equivalent used for conversion (VB = -1, V0 = 0, V1 = 1, ...) */
+  difficulty: number;
+}
+
+/**
+ * An ordered grading system, easiest grade first.
+ */
+export interface GradeScale {
+  /** Unique identifier, stored on sessions */
+  id: string;
+
+  /** Display name, e.g. "Fontainebleau" */
+  name: string;
+
+  /** Grades from easiest to hardest (empty for plain numeric levels) */
+  grades: Grade[];
+
+  /** Whether this scale ships with the app (built-in scales can't be edited) */
+  builtIn?: boolean;
+}
+
+/** ID of the original numeric level scale, used when a session has no scale */
+export const LEVEL_SCALE_ID = 'level';
+
+/**
+ * Plain numeric levels ("Level 1", "Level 2", ...) without a fixed meaning.
+ * Open-ended and not convertible to other scales.
+ */
+export const LEVEL_SCALE: GradeScale = {
+  id: LEVEL_SCALE_ID,
+  name: 'Levels',
+  grades: [],
+  builtIn: true,
+};
+
+/**
+ * Hueco V-scale: VB, V0 ... V17.
+ */
+export const V_SCALE: GradeScale = {
+  id: 'v-scale',
+  name: 'V-Scale',
+  grades: [
+    { label: 'VB', difficulty: -1 },
+    ...Array.from({ length: 18 }, (_, i) => ({ label: `V${i}`, difficulty: i })),
+  ],
+  builtIn: true,
+};
+
+/**
+ * Fontainebleau scale: 3 ... 9A, with approximate V-scale equivalents.
+ */
+export const FONT_SCALE: GradeScale = {
+  id: 'font',
+  name: 'Fontainebleau',
+  grades: [
+    { label: '3', difficulty: -1 },
+    { label: '4', difficulty: 0 },
+    { label: '4+', difficulty: 0.5 },
+    { label: '5', difficulty: 1 },
+    { label: '5+', difficulty: 2 },
+    { label: '6A', difficulty: 3 },
+    { label: '6A+', difficulty: 3.5 },
+    { label: '6B', difficulty: 4 },
+    { label: '6B+', difficulty: 4.5 },
+    { label: '6C', difficulty: 5 },
+    { label: '6C+', difficulty: 5.5 },
+    { label: '7A', difficulty: 6 },
+    { label: '7A+', difficulty: 7 },
+    { label: '7B', difficulty: 8 },
+    { label: '7B+', difficulty: 8.5 },
+    { label: '7C', difficulty: 9 },
+    { label: '7C+', difficulty: 10 },
+    { label: '8A', difficulty: 11 },
+    { label: '8A+', difficulty: 12 },
+    { label: '8B', difficulty: 13 },
+    { label: '8B+', difficulty: 14 },
+    { label: '8C', difficulty: 15 },
+    { label: '8C+', difficulty: 16 },
+    { label: '9A', difficulty: 17 },
+  ],
+  builtIn: true,
+};
+
+/**
+ * Scales that ship with the app, in display order.
+ */
+export const BUILT_IN_SCALES: GradeScale[] = [LEVEL_SCALE, V_SCALE, FONT_SCALE];
+
+/**
+ * Whether the scale is open-ended numeric levels (no labels, no conversion).
+ */
+export function isNumericScale(scale: GradeScale): boolean {
+  return scale.grades.length === 0;
+}
+
+/**
+ * Highest valid level for a scale (Infinity for numeric levels).
+ */
+export function getMaxLevel(scale: GradeScale): number {
+  return isNumericScale(scale) ? Infinity : scale.grades.length;
+}
+
+/**
+ * Display label for a level within a scale.
+ * Falls back to "Level N" for numeric scales and out-of-range levels.
+ * @param scale The scale the level belongs to
+ * @param level 1-indexed position within the scale
+ */
+export function getGradeLabel(scale: GradeScale, level: number): string {
+  return scale.grades[level - 1]?.label ?? `Level ${level}`;
+}
+
+/**
+ * V-scale equivalent of a level, or null if the scale can't be converted.
+ */
+export function getGradeDifficulty(scale: GradeScale, level: number): number | null {
+  return scale.grades[level - 1]?.difficulty ?? null;
+}
+
+/**
+ * Convert a level to the closest grade in another scale.
+ * Ties go to the easier grade.
+ * @returns 1-indexed level in the target scale, or null if either scale is numeric
+ */
+export function convertLevel(
+  level: number,
+  from: GradeScale,
+  to: GradeScale
+): number | null {
+  if (from.id === to.id) {
+    return level;
+  }
+
+  const difficulty = getGradeDifficulty(from, level);
+  if (difficulty === null || isNumericScale(to)) {
+    return null;
+  }
+
+  let best = 0;
+  to.grades.forEach((grade, i) => {
+    if (
+      Math.abs(grade.difficulty - difficulty) <
+      Math.abs(to.grades[best].difficulty - difficulty)
+    ) {
+      best = i;
+    }
+  });
+  return best + 1;
+}
+
+/**
+ * Labels of the closest grades in other scales, for comparing across scales.
+ * Numeric scales and the level's own scale are skipped.
+ * @returns e.g. ["V3", "6A"]; empty if the level can't be converted
+ */
+export function getEquivalentLabels(
+  scale: GradeScale,
+  level: number,
+  targets: GradeScale[]
+): string[] {
+  return targets.flatMap((target) => {
+    if (target.id === scale.id) return [];
+    const converted = convertLevel(level, scale, target);
+    return converted === null ? [] : [getGradeLabel(target, converted)];
+  });
+}
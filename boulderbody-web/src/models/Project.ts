@@ -0,0 +1,64 @@
+/**
+ * Project.ts
+ *
+ * A project is a named boulder worked on over several sessions.
+ * Attempts link to a project through their projectId.
+ */
+
+/**
+ * Hold colors used to identify a boulder at the gym.
+ */
+export type HoldColor =
+  | 'yellow'
+  | 'orange'
+  | 'red'
+  | 'pink'
+  | 'purple'
+  | 'blue'
+  | 'green'
+  | 'black'
+  | 'white';
+
+/**
+ * Swatch class for each hold color, in display order.
+ */
+export const HOLD_COLORS: Record<HoldColor, string> = {
+  yellow: 'bg-yellow-400',
+  orange: 'bg-orange-500',
+  red: 'bg-red-600',
+  pink: 'bg-pink-400',
+  purple: 'bg-purple-600',
+  blue: 'bg-blue-600',
+  green: 'bg-green-600',
+  black: 'bg-gray-900',
+  white: 'bg-white border border-gray-300',
+};
+
+/**
+ * A named boulder tracked across sessions.
+ */
+export interface Project {
+  /** Unique identifier */
+  id: string;
+
+  /** Name, e.g. "The blue roof in the cave" */
+  name: string;
+
+  /** Gym or crag where the boulder is */
+  gym?: string;
+
+  /** ID of the grade scale the grade refers to */
+  gradeScale?: string;
+
+  /** Grade (1-indexed within gradeScale) */
+  grade?: number;
+
+  /** Hold color */
+  color?: HoldColor;
+
+  /** Downscaled photo as a data URL */
+  photo?: string;
+
+  /** When the project was created */
+  createdAt: Date;
+}
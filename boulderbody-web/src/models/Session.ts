@@ -1,4 +1,5 @@
 import type { BoulderAttempt } from './BoulderAttempt';
+import { isSend } from './BoulderAttempt';
 import type { SessionType, TrainingData, TrainingSet } from './SessionType';
 
 // Re-export TrainingSet for convenience
@@ -24,6 +25,9 @@ interface BaseSession {
   /** Whether this session has been completed */
   isFinished: boolean;
 
+  /** When the session was moved to the trash (undefined if not deleted) */
+  deletedAt?: Date;
+
   /** Discriminator field for TypeScript type narrowing */
   sessionType: SessionType;
 }
@@ -35,12 +39,25 @@ interface BaseSession {
 export interface VolumeSession extends BaseSession {
   sessionType: 'volume';
 
-  /** Target difficulty level for this session */
+  /**
+   * Target difficulty level for this session (1-indexed grade within gradeScale).
+   * For pyramid and open-ended sessions this is the top level; each attempt
+   * carries its own level.
+   */
   targetLevel: number;
 
-  /** Total number of boulders to attempt */
+  /** ID of the grade scale targetLevel refers to (undefined = numeric levels) */
+  gradeScale?: string;
+
+  /** Total number of boulders to attempt (for open-ended sessions: boulders added so far) */
   boulderCount: number;
 
+  /**
+   * Open-ended mode: boulders are added as they are climbed instead of being
+   * created up front, and the session ends whenever the user finishes it.
+   */
+  openEnded?: boolean;
+
   /** Array of boulder attempts */
   attempts: BoulderAttempt[];
 }
@@ -79,16 +96,58 @@ export function isTrainingSession(session: Session): session is TrainingSession
 }
 
 /**
- * Calculate the duration of a session as a human-readable string.
- * @param session The session to calculate duration for
- * @returns Formatted duration string (e.g., "1h 23m" or "45m")
+ * A group of boulders at one level, the building block of a pyramid session.
  */
-export function getSessionDuration(session: Session): string {
-  if (!session.endTime) {
-    return 'In progress';
+export interface LevelBlock {
+  /** Difficulty level (1-indexed grade within the session's scale) */
+  level: number;
+
+  /** Number of boulders at this level */
+  boulderCount: number;
+}
+
+/**
+ * Level of an attempt, falling back to the session's target level.
+ */
+export function getAttemptLevel(session: VolumeSession, attempt: BoulderAttempt): number {
+  return attempt.level ?? session.targetLevel;
+}
+
+/**
+ * Split a volume session into one session per level, easiest level first.
+ * Each part keeps only that level's attempts, so the per-session stats
+ * (getFailRate, getAttemptCounts, getAverageTries) work per block.
+ * A single-level session is returned as is.
+ * @param session The volume session to split
+ * @returns The level blocks as volume sessions
+ */
+export function splitByLevel(session: VolumeSession): VolumeSession[] {
+  const levels = [...new Set(session.attempts.map((a) => getAttemptLevel(session, a)))];
+  if (levels.length <= 1) {
+    return [session];
   }
 
-  const ms = session.endTime.getTime() - session.startTime.getTime();
+  return levels
+    .sort((a, b) => a - b)
+    .map((level) => {
+      const attempts = session.attempts.filter((a) => getAttemptLevel(session, a) === level);
+      return { ...session, targetLevel: level, boulderCount: attempts.length, attempts };
+    });
+}
+
+/**
+ * Whether a volume session has boulders at more than one level.
+ */
+export function isPyramidSession(session: VolumeSession): boolean {
+  return splitByLevel(session).length > 1;
+}
+
+/**
+ * Format a duration as a human-readable string.
+ * @param ms Duration in milliseconds
+ * @returns Formatted duration string (e.g., "1h 23m" or "45m")
+ */
+export function formatDuration(ms: number): string {
   const hours = Math.floor(ms / 3600000);
   const minutes = Math.floor((ms % 3600000) / 60000);
 
@@ -98,34 +157,78 @@ export function getSessionDuration(session: Session): string {
   return `${minutes}m`;
 }
 
+/**
+ * Duration of a finished session in milliseconds (null while in progress).
+ */
+export function getSessionDurationMs(session: Session): number | null {
+  return session.endTime ? session.endTime.getTime() - session.startTime.getTime() : null;
+}
+
+/**
+ * Calculate the duration of a session as a human-readable string.
+ * @param session The session to calculate duration for
+ * @returns Formatted duration string (e.g., "1h 23m" or "45m")
+ */
+export function getSessionDuration(session: Session): string {
+  const ms = getSessionDurationMs(session);
+  return ms === null ? 'In progress' : formatDuration(ms);
+}
+
 /**
  * Calculate fail rate for a volume session.
- * Unlogged attempts count as fails (stricter approach).
+ * Every boulder that was not topped counts as a fail: fails, zones/highpoints
+ * and unlogged attempts (stricter approach).
+ * Open-ended sessions have no placeholders, so only logged boulders count there.
  * @param session The volume session to calculate fail rate for
  * @returns Fail rate as a percentage (0-100)
  */
 export function getFailRate(session: VolumeSession): number {
-  if (session.boulderCount === 0) {
+  const attempts = session.openEnded
+    ? session.attempts.filter((a) => a.result !== undefined)
+    : session.attempts;
+  const total = session.openEnded ? attempts.length : session.boulderCount;
+
+  if (total === 0) {
     return 0;
   }
 
-  const failCount = session.attempts.filter(
-    (a) => a.result === 'fail' || a.result === undefined
-  ).length;
+  const failCount = attempts.filter((a) => !isSend(a.result)).length;
 
-  return (failCount / session.boulderCount) * 100;
+  return (failCount / total) * 100;
 }
 
 /**
  * Get count of attempts by result type for a volume session.
  * @param session The volume session to count attempts for
- * @returns Object with counts for flash, done, fail, and unlogged attempts
+ * @returns Object with counts for each result and for unlogged attempts
  */
 export function getAttemptCounts(session: VolumeSession) {
   return {
+    onsight: session.attempts.filter((a) => a.result === 'onsight').length,
     flash: session.attempts.filter((a) => a.result === 'flash').length,
     done: session.attempts.filter((a) => a.result === 'done').length,
+    zone: session.attempts.filter((a) => a.result === 'zone').length,
     fail: session.attempts.filter((a) => a.result === 'fail').length,
     unlogged: session.attempts.filter((a) => a.result === undefined).length,
   };
 }
+
+/**
+ * Average number of tries per topped boulder.
+ * Onsights and flashes count as one try; other sends count only if their
+ * tries were recorded.
+ * @param session The volume session to average
+ * @returns Average tries, or null if no send has a known try count
+ */
+export function getAverageTries(session: VolumeSession): number | null {
+  const tries = session.attempts.flatMap((a) => {
+    if (a.result === 'onsight' || a.result === 'flash') return [1];
+    if (a.result === 'done' && a.tries !== undefined) return [a.tries];
+    return [];
+  });
+
+  if (tries.length === 0) {
+    return null;
+  }
+  return tries.reduce((sum, t) => sum + t, 0) / tries.length;
+}
@@ -1,65 +1,111 @@
 /**
  * SessionType.ts
  *
- * Defines training session data models and protocol constants.
- * Training sessions track max hangs and max pull-ups with structured sets.
+ * Defines training session data models.
+ * Training sessions track a list of exercises with structured sets.
  */
 
+import type { Exercise } from './Exercise';
+import type { TrainingProtocol } from './TrainingProtocol';
+import { applyProtocol } from './TrainingProtocol';
+
 export type SessionType = 'volume' | 'training';
 
 /**
  * Represents a single set within a training session.
- * Each training session has 10 sets total (5 hangs + 5 pull-ups).
  */
 export interface TrainingSet {
   id: string;
-  order: number; // 1-5 (per exercise)
-  exercise: 'hang' | 'pullup' | 'bench' | 'trapbar';
+  order: number; // 1-indexed (per exercise)
+  exercise: string; // Exercise ID
   completed: boolean;
+  repsCompleted?: number; // Reps done (all reps if absent)
+  load?: number; // Load actually used (the block's load if absent)
+  secondsHeld?: number; // Total seconds hung in a timed set
+  rpe?: number; // Rate of perceived exertion, 1-10
+  rir?: number; // Reps in reserve
   timestamp?: Date;
   notes?: string;
 }
 
+/**
+ * One exercise within a training session: its protocol, load and sets.
+ */
+export interface ExerciseBlock {
+  /** Same as the exercise ID (an exercise appears once per session) */
+  id: string;
+
+  /** Position within the session (1-indexed) */
+  order: number;
+
+  /** Snapshot of the exercise definition when the session was created */
+  exercise: Exercise;
+
+  /** Load in the exercise's unit (kg added for bodyweight exercises) */
+  load: number;
+
+  /** Sets in order */
+  sets: TrainingSet[];
+}
+
 /**
  * Training session data structure.
- * Tracks separate weights for all exercises, allowing independent progression.
+ * Each exercise carries its own load, allowing independent progression.
  */
 export interface TrainingData {
-  hangWeight: number; // kg added (0 = bodyweight)
-  pullupWeight: number; // kg added (0 = bodyweight)
-  benchWeight?: number; // default 10kg
-  trapBarWeight?: number; // default 20kg
-  hangSets: TrainingSet[]; // Always 5 sets
-  pullupSets: TrainingSet[]; // Always 5 sets
-  benchSets?: TrainingSet[]; // absent in old sessions
-  trapBarSets?: TrainingSet[];
+  exercises: ExerciseBlock[];
+  protocol?: TrainingProtocol; // Template snapshot; each exercise's own protocol if absent
+  deload?: boolean; // Lighter deload session (skipped when progressing loads)
 }
 
 /**
- * Training protocol constants.
- * Based on standard max strength training principles:
- * - Max hangs: 7 seconds × 3 reps with 3 min rest
- * - Max pull-ups: 3 reps with 3 min rest
- * - Bench press: 3 reps with 3 min rest
- * - Trap bar deadlift: 3 reps with 3 min rest
+ * RPE values offered when logging a set (RPE 10 = nothing left).
  */
-export const TRAINING_PROTOCOL = {
-  hangSets: 5,
-  hangDuration: 7, // seconds per hang
-  hangReps: 3, // hangs per set
-  pullupSets: 5,
-  pullupReps: 3, // pull-ups per set
-  benchSets: 5,
-  benchReps: 3,
-  trapBarSets: 5,
-  trapBarReps: 3,
-  restBetweenSets: 180, // 3 minutes in seconds
-} as const;
+export const RPE_VALUES = [6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10];
+
+/**
+ * Reps-in-reserve values offered when logging a set (RIR 0 = nothing left).
+ */
+export const RIR_VALUES = [0, 1, 2, 3, 4, 5];
+
+/**
+ * Returns true if the set was logged as an all-out effort (RPE 10 or RIR 0).
+ */
+export function isMaxEffort(set: TrainingSet): boolean {
+  return (set.rpe !== undefined && set.rpe >= 10) || set.rir === 0;
+}
+
+/**
+ * Returns true if the set was done with every rep.
+ * A set ended early (let go on a rep, fewer reps than planned) is done but partial.
+ */
+export function isSetComplete(set: TrainingSet, reps: number): boolean {
+  return set.completed && (set.repsCompleted === undefined || set.repsCompleted >= reps);
+}
+
+/**
+ * Returns true if all sets in the array are completed with every rep.
+ * Returns false if array is undefined, empty, or has incomplete or partial sets.
+ */
+export function isExerciseComplete(sets: TrainingSet[] | undefined, reps = 1): boolean {
+  return !!sets && sets.length > 0 && sets.every((s) => isSetComplete(s, reps));
+}
+
+/**
+ * The exercise of a block as performed in this session, with the session's
+ * protocol template (if any) applied.
+ */
+export function getSessionExercise(data: TrainingData, block: ExerciseBlock): Exercise {
+  return applyProtocol(block.exercise, data.protocol);
+}
 
 /**
- * Returns true if all sets in the array are completed.
- * Returns false if array is undefined, empty, or has incomplete sets.
+ * Count completed and total sets across all exercises of a session.
  */
-export function isExerciseComplete(sets: TrainingSet[] | undefined): boolean {
-  return !!sets && sets.length > 0 && sets.every((s) => s.completed);
+export function getTrainingProgress(data: TrainingData): { completed: number; total: number } {
+  const sets = data.exercises.flatMap((block) => block.sets);
+  return {
+    completed: sets.filter((s) => s.completed).length,
+    total: sets.length,
+  };
 }
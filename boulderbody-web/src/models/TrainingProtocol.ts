@@ -0,0 +1,125 @@
+/**
+ * TrainingProtocol.ts
+ *
+ * Protocol templates for training sessions.
+ * A template sets the sets, reps and timings for every exercise of a session,
+ * replacing each exercise's own protocol. Sessions keep a snapshot of the
+ * template they were started with.
+ */
+
+import type { Exercise } from './Exercise';
+
+/**
+ * Countdown before the first timed set when no template is used.
+ */
+export const DEFAULT_PREP_DURATION = 5;
+
+/**
+ * A named protocol applied to all exercises of a session.
+ */
+export interface TrainingProtocol {
+  /** Unique identifier */
+  id: string;
+
+  /** Display name, e.g. "Max hangs 10s" */
+  name: string;
+
+  /** Sets per exercise */
+  sets: number;
+
+  /** Reps per set */
+  reps: number;
+
+  /** Seconds per rep for timed exercises (hangs) */
+  hangDuration: number;
+
+  /** Rest between reps of a timed set in seconds (each exercise's own if absent) */
+  repRest?: number;
+
+  /** Rest between sets in seconds */
+  rest: number;
+
+  /** Get-ready countdown before the first timed set, in seconds */
+  prepDuration: number;
+
+  /** Whether this template ships with the app (built-in templates can't be edited) */
+  builtIn?: boolean;
+}
+
+/**
+ * Templates that ship with the app, in display order.
+ */
+export const BUILT_IN_PROTOCOLS: TrainingProtocol[] = [
+  {
+    id: 'max-hangs-7',
+    name: 'Max hangs 7s',
+    sets: 5,
+    reps: 3,
+    hangDuration: 7,
+    repRest: 3,
+    rest: 180,
+    prepDuration: DEFAULT_PREP_DURATION,
+    builtIn: true,
+  },
+  {
+    id: 'max-hangs-10',
+    name: 'Max hangs 10s',
+    sets: 5,
+    reps: 1,
+    hangDuration: 10,
+    rest: 180,
+    prepDuration: DEFAULT_PREP_DURATION,
+    builtIn: true,
+  },
+  {
+    id: 'repeaters-7-3',
+    name: 'Repeaters 7/3 ×6',
+    sets: 4,
+    reps: 6,
+    hangDuration: 7,
+    repRest: 3,
+    rest: 180,
+    prepDuration: DEFAULT_PREP_DURATION,
+    builtIn: true,
+  },
+  {
+    id: 'strength-5x5',
+    name: 'Strength 5×5',
+    sets: 5,
+    reps: 5,
+    hangDuration: 7,
+    repRest: 3,
+    rest: 180,
+    prepDuration: DEFAULT_PREP_DURATION,
+    builtIn: true,
+  },
+];
+
+/**
+ * An exercise as performed under a protocol template.
+ * Without a template the exercise keeps its own sets, reps and timings.
+ */
+export function applyProtocol(exercise: Exercise, protocol?: TrainingProtocol): Exercise {
+  if (!protocol) {
+    return exercise;
+  }
+
+  return {
+    ...exercise,
+    sets: protocol.sets,
+    reps: protocol.reps,
+    duration: exercise.kind === 'timed' ? protocol.hangDuration : exercise.duration,
+    repRest: exercise.kind === 'timed' ? (protocol.repRest ?? exercise.repRest) : exercise.repRest,
+    rest: protocol.rest,
+  };
+}
+
+/**
+ * Short template description, e.g. "5 × 3 · 7s hangs, 3s between reps · 180s rest".
+ */
+export function describeProtocol(protocol: TrainingProtocol): string {
+  const hangs = protocol.repRest
+    ? `${protocol.hangDuration}s hangs, ${protocol.repRest}s between reps`
+    : `${protocol.hangDuration}s hangs`;
+  return `${protocol.sets} × ${protocol.reps} · ${hangs} · ${protocol.rest}s rest`;
+}
@@ -3,14 +3,34 @@ import { useNavigate, useParams } from 'react-router-dom';
 import type { VolumeSession } from '../models/Session';
 import { isVolumeSession } from '../models/Session';
 import type { BoulderAttempt, AttemptResult } from '../models/BoulderAttempt';
-import { getAllSessions, updateSession, deleteSession } from '../logic/StorageManager';
+import { ATTEMPT_RESULTS } from '../models/BoulderAttempt';
+import {
+  getAllSessions,
+  updateSession,
+  deleteSession,
+  getSessionGradeLabel,
+  getGradeScale,
+} from '../logic/StorageManager';
+import { useSessionSync } from '../hooks/useSessionSync';
+import type { AttemptDetails } from '../components/BoulderLogModal';
 import { BoulderLogModal } from '../components/BoulderLogModal';
 import { ConfirmDialog } from '../components/ConfirmDialog';
-import { getAttemptCounts } from '../models/Session';
+import { SyncConflictBanner } from '../components/SyncConflictBanner';
+import { RESULT_STYLES, UNLOGGED_CELL_CLASS } from '../components/AttemptResultStyle';
+import {
+  getAttemptCounts,
+  getAttemptLevel,
+  getFailRate,
+  splitByLevel,
+} from '../models/Session';
+import { getGradeLabel, isNumericScale } from '../models/GradeScale';
+import { createAttempt } from '../logic/SessionFactory';
 
 /**
  * Active Session View - Live session logging interface.
  * Shows grid of boulders and allows logging attempts.
+ * Pyramid sessions get one grid per level; open-ended sessions add boulders
+ * one at a time instead of starting with a full grid.
  * Only handles volume sessions - training sessions use TrainingSessionView.
  */
 export function ActiveSessionView() {
@@ -22,6 +42,8 @@ export function ActiveSessionView() {
   );
   const [showFinishConfirm, setShowFinishConfirm] = useState(false);
   const [showBreakConfirm, setShowBreakConfirm] = useState(false);
+  // Level for the next boulder added to an open-ended session (null = same as the last one)
+  const [nextLevel, setNextLevel] = useState<number | null>(null);
 
   useEffect(() => {
     if (!sessionId) {
@@ -52,27 +74,50 @@ export function ActiveSessionView() {
     setSession(found);
   }, [sessionId, navigate]);
 
+  // Merge edits from other tabs into the session shown here
+  const { commit, conflicts, dismissConflicts } = useSessionSync(session, setSession, {
+    onRemoteDelete: () => navigate('/'),
+    onRemoteFinish: () => navigate(`/summary/${sessionId}`),
+  });
+
   if (!session) {
     return null; // Loading state
   }
 
-  const handleLogAttempt = (result: AttemptResult, comment?: string) => {
-    if (!selectedAttempt) return;
-
-    // Update the attempt
-    const updatedAttempts = session.attempts.map((a) =>
-      a.id === selectedAttempt.id
-        ? { ...a, result, comment, timestamp: new Date() }
-        : a
-    );
+  // Open-ended sessions keep boulderCount and the top level in step with their attempts
+  const withAttempts = (attempts: BoulderAttempt[]): VolumeSession => {
+    if (!session.openEnded) {
+      return { ...session, attempts };
+    }
 
-    const updatedSession = {
+    const levels = attempts.map((a) => getAttemptLevel(session, a));
+    return {
       ...session,
-      attempts: updatedAttempts,
+      attempts,
+      boulderCount: attempts.length,
+      targetLevel: levels.length > 0 ? Math.max(...levels) : session.targetLevel,
     };
+  };
+
+  const handleLogAttempt = (result: AttemptResult, details: AttemptDetails) => {
+    if (!selectedAttempt) return;
+
+    const logged = { ...selectedAttempt, result, ...details, timestamp: new Date() };
+    const isNew = !session.attempts.some((a) => a.id === selectedAttempt.id);
 
-    updateSession(updatedSession);
-    setSession(updatedSession);
+    // Update the attempt, or add it if it's a new boulder in an open-ended session
+    const updatedAttempts = isNew
+      ? [...session.attempts, logged]
+      : session.attempts.map((a) => (a.id === selectedAttempt.id ? logged : a));
+
+    commit(withAttempts(updatedAttempts));
+    setSelectedAttempt(null);
+  };
+
+  const handleRemoveAttempt = () => {
+    if (!selectedAttempt) return;
+
+    commit(withAttempts(session.attempts.filter((a) => a.id !== selectedAttempt.id)));
     setSelectedAttempt(null);
   };
 
@@ -100,10 +145,15 @@ export function ActiveSessionView() {
 
   const handleBreakSession = () => {
     deleteSession(session.id);
-    navigate('/');
+    navigate('/', { state: { trashedSessionId: session.id } });
   };
 
   const counts = getAttemptCounts(session);
+  const blocks = splitByLevel(session);
+  const scale = getGradeScale(session.gradeScale);
+  const lastAttempt = session.attempts.at(-1);
+  const newBoulderLevel =
+    nextLevel ?? (lastAttempt ? getAttemptLevel(session, lastAttempt) : session.targetLevel);
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
@@ -118,7 +168,7 @@ export function ActiveSessionView() {
               ← Back
             </button>
             <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
-              Level {session.targetLevel} Session
+              {getSessionGradeLabel(session)} Session
             </h1>
             <button
               onClick={() => setShowBreakConfirm(true)}
@@ -128,62 +178,112 @@ export function ActiveSessionView() {
             </button>
           </div>
 
+          <SyncConflictBanner conflicts={conflicts} onDismiss={dismissConflicts} />
+
           {/* Progress stats */}
-          <div className="grid grid-cols-4 gap-2 text-center text-sm">
-            <div className="bg-green-100 dark:bg-green-900/30 p-2 rounded">
-              <div className="font-bold text-green-800 dark:text-green-200">
-                {counts.flash}
+          <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 text-center text-sm">
+            {ATTEMPT_RESULTS.map((result) => (
+              <div key={result} className={`${RESULT_STYLES[result].tileClass} p-2 rounded`}>
+                <div className="font-bold">{counts[result]}</div>
+                <div className="opacity-80">{RESULT_STYLES[result].label}</div>
               </div>
-              <div className="text-green-600 dark:text-green-400">Flash</div>
-            </div>
-            <div className="bg-blue-100 dark:bg-blue-900/30 p-2 rounded">
-              <div className="font-bold text-blue-800 dark:text-blue-200">
-                {counts.done}
-              </div>
-              <div className="text-blue-600 dark:text-blue-400">Done</div>
-            </div>
-            <div className="bg-red-100 dark:bg-red-900/30 p-2 rounded">
-              <div className="font-bold text-red-800 dark:text-red-200">
-                {counts.fail}
-              </div>
-              <div className="text-red-600 dark:text-red-400">Fail</div>
-            </div>
+            ))}
             <div className="bg-gray-100 dark:bg-gray-700 p-2 rounded">
               <div className="font-bold text-gray-800 dark:text-gray-200">
-                {counts.unlogged}
+                {session.openEnded ? session.attempts.length : counts.unlogged}
+              </div>
+              <div className="text-gray-600 dark:text-gray-400">
+                {session.openEnded ? 'Boulders' : 'Unlogged'}
               </div>
-              <div className="text-gray-600 dark:text-gray-400">Unlogged</div>
             </div>
           </div>
         </div>
 
-        {/* Boulder grid */}
-        <div className="grid grid-cols-4 sm:grid-cols-5 md:grid-cols-6 gap-3 mb-6">
-          {session.attempts.map((attempt) => {
-            const bgColor = attempt.result
-              ? attempt.result === 'flash'
-                ? 'bg-green-600 text-white'
-                : attempt.result === 'done'
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-red-600 text-white'
-              : 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white border-2 border-gray-300 dark:border-gray-600';
-
-            return (
+        {/* Boulder grid, grouped by level for pyramid sessions */}
+        {blocks.map((block) => (
+          <div key={block.targetLevel} className="mb-6">
+            {blocks.length > 1 && (
+              <div className="flex justify-between items-baseline mb-2">
+                <h2 className="text-lg font-bold text-gray-900 dark:text-white">
+                  {getGradeLabel(scale, block.targetLevel)}
+                </h2>
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  {block.boulderCount - getAttemptCounts(block).unlogged}/{block.boulderCount}{' '}
+                  logged · {getFailRate(block).toFixed(0)}% fail
+                </span>
+              </div>
+            )}
+            <div className="grid grid-cols-4 sm:grid-cols-5 md:grid-cols-6 gap-3">
+              {block.attempts.map((attempt) => {
+                const bgColor = attempt.result
+                  ? RESULT_STYLES[attempt.result].buttonClass
+                  : UNLOGGED_CELL_CLASS;
+
+                return (
+                  <button
+                    key={attempt.id}
+                    onClick={() => setSelectedAttempt(attempt)}
+                    className={`${bgColor} rounded-lg p-4 min-h-[80px] font-bold text-lg hover:opacity-80 transition-opacity shadow`}
+                    title={
+                      attempt.result
+                        ? `#${attempt.order}: ${attempt.result}${attempt.tries ? ` in ${attempt.tries} tries` : ''}${attempt.comment ? ` - ${attempt.comment}` : ''}`
+                        : `Log boulder #${attempt.order}`
+                    }
+                  >
+                    {attempt.order}
+                    {attempt.tries !== undefined && attempt.tries > 1 && (
+                      <div className="text-xs font-normal opacity-80">
+                        {attempt.tries} tries
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        {/* Add boulder (open-ended sessions) */}
+        {session.openEnded && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-lg mb-6">
+            {session.attempts.length === 0 && (
+              <p className="text-center text-gray-500 dark:text-gray-400 mb-4">
+                Add each boulder after you try it. Finish whenever you're done.
+              </p>
+            )}
+            <div className="flex gap-3">
+              {isNumericScale(scale) ? (
+                <input
+                  type="number"
+                  min="1"
+                  value={newBoulderLevel}
+                  onChange={(e) => setNextLevel(parseInt(e.target.value) || 1)}
+                  className="w-28 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="Level of the next boulder"
+                />
+              ) : (
+                <select
+                  value={newBoulderLevel}
+                  onChange={(e) => setNextLevel(parseInt(e.target.value))}
+                  className="w-28 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="Grade of the next boulder"
+                >
+                  {scale.grades.map((grade, i) => (
+                    <option key={i} value={i + 1}>
+                      {grade.label}
+                    </option>
+                  ))}
+                </select>
+              )}
               <button
-                key={attempt.id}
-                onClick={() => setSelectedAttempt(attempt)}
-                className={`${bgColor} rounded-lg p-4 min-h-[80px] font-bold text-lg hover:opacity-80 transition-opacity shadow`}
-                title={
-                  attempt.result
-                    ? `#${attempt.order}: ${attempt.result}${attempt.comment ? ` - ${attempt.comment}` : ''}`
-                    : `Log boulder #${attempt.order}`
-                }
+                onClick={() => setSelectedAttempt(createAttempt(session, newBoulderLevel))}
+                className="flex-1 btn btn-primary"
               >
-                {attempt.order}
+                + Add Boulder
               </button>
-            );
-          })}
-        </div>
+            </div>
+          </div>
+        )}
 
         {/* Finish button */}
         <button
@@ -200,6 +300,12 @@ export function ActiveSessionView() {
           isOpen={true}
           attempt={selectedAttempt}
           onSubmit={handleLogAttempt}
+          onClear={
+            session.openEnded && session.attempts.some((a) => a.id === selectedAttempt.id)
+              ? handleRemoveAttempt
+              : undefined
+          }
+          clearLabel="Remove Boulder"
           onCancel={() => setSelectedAttempt(null)}
         />
       )}
@@ -219,7 +325,7 @@ export function ActiveSessionView() {
       <ConfirmDialog
         isOpen={showBreakConfirm}
         title="Break Session?"
-        message="Are you sure you want to end this session? It will be deleted and won't appear in your history."
+        message="Are you sure you want to end this session? It will be moved to the trash and won't appear in your history."
         confirmText="End Session"
         cancelText="Continue"
         variant="danger"
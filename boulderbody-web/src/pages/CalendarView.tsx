@@ -0,0 +1,307 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { CalendarDay, CalendarDayType } from '../logic/CalendarStats';
+import { getCalendarDays, getStreaks, startOfDay } from '../logic/CalendarStats';
+import { startOfWeek } from '../logic/ProgressStats';
+import { isVolumeSession } from '../models/Session';
+import { getAllSessions, getGradeScales, getSessionGradeLabel } from '../logic/StorageManager';
+
+const CARD_CLASS = 'bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg';
+
+const TITLE_CLASS = 'text-xl font-bold mb-4 text-gray-900 dark:text-white';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const EMPTY_DAY_CLASS = 'bg-gray-100 dark:bg-gray-700';
+
+// Per type, from light (intensity 1) to dark (intensity 4)
+const DAY_COLORS: Record<CalendarDayType, string[]> = {
+  volume: ['bg-blue-200', 'bg-blue-300', 'bg-blue-500', 'bg-blue-700'],
+  training: ['bg-purple-200', 'bg-purple-300', 'bg-purple-500', 'bg-purple-700'],
+  both: ['bg-emerald-200', 'bg-emerald-300', 'bg-emerald-500', 'bg-emerald-700'],
+};
+
+const TYPE_LEGEND: { type: CalendarDayType; label: string }[] = [
+  { type: 'volume', label: 'Volume' },
+  { type: 'training', label: 'Training' },
+  { type: 'both', label: 'Both' },
+];
+
+const HEATMAP_WEEKS = 53;
+
+/**
+ * Background class of a day by its session types and intensity.
+ */
+function getDayColor(day: CalendarDay): string {
+  return day.type ? DAY_COLORS[day.type][day.intensity - 1] : EMPTY_DAY_CLASS;
+}
+
+/**
+ * Split days into weeks of 7 (the last one may be shorter).
+ */
+function toWeeks(days: CalendarDay[]): CalendarDay[][] {
+  const weeks: CalendarDay[][] = [];
+  for (let i = 0; i < days.length; i += 7) {
+    weeks.push(days.slice(i, i + 7));
+  }
+  return weeks;
+}
+
+const countSessions = (days: CalendarDay[]) =>
+  days.reduce((sum, day) => sum + day.sessions.length, 0);
+
+const formatWeeks = (weeks: number) => `${weeks} ${weeks === 1 ? 'week' : 'weeks'}`;
+
+/**
+ * Calendar View - Finished sessions by day.
+ * A month grid and a year-long heatmap, colored by session type and
+ * intensity, with weekly and monthly counts and week streaks.
+ * Tapping a day opens its session (or lists them if there are several).
+ */
+export function CalendarView() {
+  const navigate = useNavigate();
+  const [sessions] = useState(() => getAllSessions().filter((s) => s.isFinished));
+  const [scales] = useState(getGradeScales);
+  const [now] = useState(Date.now);
+  const [month, setMonth] = useState(() => {
+    const today = new Date(now);
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [selectedDay, setSelectedDay] = useState<CalendarDay | null>(null);
+
+  const today = startOfDay(new Date(now));
+  const streaks = getStreaks(sessions, new Date(now));
+
+  // Month grid: whole weeks (Monday to Sunday) around the month
+  const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+  const gridStart = startOfWeek(month);
+  const lastWeek = startOfWeek(monthEnd);
+  const gridEnd = new Date(lastWeek.getFullYear(), lastWeek.getMonth(), lastWeek.getDate() + 6);
+  const monthWeeks = toWeeks(getCalendarDays(sessions, gridStart, gridEnd, scales));
+  const monthDays = monthWeeks.flat().filter((d) => d.date.getMonth() === month.getMonth());
+  const monthVolume = monthDays.flatMap((d) => d.sessions).filter(isVolumeSession).length;
+  const monthTotal = countSessions(monthDays);
+
+  // Heatmap: the last year up to today, one column per week
+  const thisWeek = startOfWeek(today);
+  const heatmapStart = new Date(
+    thisWeek.getFullYear(),
+    thisWeek.getMonth(),
+    thisWeek.getDate() - (HEATMAP_WEEKS - 1) * 7
+  );
+  const heatmapWeeks = toWeeks(getCalendarDays(sessions, heatmapStart, today, scales));
+  const thisWeekCount = countSessions(heatmapWeeks[heatmapWeeks.length - 1]);
+
+  const changeMonth = (offset: number) => {
+    setMonth(new Date(month.getFullYear(), month.getMonth() + offset, 1));
+    setSelectedDay(null);
+  };
+
+  const handleDayClick = (day: CalendarDay) => {
+    if (day.sessions.length === 1) {
+      navigate(`/summary/${day.sessions[0].id}`);
+    } else if (day.sessions.length > 1) {
+      setSelectedDay(day);
+    }
+  };
+
+  const formatDay = (date: Date) =>
+    date.toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+
+  const dayTitle = (day: CalendarDay) =>
+    `${formatDay(day.date)}: ${day.sessions.length} ${
+      day.sessions.length === 1 ? 'session' : 'sessions'
+    }`;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            ← Home
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Calendar</h1>
+          <div className="w-16" />
+        </div>
+
+        <div className="space-y-4">
+          {/* Streaks and counts */}
+          <div className={`${CARD_CLASS} grid grid-cols-3 gap-4 text-center`}>
+            <div>
+              <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                {formatWeeks(streaks.current)}
+              </div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Current streak</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                {formatWeeks(streaks.longest)}
+              </div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Longest streak</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                {thisWeekCount}
+              </div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Sessions this week</div>
+            </div>
+          </div>
+
+          {/* Month grid */}
+          <div className={CARD_CLASS}>
+            <div className="flex justify-between items-center mb-2">
+              <button
+                onClick={() => changeMonth(-1)}
+                className="px-3 py-1 rounded-lg text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                ‹
+              </button>
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+              </h2>
+              <button
+                onClick={() => changeMonth(1)}
+                className="px-3 py-1 rounded-lg text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                ›
+              </button>
+            </div>
+            <p className="text-sm text-center text-gray-500 dark:text-gray-400 mb-4">
+              {monthTotal} {monthTotal === 1 ? 'session' : 'sessions'} ({monthVolume} volume,{' '}
+              {monthTotal - monthVolume} training)
+            </p>
+
+            <div className="grid grid-cols-8 gap-1 text-center">
+              {WEEKDAYS.map((weekday) => (
+                <div key={weekday} className="text-xs text-gray-500 dark:text-gray-400">
+                  {weekday}
+                </div>
+              ))}
+              <div className="text-xs text-gray-500 dark:text-gray-400">Week</div>
+
+              {monthWeeks.map((week) => [
+                ...week.map((day) => (
+                  <button
+                    key={day.date.getTime()}
+                    onClick={() => handleDayClick(day)}
+                    disabled={day.sessions.length === 0}
+                    title={dayTitle(day)}
+                    className={`aspect-square rounded-md text-sm ${getDayColor(day)} ${
+                      day.intensity >= 3 ? 'text-white' : 'text-gray-900 dark:text-white'
+                    } ${day.date.getMonth() === month.getMonth() ? '' : 'opacity-40'} ${
+                      day.date.getTime() === today.getTime() ? 'ring-2 ring-gray-900 dark:ring-white' : ''
+                    } ${day.sessions.length > 0 ? 'hover:opacity-80' : 'cursor-default'}`}
+                  >
+                    {day.date.getDate()}
+                  </button>
+                )),
+                <div
+                  key={`week-${week[0].date.getTime()}`}
+                  className="flex items-center justify-center text-sm font-medium text-gray-500 dark:text-gray-400"
+                >
+                  {countSessions(week) || ''}
+                </div>,
+              ])}
+            </div>
+
+            {/* Sessions of a day with several */}
+            {selectedDay && (
+              <div className="mt-4 space-y-2">
+                <div className="flex justify-between items-center">
+                  <h3 className="font-medium text-gray-700 dark:text-gray-300">
+                    {formatDay(selectedDay.date)}
+                  </h3>
+                  <button
+                    onClick={() => setSelectedDay(null)}
+                    className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                  >
+                    Close
+                  </button>
+                </div>
+                {selectedDay.sessions.map((session) => (
+                  <button
+                    key={session.id}
+                    onClick={() => navigate(`/summary/${session.id}`)}
+                    className="w-full flex justify-between items-center p-3 rounded-lg bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 text-left transition-colors"
+                  >
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {isVolumeSession(session)
+                        ? getSessionGradeLabel(session)
+                        : 'Training Session'}
+                    </span>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      {session.date.toLocaleTimeString('en-US', {
+                        hour: 'numeric',
+                        minute: '2-digit',
+                      })}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Year heatmap */}
+          <div className={CARD_CLASS}>
+            <h2 className={TITLE_CLASS}>Last 12 Months</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              {countSessions(heatmapWeeks.flat())} sessions
+            </p>
+            <div className="overflow-x-auto">
+              <div className="flex gap-0.5 w-max">
+                {heatmapWeeks.map((week) => (
+                  <div key={week[0].date.getTime()} className="flex flex-col gap-0.5">
+                    {week.map((day) => (
+                      <button
+                        key={day.date.getTime()}
+                        onClick={() => handleDayClick(day)}
+                        disabled={day.sessions.length === 0}
+                        title={dayTitle(day)}
+                        className={`w-3 h-3 rounded-sm ${getDayColor(day)} ${
+                          day.sessions.length > 0 ? 'hover:opacity-80' : 'cursor-default'
+                        }`}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Legend */}
+            <div className="flex flex-wrap justify-between gap-4 mt-4 text-xs text-gray-500 dark:text-gray-400">
+              <div className="flex gap-3">
+                {TYPE_LEGEND.map((entry) => (
+                  <div key={entry.type} className="flex items-center gap-1">
+                    <span className={`w-3 h-3 rounded-sm ${DAY_COLORS[entry.type][2]}`} />
+                    {entry.label}
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center gap-1">
+                Lighter
+                {DAY_COLORS.volume.map((color) => (
+                  <span key={color} className={`w-3 h-3 rounded-sm ${color}`} />
+                ))}
+                Harder
+              </div>
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Darker days had more training load, compared to your hardest day. A streak counts
+            weeks in a row with at least one session.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
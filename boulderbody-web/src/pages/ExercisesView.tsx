@@ -0,0 +1,302 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { Exercise } from '../models/Exercise';
+import { EXERCISE_KINDS, describeExercise } from '../models/Exercise';
+import {
+  getExercises,
+  saveExercise,
+  saveExerciseIncrement,
+  deleteExercise,
+} from '../logic/StorageManager';
+import { ConfirmDialog } from '../components/ConfirmDialog';
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const LABEL_CLASS = 'block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300';
+
+type NumberField = 'sets' | 'reps' | 'duration' | 'repRest' | 'rest' | 'increment' | 'defaultLoad';
+
+/** Starting point for a new exercise */
+function newExercise(): Exercise {
+  return {
+    id: crypto.randomUUID(),
+    name: '',
+    unit: 'kg',
+    kind: 'reps',
+    sets: 5,
+    reps: 5,
+    rest: 120,
+    increment: 2.5,
+    defaultLoad: 0,
+  };
+}
+
+/**
+ * Exercises View - Exercise catalog for training sessions.
+ * Built-in lifts are read-only apart from their progression increment;
+ * custom exercises define their own protocol and increment.
+ */
+export function ExercisesView() {
+  const navigate = useNavigate();
+  const [exercises, setExercises] = useState<Exercise[]>(getExercises);
+  const [draft, setDraft] = useState<Exercise | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Exercise | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const numberFields: { key: NumberField; label: string }[] = [
+    { key: 'sets', label: 'Sets' },
+    { key: 'reps', label: 'Reps per set' },
+    ...(draft?.kind === 'timed'
+      ? [
+          { key: 'duration' as const, label: 'Seconds per rep' },
+          { key: 'repRest' as const, label: 'Rest between reps (s)' },
+        ]
+      : []),
+    { key: 'rest', label: 'Rest between sets (s)' },
+    { key: 'increment', label: `Increment (${draft?.unit ?? 'kg'})` },
+    { key: 'defaultLoad', label: `Starting load (${draft?.unit ?? 'kg'})` },
+  ];
+
+  const handleSave = () => {
+    if (!draft) return;
+
+    try {
+      if (draft.builtIn) {
+        saveExerciseIncrement(draft.id, draft.increment);
+      } else {
+        saveExercise({
+          ...draft,
+          name: draft.name.trim(),
+          unit: draft.unit.trim(),
+          duration: draft.kind === 'timed' ? draft.duration : undefined,
+          repRest: draft.kind === 'timed' ? draft.repRest : undefined,
+        });
+      }
+      setExercises(getExercises());
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save exercise.');
+    }
+  };
+
+  const confirmDelete = () => {
+    if (!deleteTarget) return;
+    deleteExercise(deleteTarget.id);
+    setExercises(getExercises());
+    setDeleteTarget(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            ← Home
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Exercises
+          </h1>
+          <button
+            onClick={() => setDraft(newExercise())}
+            disabled={!!draft}
+            className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium disabled:opacity-40"
+          >
+            + Exercise
+          </button>
+        </div>
+
+        {/* Built-in exercise increment form */}
+        {draft?.builtIn && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-6">
+            <h2 className="text-lg font-bold mb-4 text-gray-900 dark:text-white">
+              {draft.name}
+            </h2>
+            <label htmlFor="exercise-increment" className={LABEL_CLASS}>
+              Increment ({draft.unit})
+            </label>
+            <input
+              id="exercise-increment"
+              type="number"
+              min="0"
+              step="any"
+              value={draft.increment}
+              onChange={(e) => setDraft({ ...draft, increment: parseFloat(e.target.value) || 0 })}
+              className={`${INPUT_CLASS} mb-4`}
+            />
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  setDraft(null);
+                  setError(null);
+                }}
+                className="flex-1 btn btn-secondary"
+              >
+                Cancel
+              </button>
+              <button onClick={handleSave} className="flex-1 btn btn-primary">
+                Save Increment
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Custom exercise form */}
+        {draft && !draft.builtIn && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-6">
+            <div className="grid grid-cols-3 gap-3 mb-4">
+              <div className="col-span-2">
+                <label htmlFor="exerciseName" className={LABEL_CLASS}>
+                  Name
+                </label>
+                <input
+                  id="exerciseName"
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="E.g., Front Lever"
+                  className={INPUT_CLASS}
+                />
+              </div>
+              <div>
+                <label htmlFor="exerciseUnit" className={LABEL_CLASS}>
+                  Unit
+                </label>
+                <input
+                  id="exerciseUnit"
+                  type="text"
+                  value={draft.unit}
+                  onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+                  className={INPUT_CLASS}
+                />
+              </div>
+            </div>
+
+            <p className={LABEL_CLASS}>Type</p>
+            <div className="flex gap-2 mb-4">
+              {EXERCISE_KINDS.map((kind) => (
+                <button
+                  key={kind}
+                  onClick={() =>
+                    setDraft({
+                      ...draft,
+                      kind,
+                      duration: kind === 'timed' ? (draft.duration ?? 7) : draft.duration,
+                    })
+                  }
+                  className={`flex-1 btn ${draft.kind === kind ? 'btn-primary' : 'btn-secondary'}`}
+                >
+                  {kind === 'timed' ? 'Timed holds' : 'Reps'}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              {numberFields.map(({ key, label }) => (
+                <div key={key}>
+                  <label htmlFor={`exercise-${key}`} className={LABEL_CLASS}>
+                    {label}
+                  </label>
+                  <input
+                    id={`exercise-${key}`}
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={draft[key] ?? ''}
+                    onChange={(e) => setDraft({ ...draft, [key]: parseFloat(e.target.value) || 0 })}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  setDraft(null);
+                  setError(null);
+                }}
+                className="flex-1 btn btn-secondary"
+              >
+                Cancel
+              </button>
+              <button onClick={handleSave} className="flex-1 btn btn-primary">
+                Save Exercise
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Exercise list */}
+        <div className="space-y-3">
+          {exercises.map((exercise) => (
+            <div
+              key={exercise.id}
+              className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex justify-between items-start mb-2">
+                <div className="text-lg font-bold text-gray-900 dark:text-white">
+                  {exercise.name}
+                </div>
+                {exercise.builtIn ? (
+                  <button
+                    onClick={() => setDraft(exercise)}
+                    disabled={!!draft}
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 disabled:opacity-40"
+                  >
+                    Increment
+                  </button>
+                ) : (
+                  <div className="flex gap-3 text-sm">
+                    <button
+                      onClick={() => setDraft(exercise)}
+                      disabled={!!draft}
+                      className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 disabled:opacity-40"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => setDeleteTarget(exercise)}
+                      className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                {describeExercise(exercise)} · {exercise.rest}s rest · +{exercise.increment}
+                {exercise.unit} per progression
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Delete confirmation */}
+      <ConfirmDialog
+        isOpen={!!deleteTarget}
+        title="Delete Exercise"
+        message={`Delete "${deleteTarget?.name}"? Past sessions keep their sets; it won't be suggested for new sessions.`}
+        confirmText="Delete"
+        variant="danger"
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { Grade, GradeScale } from '../models/GradeScale';
+import { V_SCALE, isNumericScale } from '../models/GradeScale';
+import {
+  getGradeScales,
+  saveGradeScale,
+  deleteGradeScale,
+} from '../logic/StorageManager';
+import { ConfirmDialog } from '../components/ConfirmDialog';
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/** Starting point for a new gym circuit */
+function newCircuit(): GradeScale {
+  return {
+    id: crypto.randomUUID(),
+    name: '',
+    grades: [
+      { label: 'Yellow', difficulty: 0 },
+      { label: 'Green', difficulty: 2 },
+      { label: 'Blue', difficulty: 4 },
+      { label: 'Red', difficulty: 6 },
+    ],
+  };
+}
+
+/**
+ * Grade Scales View - Built-in grading systems and custom gym circuits.
+ * Custom circuits map each grade to a V-scale equivalent so sessions can be
+ * compared across scales.
+ */
+export function GradeScalesView() {
+  const navigate = useNavigate();
+  const [scales, setScales] = useState<GradeScale[]>(getGradeScales);
+  const [draft, setDraft] = useState<GradeScale | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<GradeScale | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateGrade = (index: number, changes: Partial<Grade>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      grades: draft.grades.map((g, i) => (i === index ? { ...g, ...changes } : g)),
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+
+    try {
+      saveGradeScale({
+        ...draft,
+        name: draft.name.trim(),
+        grades: draft.grades.filter((g) => g.label.trim()),
+      });
+      setScales(getGradeScales());
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save grade scale.');
+    }
+  };
+
+  const confirmDelete = () => {
+    if (!deleteTarget) return;
+    deleteGradeScale(deleteTarget.id);
+    setScales(getGradeScales());
+    setDeleteTarget(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            ← Home
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Grade Scales
+          </h1>
+          <button
+            onClick={() => setDraft(newCircuit())}
+            disabled={!!draft}
+            className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium disabled:opacity-40"
+          >
+            + Circuit
+          </button>
+        </div>
+
+        {/* Custom circuit form */}
+        {draft && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-6">
+            <label
+              htmlFor="scaleName"
+              className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300"
+            >
+              Name
+            </label>
+            <input
+              id="scaleName"
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="E.g., Boulderwelt circuit"
+              className={`${INPUT_CLASS} mb-4`}
+            />
+
+            <p className="text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
+              Grades (easiest first) and their V-scale equivalent
+            </p>
+            <div className="space-y-2 mb-3">
+              {draft.grades.map((grade, i) => (
+                <div key={i} className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    value={grade.label}
+                    onChange={(e) => updateGrade(i, { label: e.target.value })}
+                    className={INPUT_CLASS}
+                    aria-label={`Grade ${i + 1} label`}
+                  />
+                  <select
+                    value={grade.difficulty}
+                    onChange={(e) => updateGrade(i, { difficulty: parseFloat(e.target.value) })}
+                    className={`${INPUT_CLASS} w-28`}
+                    aria-label={`Grade ${i + 1} V-scale equivalent`}
+                  >
+                    {V_SCALE.grades.map((v) => (
+                      <option key={v.label} value={v.difficulty}>
+                        ≈ {v.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() =>
+                      setDraft({ ...draft, grades: draft.grades.filter((_, j) => j !== i) })
+                    }
+                    className="text-gray-400 hover:text-red-500 px-2"
+                    aria-label={`Remove grade ${i + 1}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() =>
+                setDraft({
+                  ...draft,
+                  grades: [
+                    ...draft.grades,
+                    { label: '', difficulty: draft.grades.at(-1)?.difficulty ?? 0 },
+                  ],
+                })
+              }
+              className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 mb-4"
+            >
+              + Add grade
+            </button>
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  setDraft(null);
+                  setError(null);
+                }}
+                className="flex-1 btn btn-secondary"
+              >
+                Cancel
+              </button>
+              <button onClick={handleSave} className="flex-1 btn btn-primary">
+                Save Circuit
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Scale list */}
+        <div className="space-y-3">
+          {scales.map((scale) => (
+            <div
+              key={scale.id}
+              className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex justify-between items-start mb-2">
+                <div className="text-lg font-bold text-gray-900 dark:text-white">
+                  {scale.name}
+                </div>
+                {!scale.builtIn && (
+                  <div className="flex gap-3 text-sm">
+                    <button
+                      onClick={() => setDraft(scale)}
+                      disabled={!!draft}
+                      className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 disabled:opacity-40"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => setDeleteTarget(scale)}
+                      className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                {isNumericScale(scale)
+                  ? 'Level 1, Level 2, ... (not convertible to other scales)'
+                  : scale.grades.map((g) => g.label).join(' · ')}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Delete confirmation */}
+      <ConfirmDialog
+        isOpen={!!deleteTarget}
+        title="Delete Grade Scale"
+        message={`Delete "${deleteTarget?.name}"? Sessions graded with it will show plain level numbers.`}
+        confirmText="Delete"
+        variant="danger"
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { Session } from '../models/Session';
+import type { SessionType } from '../models/SessionType';
+import type { AttemptResult } from '../models/BoulderAttempt';
+import { ATTEMPT_RESULTS } from '../models/BoulderAttempt';
+import { applyProtocol } from '../models/TrainingProtocol';
+import {
+  getVolumeHistory,
+  getLastTrainingSession,
+  getTrainingHistory,
+  getRecommendationScale,
+  getRecommendationWindow,
+  getCurrentWorkload,
+  getExercises,
+  getProtocols,
+  saveSession,
+} from '../logic/StorageManager';
+import { getRecommendation } from '../logic/SessionRecommender';
+import { getTrainingRecommendation } from '../logic/TrainingRecommender';
+import type { ExerciseLoad } from '../logic/SessionFactory';
+import { createVolumeSession, createTrainingSession } from '../logic/SessionFactory';
+import { toDateTimeInputValue, parseDateTimeInput } from '../logic/DateTimeInput';
+import { GradePicker } from '../components/GradePicker';
+import { RESULT_STYLES } from '../components/AttemptResultStyle';
+import { ExercisePicker } from '../components/ExercisePicker';
+import { ProtocolPicker } from '../components/ProtocolPicker';
+
+const INPUT_CLASS =
+  'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const LABEL_CLASS = 'block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300';
+
+/** Default start for a past session: yesterday evening */
+function defaultStartTime(): string {
+  const date = new Date();
+  date.setDate(date.getDate() - 1);
+  date.setHours(18, 0, 0, 0);
+  return toDateTimeInputValue(date);
+}
+
+/**
+ * Log Session View - Enter a session that was done without the app.
+ * The whole session is entered in one form and saved as finished.
+ * Defaults come from the current recommendations.
+ */
+export function LogSessionView() {
+  const navigate = useNavigate();
+  const [sessionType, setSessionType] = useState<SessionType>('volume');
+  const [startInput, setStartInput] = useState(defaultStartTime);
+  const [durationMinutes, setDurationMinutes] = useState(90);
+
+  // Volume session state
+  const [volumeRec] = useState(() => {
+    const volumeHistory = getVolumeHistory();
+    return getRecommendation(
+      volumeHistory,
+      getRecommendationScale(volumeHistory[0] ?? null),
+      getRecommendationWindow(),
+      getCurrentWorkload()
+    );
+  });
+  const [level, setLevel] = useState(volumeRec.level);
+  const [gradeScaleId, setGradeScaleId] = useState(volumeRec.gradeScale);
+  const [boulderCount, setBoulderCount] = useState(volumeRec.boulderCount);
+  const [resultCounts, setResultCounts] = useState<Record<AttemptResult, number>>({
+    onsight: 0,
+    flash: 0,
+    done: 0,
+    zone: 0,
+    fail: 0,
+  });
+
+  // Training session state
+  const [trainingExercises, setTrainingExercises] = useState<ExerciseLoad[]>(
+    () =>
+      getTrainingRecommendation(
+        getTrainingHistory(),
+        getExercises(),
+        getRecommendationWindow(),
+        getCurrentWorkload()
+      ).exercises
+  );
+  const [protocolId, setProtocolId] = useState(
+    () => getLastTrainingSession()?.trainingData.protocol?.id ?? ''
+  );
+  // Completed sets per exercise ID (all sets unless changed)
+  const [completedSets, setCompletedSets] = useState<Record<string, number>>({});
+  const protocol = getProtocols().find((p) => p.id === protocolId);
+
+  const startTime = parseDateTimeInput(startInput);
+  const loggedCount = ATTEMPT_RESULTS.reduce((sum, result) => sum + resultCounts[result], 0);
+
+  let error: string | null = null;
+  if (!startTime) {
+    error = 'Enter when the session started.';
+  } else if (startTime.getTime() > new Date().getTime()) {
+    error = 'The session cannot start in the future.';
+  } else if (durationMinutes < 1) {
+    error = 'Duration must be at least one minute.';
+  } else if (sessionType === 'volume' && loggedCount > boulderCount) {
+    error = `Results add up to ${loggedCount} boulders, but the session has ${boulderCount}.`;
+  } else if (sessionType === 'training' && trainingExercises.length === 0) {
+    error = 'Pick at least one exercise.';
+  }
+
+  const handleSave = () => {
+    if (error || !startTime) return;
+
+    const endTime = new Date(startTime.getTime() + durationMinutes * 60000);
+    let session: Session;
+
+    if (sessionType === 'volume') {
+      const volumeSession = createVolumeSession(level, boulderCount, gradeScaleId, startTime);
+      // Results fill the boulders in order; any left over stay unlogged
+      const results = ATTEMPT_RESULTS.flatMap((result) =>
+        Array.from({ length: resultCounts[result] }, () => result)
+      );
+      volumeSession.attempts = volumeSession.attempts.map((attempt, i) =>
+        i < results.length ? { ...attempt, result: results[i], timestamp: endTime } : attempt
+      );
+      session = volumeSession;
+    } else {
+      const trainingSession = createTrainingSession(trainingExercises, protocol, startTime);
+      const exercises = trainingSession.trainingData.exercises.map((block) => ({
+        ...block,
+        sets: block.sets.map((set, i) =>
+          i < (completedSets[block.id] ?? block.sets.length)
+            ? { ...set, completed: true, timestamp: endTime }
+            : set
+        ),
+      }));
+      session = {
+        ...trainingSession,
+        trainingData: { ...trainingSession.trainingData, exercises },
+      };
+    }
+
+    saveSession({ ...session, isFinished: true, endTime });
+    navigate(`/summary/${session.id}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            ← Home
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Log Past Session
+          </h1>
+          <div className="w-16" />
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-6">
+          {/* Session Type Selector */}
+          <div className="mb-6">
+            <label className={LABEL_CLASS}>Session Type</label>
+            <div className="flex gap-2">
+              {(['volume', 'training'] as const).map((type) => (
+                <button
+                  key={type}
+                  onClick={() => setSessionType(type)}
+                  className={`flex-1 py-3 px-4 rounded-lg font-medium transition-colors ${
+                    sessionType === type
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {type === 'volume' ? 'Volume' : 'Training'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* When and how long */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+            <div>
+              <label htmlFor="startTime" className={LABEL_CLASS}>
+                Started
+              </label>
+              <input
+                id="startTime"
+                type="datetime-local"
+                value={startInput}
+                onChange={(e) => setStartInput(e.target.value)}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label htmlFor="duration" className={LABEL_CLASS}>
+                Duration (minutes)
+              </label>
+              <input
+                id="duration"
+                type="number"
+                min="1"
+                value={durationMinutes}
+                onChange={(e) => setDurationMinutes(parseInt(e.target.value) || 0)}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+
+          {/* Volume Session Inputs */}
+          {sessionType === 'volume' && (
+            <>
+              <GradePicker
+                scaleId={gradeScaleId}
+                level={level}
+                onChange={(scaleId, newLevel) => {
+                  setGradeScaleId(scaleId);
+                  setLevel(newLevel);
+                }}
+              />
+
+              <div className="mb-4">
+                <label htmlFor="boulderCount" className={LABEL_CLASS}>
+                  Number of Boulders
+                </label>
+                <input
+                  id="boulderCount"
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={boulderCount}
+                  onChange={(e) => setBoulderCount(parseInt(e.target.value) || 1)}
+                  className={INPUT_CLASS}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 sm:grid-cols-5 gap-4 mb-2">
+                {ATTEMPT_RESULTS.map((result) => (
+                  <div key={result}>
+                    <label htmlFor={result} className={LABEL_CLASS}>
+                      {RESULT_STYLES[result].label}
+                    </label>
+                    <input
+                      id={result}
+                      type="number"
+                      min="0"
+                      value={resultCounts[result]}
+                      onChange={(e) =>
+                        setResultCounts({
+                          ...resultCounts,
+                          [result]: Math.max(0, parseInt(e.target.value) || 0),
+                        })
+                      }
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+                {Math.max(0, boulderCount - loggedCount)} boulders left unlogged (counted as fails)
+              </p>
+            </>
+          )}
+
+          {/* Training Session Inputs */}
+          {sessionType === 'training' && (
+            <>
+              <ProtocolPicker protocolId={protocolId} onChange={setProtocolId} />
+              <ExercisePicker
+                selected={trainingExercises}
+                onChange={setTrainingExercises}
+                protocol={protocol}
+              />
+
+              <div className="grid grid-cols-2 gap-4 mb-6">
+                {trainingExercises.map(({ exercise }) => {
+                  const { sets } = applyProtocol(exercise, protocol);
+                  return (
+                    <div key={exercise.id}>
+                      <label htmlFor={`sets-${exercise.id}`} className={LABEL_CLASS}>
+                        {exercise.name} sets completed
+                      </label>
+                      <select
+                        id={`sets-${exercise.id}`}
+                        value={Math.min(completedSets[exercise.id] ?? sets, sets)}
+                        onChange={(e) =>
+                          setCompletedSets({ ...completedSets, [exercise.id]: parseInt(e.target.value) })
+                        }
+                        className={INPUT_CLASS}
+                      >
+                        {Array.from({ length: sets + 1 }, (_, n) => (
+                          <option key={n} value={n}>
+                            {n} of {sets}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+          )}
+
+          <button
+            onClick={handleSave}
+            disabled={!!error}
+            className="w-full btn btn-primary text-lg py-3 disabled:opacity-50"
+          >
+            Save Session
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { VolumeSession, TrainingSession } from '../models/Session';
+import { isVolumeSession, isTrainingSession } from '../models/Session';
+import { getGradeLabel } from '../models/GradeScale';
+import { getAllSessions, getGradeScale, getGradeScales } from '../logic/StorageManager';
+import {
+  FAIL_RATE_AVERAGE_SESSIONS,
+  getLevelHistory,
+  getFailRateHistory,
+  getBouldersPerWeek,
+  getExerciseProgress,
+} from '../logic/ProgressStats';
+import { ProgressChart } from '../components/ProgressChart';
+
+const RANGE_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'All time', days: null },
+];
+
+const CARD_CLASS = 'bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg';
+
+const TITLE_CLASS = 'text-xl font-bold mb-4 text-gray-900 dark:text-white';
+
+const EMPTY_CLASS = 'text-center py-8 text-gray-500 dark:text-gray-400';
+
+const EXERCISE_COLORS = ['#8b5cf6', '#f59e0b', '#10b981', '#ef4444', '#3b82f6', '#ec4899'];
+
+/**
+ * Progress View - Long-term charts across all finished sessions.
+ * Level, fail rate and weekly boulders of volume sessions, and the load of
+ * each training exercise, within a date range.
+ */
+export function ProgressView() {
+  const navigate = useNavigate();
+  const [sessions] = useState(() =>
+    getAllSessions()
+      .filter((s) => s.isFinished)
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+  );
+  const [rangeDays, setRangeDays] = useState<number | null>(90);
+  const [now] = useState(Date.now);
+
+  const inRange = sessions.filter(
+    (s) => rangeDays === null || now - s.date.getTime() <= rangeDays * 24 * 60 * 60 * 1000
+  );
+  const volumeSessions = inRange.filter((s): s is VolumeSession => isVolumeSession(s));
+  const trainingSessions = inRange.filter((s): s is TrainingSession => isTrainingSession(s));
+
+  // Levels are drawn in the scale of the most recent volume session
+  const scale = getGradeScale(volumeSessions[volumeSessions.length - 1]?.gradeScale);
+  const levels = getLevelHistory(volumeSessions, scale, getGradeScales());
+  const failRates = getFailRateHistory(volumeSessions);
+  const weeks = getBouldersPerWeek(volumeSessions);
+  const exercises = getExerciseProgress(trainingSessions);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            ← Home
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Progress</h1>
+          <div className="w-16" />
+        </div>
+
+        {/* Date range */}
+        <div className="flex gap-2 mb-6">
+          {RANGE_OPTIONS.map((option) => (
+            <button
+              key={option.label}
+              onClick={() => setRangeDays(option.days)}
+              className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors ${
+                rangeDays === option.days
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {volumeSessions.length} volume and {trainingSessions.length} training sessions.
+        </p>
+
+        <div className="space-y-4">
+          {/* Target level */}
+          <div className={CARD_CLASS}>
+            <h2 className={TITLE_CLASS}>Level</h2>
+            {levels.length > 0 ? (
+              <ProgressChart
+                data={levels}
+                series={[{ key: 'level', label: 'Level', color: '#3b82f6' }]}
+                stepped
+                formatValue={(level) => getGradeLabel(scale, level)}
+              />
+            ) : (
+              <p className={EMPTY_CLASS}>No volume sessions in this range</p>
+            )}
+          </div>
+
+          {/* Fail rate */}
+          <div className={CARD_CLASS}>
+            <h2 className={TITLE_CLASS}>Fail Rate</h2>
+            {failRates.length > 0 ? (
+              <ProgressChart
+                data={failRates}
+                series={[
+                  { key: 'failRate', label: 'Session', color: '#fca5a5' },
+                  {
+                    key: 'average',
+                    label: `Average of ${FAIL_RATE_AVERAGE_SESSIONS} sessions`,
+                    color: '#ef4444',
+                  },
+                ]}
+                formatValue={(rate) => `${Math.round(rate)}%`}
+                yDomain={[0, 100]}
+              />
+            ) : (
+              <p className={EMPTY_CLASS}>No volume sessions in this range</p>
+            )}
+          </div>
+
+          {/* Boulders per week */}
+          <div className={CARD_CLASS}>
+            <h2 className={TITLE_CLASS}>Boulders per Week</h2>
+            {weeks.length > 0 ? (
+              <ProgressChart
+                data={weeks}
+                series={[{ key: 'boulders', label: 'Boulders', color: '#10b981' }]}
+                kind="bar"
+              />
+            ) : (
+              <p className={EMPTY_CLASS}>No volume sessions in this range</p>
+            )}
+          </div>
+
+          {/* Load per training exercise */}
+          <div className={CARD_CLASS}>
+            <h2 className={TITLE_CLASS}>Training Loads</h2>
+            {exercises.length > 0 ? (
+              <div className="space-y-6">
+                {exercises.map((exercise, i) => (
+                  <div key={exercise.id}>
+                    <h3 className="font-medium mb-2 text-gray-700 dark:text-gray-300">
+                      {exercise.name}
+                    </h3>
+                    <ProgressChart
+                      data={exercise.points}
+                      series={[
+                        {
+                          key: 'load',
+                          label: exercise.name,
+                          color: EXERCISE_COLORS[i % EXERCISE_COLORS.length],
+                        },
+                      ]}
+                      stepped
+                      formatValue={(load) => `${Math.round(load * 10) / 10}${exercise.unit}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className={EMPTY_CLASS}>No training sessions in this range</p>
+            )}
+            {exercises.length > 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-4">
+                Planned loads per session; deload weeks are left out.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import type { Project } from '../models/Project';
+import { HOLD_COLORS } from '../models/Project';
+import { isSend } from '../models/BoulderAttempt';
+import { getGradeLabel } from '../models/GradeScale';
+import {
+  getProject,
+  getProjectAttempts,
+  getGradeScale,
+  deleteProject,
+} from '../logic/StorageManager';
+import { RESULT_STYLES } from '../components/AttemptResultStyle';
+import { ProjectForm } from '../components/ProjectForm';
+import { ConfirmDialog } from '../components/ConfirmDialog';
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+/**
+ * Project View - One project's attempts across sessions.
+ * Lists every session's result, tries and notes up to the send; attempts
+ * after the send are shown as repeats.
+ */
+export function ProjectView() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const navigate = useNavigate();
+  const [project, setProject] = useState<Project | null>(() =>
+    projectId ? getProject(projectId) : null
+  );
+  const [attempts] = useState(() => (projectId ? getProjectAttempts(projectId) : []));
+  const [isEditing, setIsEditing] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+
+  if (!project) {
+    return <Navigate to="/projects" replace />;
+  }
+
+  const sendIndex = attempts.findIndex(({ attempt }) => attempt.result && isSend(attempt.result));
+  const sessionsToSend =
+    sendIndex === -1
+      ? 0
+      : new Set(attempts.slice(0, sendIndex + 1).map(({ session }) => session.id)).size;
+  const totalTries = attempts
+    .slice(0, sendIndex === -1 ? attempts.length : sendIndex + 1)
+    .reduce((sum, { attempt }) => sum + (attempt.tries ?? 0), 0);
+
+  const handleDelete = () => {
+    deleteProject(project.id);
+    navigate('/projects');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <button
+            onClick={() => navigate('/projects')}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            ← Projects
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white truncate px-2">
+            {project.name}
+          </h1>
+          <button
+            onClick={() => setIsEditing(true)}
+            disabled={isEditing}
+            className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium disabled:opacity-40"
+          >
+            Edit
+          </button>
+        </div>
+
+        {isEditing ? (
+          <ProjectForm
+            project={project}
+            onSaved={(saved) => {
+              setProject(saved);
+              setIsEditing(false);
+            }}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-6">
+            {project.photo && (
+              <img
+                src={project.photo}
+                alt={project.name}
+                className="w-full max-h-80 object-cover rounded-lg mb-4"
+              />
+            )}
+            <div className="flex items-center gap-2 mb-1">
+              {project.color && (
+                <span className={`w-4 h-4 rounded-full ${HOLD_COLORS[project.color]}`} />
+              )}
+              <span className="text-xl font-bold text-gray-900 dark:text-white">
+                {project.grade !== undefined
+                  ? getGradeLabel(getGradeScale(project.gradeScale), project.grade)
+                  : 'Ungraded'}
+              </span>
+            </div>
+            {project.gym && (
+              <div className="text-sm text-gray-500 dark:text-gray-400">{project.gym}</div>
+            )}
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              Added {formatDate(project.createdAt)}
+            </div>
+          </div>
+        )}
+
+        {/* Send banner */}
+        {sendIndex !== -1 && (
+          <div className="bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200 rounded-lg p-4 mb-6">
+            Sent on {formatDate(attempts[sendIndex].session.date)} after {sessionsToSend}{' '}
+            {sessionsToSend === 1 ? 'session' : 'sessions'}
+            {totalTries > 0 && ` and ${totalTries} logged tries`}
+          </div>
+        )}
+
+        {/* Timeline */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-6">
+          <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+            Sessions
+          </h2>
+          {attempts.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No attempts yet. Link a boulder to this project when logging it in a session.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {attempts.map(({ session, attempt }, i) => (
+                <button
+                  key={`${session.id}-${attempt.id}`}
+                  onClick={() => navigate(`/summary/${session.id}`)}
+                  className={`w-full text-left p-3 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-blue-400 dark:hover:border-blue-500 transition-colors ${
+                    sendIndex !== -1 && i > sendIndex ? 'opacity-60' : ''
+                  }`}
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {formatDate(session.date)}
+                    </span>
+                    {attempt.result ? (
+                      <span
+                        className={`px-2 py-1 rounded text-xs font-medium ${RESULT_STYLES[attempt.result].tileClass}`}
+                      >
+                        {RESULT_STYLES[attempt.result].icon} {RESULT_STYLES[attempt.result].label}
+                        {i > sendIndex && sendIndex !== -1 && ' (repeat)'}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">Not logged</span>
+                    )}
+                  </div>
+                  {attempt.tries && (
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {attempt.tries} {attempt.tries === 1 ? 'try' : 'tries'}
+                    </div>
+                  )}
+                  {attempt.comment && (
+                    <div className="text-sm text-gray-700 dark:text-gray-300 mt-1">
+                      {attempt.comment}
+                    </div>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={() => setShowDeleteConfirm(true)}
+          className="w-full btn btn-danger"
+        >
+          Delete Project
+        </button>
+      </div>
+
+      <ConfirmDialog
+        isOpen={showDeleteConfirm}
+        title="Delete Project"
+        message={`Delete "${project.name}"? Logged attempts keep their results but lose the link.`}
+        confirmText="Delete"
+        variant="danger"
+        onConfirm={handleDelete}
+        onCancel={() => setShowDeleteConfirm(false)}
+      />
+    </div>
+  );
+}
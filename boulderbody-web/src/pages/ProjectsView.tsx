@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { Project } from '../models/Project';
+import { HOLD_COLORS } from '../models/Project';
+import { isSend } from '../models/BoulderAttempt';
+import { getGradeLabel } from '../models/GradeScale';
+import { getProjects, getProjectAttempts, getGradeScale } from '../logic/StorageManager';
+import { ProjectForm } from '../components/ProjectForm';
+
+/**
+ * Projects View - Boulders worked on over several sessions.
+ * Shows each project's grade, how many sessions went into it and whether it
+ * has been sent.
+ */
+export function ProjectsView() {
+  const navigate = useNavigate();
+  const [projects, setProjects] = useState<Project[]>(getProjects);
+  const [isCreating, setIsCreating] = useState(false);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            ← Home
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Projects
+          </h1>
+          <button
+            onClick={() => setIsCreating(true)}
+            disabled={isCreating}
+            className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium disabled:opacity-40"
+          >
+            + Project
+          </button>
+        </div>
+
+        {isCreating && (
+          <ProjectForm
+            onSaved={() => {
+              setProjects(getProjects());
+              setIsCreating(false);
+            }}
+            onCancel={() => setIsCreating(false)}
+          />
+        )}
+
+        {projects.length === 0 && !isCreating ? (
+          <div className="text-center py-16 text-gray-500 dark:text-gray-400">
+            <p className="text-lg mb-2">No projects yet</p>
+            <p className="text-sm">
+              Add one here or link a boulder to a new project while logging it.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {projects.map((project) => {
+              const attempts = getProjectAttempts(project.id);
+              const sent = attempts.some(({ attempt }) => attempt.result && isSend(attempt.result));
+              const sessionCount = new Set(attempts.map(({ session }) => session.id)).size;
+
+              return (
+                <button
+                  key={project.id}
+                  onClick={() => navigate(`/projects/${project.id}`)}
+                  className="w-full flex items-center gap-4 text-left bg-white dark:bg-gray-800 rounded-lg p-4 shadow border border-gray-200 dark:border-gray-700 hover:border-blue-400 dark:hover:border-blue-500 transition-colors"
+                >
+                  {project.photo ? (
+                    <img
+                      src={project.photo}
+                      alt=""
+                      className="w-16 h-16 object-cover rounded-lg flex-shrink-0"
+                    />
+                  ) : (
+                    <div className="w-16 h-16 rounded-lg bg-gray-100 dark:bg-gray-700 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      {project.color && (
+                        <span className={`w-3 h-3 rounded-full ${HOLD_COLORS[project.color]}`} />
+                      )}
+                      <span className="text-lg font-bold text-gray-900 dark:text-white truncate">
+                        {project.name}
+                      </span>
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {project.grade !== undefined &&
+                        getGradeLabel(getGradeScale(project.gradeScale), project.grade)}
+                      {project.gym && ` · ${project.gym}`}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {sessionCount} {sessionCount === 1 ? 'session' : 'sessions'}
+                    </div>
+                  </div>
+                  {sent && (
+                    <span className="px-2 py-1 rounded text-xs font-medium bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300">
+                      Sent
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
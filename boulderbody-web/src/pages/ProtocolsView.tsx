@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { TrainingProtocol } from '../models/TrainingProtocol';
+import { DEFAULT_PREP_DURATION, describeProtocol } from '../models/TrainingProtocol';
+import { getProtocols, saveProtocol, deleteProtocol } from '../logic/StorageManager';
+import { ConfirmDialog } from '../components/ConfirmDialog';
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const LABEL_CLASS = 'block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300';
+
+type NumberField = 'sets' | 'reps' | 'hangDuration' | 'repRest' | 'rest' | 'prepDuration';
+
+const NUMBER_FIELDS: { key: NumberField; label: string }[] = [
+  { key: 'sets', label: 'Sets' },
+  { key: 'reps', label: 'Reps per set' },
+  { key: 'hangDuration', label: 'Hang duration (s)' },
+  { key: 'repRest', label: 'Rest between reps (s)' },
+  { key: 'rest', label: 'Rest between sets (s)' },
+  { key: 'prepDuration', label: 'Get-ready countdown (s)' },
+];
+
+/** Starting point for a new template */
+function newProtocol(): TrainingProtocol {
+  return {
+    id: crypto.randomUUID(),
+    name: '',
+    sets: 5,
+    reps: 3,
+    hangDuration: 7,
+    repRest: 3,
+    rest: 180,
+    prepDuration: DEFAULT_PREP_DURATION,
+  };
+}
+
+/**
+ * Protocols View - Protocol templates for training sessions.
+ * Built-in templates are read-only; sessions keep a copy of the template
+ * they were started with, so edits only affect new sessions.
+ */
+export function ProtocolsView() {
+  const navigate = useNavigate();
+  const [protocols, setProtocols] = useState<TrainingProtocol[]>(getProtocols);
+  const [draft, setDraft] = useState<TrainingProtocol | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<TrainingProtocol | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    if (!draft) return;
+
+    try {
+      saveProtocol({ ...draft, name: draft.name.trim() });
+      setProtocols(getProtocols());
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save protocol.');
+    }
+  };
+
+  const confirmDelete = () => {
+    if (!deleteTarget) return;
+    deleteProtocol(deleteTarget.id);
+    setProtocols(getProtocols());
+    setDeleteTarget(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            ← Home
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Protocols
+          </h1>
+          <button
+            onClick={() => setDraft(newProtocol())}
+            disabled={!!draft}
+            className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium disabled:opacity-40"
+          >
+            + Protocol
+          </button>
+        </div>
+
+        {/* Custom template form */}
+        {draft && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-6">
+            <label htmlFor="protocolName" className={LABEL_CLASS}>
+              Name
+            </label>
+            <input
+              id="protocolName"
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="E.g., Max hangs 12s"
+              className={`${INPUT_CLASS} mb-4`}
+            />
+
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              {NUMBER_FIELDS.map(({ key, label }) => (
+                <div key={key}>
+                  <label htmlFor={`protocol-${key}`} className={LABEL_CLASS}>
+                    {label}
+                  </label>
+                  <input
+                    id={`protocol-${key}`}
+                    type="number"
+                    min="0"
+                    value={draft[key] ?? 0}
+                    onChange={(e) => setDraft({ ...draft, [key]: parseInt(e.target.value) || 0 })}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  setDraft(null);
+                  setError(null);
+                }}
+                className="flex-1 btn btn-secondary"
+              >
+                Cancel
+              </button>
+              <button onClick={handleSave} className="flex-1 btn btn-primary">
+                Save Protocol
+              </button>
+            </div>
+          </div>
+        )}
+
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          A protocol sets the sets, reps and timings for every exercise of a session.
+          Hang durations apply to timed exercises only.
+        </p>
+
+        {/* Template list */}
+        <div className="space-y-3">
+          {protocols.map((protocol) => (
+            <div
+              key={protocol.id}
+              className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex justify-between items-start mb-2">
+                <div className="text-lg font-bold text-gray-900 dark:text-white">
+                  {protocol.name}
+                </div>
+                {!protocol.builtIn && (
+                  <div className="flex gap-3 text-sm">
+                    <button
+                      onClick={() => setDraft(protocol)}
+                      disabled={!!draft}
+                      className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 disabled:opacity-40"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => setDeleteTarget(protocol)}
+                      className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                {describeProtocol(protocol)}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Delete confirmation */}
+      <ConfirmDialog
+        isOpen={!!deleteTarget}
+        title="Delete Protocol"
+        message={`Delete "${deleteTarget?.name}"? Past sessions keep the protocol they were done with.`}
+        confirmText="Delete"
+        variant="danger"
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { PersonalRecord, RecordKind } from '../logic/PersonalRecords';
+import { RECORD_MAX_FAIL_RATE, getPersonalRecords } from '../logic/PersonalRecords';
+import { getAllSessions, getGradeScales } from '../logic/StorageManager';
+
+const KIND_GROUPS: { kind: RecordKind; label: string }[] = [
+  { kind: 'level', label: 'Grades' },
+  { kind: 'flashes', label: 'Flashes' },
+  { kind: 'load', label: 'Training Loads' },
+  { kind: 'streak', label: 'Consistency' },
+];
+
+/**
+ * Records View - All-time personal records, recomputed from all sessions.
+ * Each record links to the session that set it.
+ */
+export function RecordsView() {
+  const navigate = useNavigate();
+  const [records] = useState<PersonalRecord[]>(() =>
+    getPersonalRecords(getAllSessions(), getGradeScales())
+  );
+
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            ← Home
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Records</h1>
+          <div className="w-16" />
+        </div>
+
+        {records.length > 0 ? (
+          <div className="space-y-4">
+            {KIND_GROUPS.map((group) => {
+              const inGroup = records.filter((r) => r.kind === group.kind);
+              if (inGroup.length === 0) return null;
+
+              return (
+                <div
+                  key={group.kind}
+                  className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg"
+                >
+                  <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+                    {group.label}
+                  </h2>
+                  <div className="space-y-2">
+                    {inGroup.map((record) => (
+                      <button
+                        key={record.id}
+                        onClick={() => navigate(`/summary/${record.sessionId}`)}
+                        className="w-full flex justify-between items-center p-3 rounded-lg bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 text-left transition-colors"
+                      >
+                        <div>
+                          <div className="text-sm text-gray-500 dark:text-gray-400">
+                            {record.title}
+                          </div>
+                          <div className="text-xs text-gray-400 dark:text-gray-500">
+                            {formatDate(record.date)}
+                          </div>
+                        </div>
+                        <span className="text-lg font-bold text-gray-900 dark:text-white">
+                          {record.label}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              A grade counts once a session's boulders at it were sent with a fail rate
+              under {RECORD_MAX_FAIL_RATE}%. Loads count sets with all reps done.
+            </p>
+          </div>
+        ) : (
+          <div className="text-center text-gray-500 dark:text-gray-400 py-12">
+            <p className="text-lg">No records yet. Finish a session to set your first ones!</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDuration } from '../models/Session';
+import type { ReportPeriod } from '../logic/TrainingReport';
+import { getTrainingReport, shiftPeriod } from '../logic/TrainingReport';
+import { getAllSessions, getGradeScales } from '../logic/StorageManager';
+
+const PERIOD_OPTIONS: { label: string; period: ReportPeriod }[] = [
+  { label: 'Week', period: 'week' },
+  { label: 'Month', period: 'month' },
+];
+
+const CARD_CLASS = 'report-card bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg';
+
+const TITLE_CLASS = 'text-xl font-bold mb-4 text-gray-900 dark:text-white';
+
+const EMPTY_CLASS = 'text-center py-4 text-gray-500 dark:text-gray-400';
+
+const STAT_VALUE_CLASS = 'text-2xl font-bold text-gray-900 dark:text-white';
+
+const STAT_LABEL_CLASS = 'text-sm text-gray-500 dark:text-gray-400';
+
+const TABLE_HEAD_CLASS = 'text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700';
+
+const TABLE_ROW_CLASS = 'border-b border-gray-100 dark:border-gray-700 text-gray-900 dark:text-white';
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Signed difference to the previous period, e.g. "+3" or "-1h 5m".
+ */
+function formatChange(current: number, previous: number, format: (value: number) => string) {
+  const diff = current - previous;
+  if (diff === 0) return '±0';
+  return `${diff > 0 ? '+' : '-'}${format(Math.abs(diff))}`;
+}
+
+/**
+ * Report View - Summary of one week or month compared to the one before.
+ * Sessions, boulders and send rates per level, training volume per exercise,
+ * time spent and records set. Prints as a plain page (see index.css).
+ */
+export function ReportView() {
+  const navigate = useNavigate();
+  const [sessions] = useState(getAllSessions);
+  const [scales] = useState(getGradeScales);
+  const [now] = useState(Date.now);
+  const [period, setPeriod] = useState<ReportPeriod>('week');
+  const [date, setDate] = useState(() => new Date(now));
+
+  const report = getTrainingReport(sessions, period, date, scales);
+  const previous = getTrainingReport(sessions, period, shiftPeriod(period, date, -1), scales);
+  const isCurrent = report.end.getTime() > now;
+
+  const previousName = period === 'week' ? 'previous week' : 'previous month';
+  const lastDay = new Date(
+    report.end.getFullYear(),
+    report.end.getMonth(),
+    report.end.getDate() - 1
+  );
+  const title =
+    period === 'week'
+      ? `${report.start.toLocaleDateString('en-US', {
+          month: 'short',
+          day: 'numeric',
+        })} – ${lastDay.toLocaleDateString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          year: 'numeric',
+        })}`
+      : report.start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+  const sessionCount = report.volumeSessions + report.trainingSessions;
+  const previousCount = previous.volumeSessions + previous.trainingSessions;
+
+  const stats: { label: string; value: string; change: string }[] = [
+    {
+      label: 'Sessions',
+      value: String(sessionCount),
+      change: formatChange(sessionCount, previousCount, String),
+    },
+    {
+      label: 'Time spent',
+      value: formatDuration(report.duration),
+      change: formatChange(report.duration, previous.duration, formatDuration),
+    },
+    {
+      label: 'Boulders',
+      value: String(report.boulders),
+      change: formatChange(report.boulders, previous.boulders, String),
+    },
+    {
+      label: 'Send rate',
+      value: report.sendRate === null ? '–' : `${Math.round(report.sendRate)}%`,
+      change:
+        report.sendRate === null || previous.sendRate === null
+          ? '–'
+          : formatChange(
+              Math.round(report.sendRate),
+              Math.round(previous.sendRate),
+              (v) => `${v} pts`
+            ),
+    },
+  ];
+
+  return (
+    <div className="report min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6 print:hidden">
+          <button
+            onClick={() => navigate('/')}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            ← Home
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Report</h1>
+          <div className="w-16" />
+        </div>
+
+        {/* Period */}
+        <div className="print:hidden">
+          <div className="flex gap-2 mb-4">
+            {PERIOD_OPTIONS.map((option) => (
+              <button
+                key={option.period}
+                onClick={() => setPeriod(option.period)}
+                className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors ${
+                  period === option.period
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-between items-center mb-6">
+            <button
+              onClick={() => setDate(shiftPeriod(period, date, -1))}
+              className="px-3 py-1 rounded-lg text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              ‹
+            </button>
+            <button onClick={() => window.print()} className="btn btn-secondary">
+              Print
+            </button>
+            <button
+              onClick={() => setDate(shiftPeriod(period, date, 1))}
+              disabled={isCurrent}
+              className="px-3 py-1 rounded-lg text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+            >
+              ›
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {/* Overview */}
+          <div className={CARD_CLASS}>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+              Training Report
+            </h2>
+            <p className="text-gray-500 dark:text-gray-400 mb-4">
+              {title}
+              {isCurrent && ' (so far)'}
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+              {stats.map((stat) => (
+                <div key={stat.label}>
+                  <div className={STAT_VALUE_CLASS}>{stat.value}</div>
+                  <div className={STAT_LABEL_CLASS}>{stat.label}</div>
+                  <div className="text-xs text-gray-400 dark:text-gray-500">
+                    {stat.change}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-4">
+              {report.volumeSessions} volume and {report.trainingSessions} training sessions.
+              Changes compare to the {previousName} ({previousCount}{' '}
+              {previousCount === 1 ? 'session' : 'sessions'}).
+            </p>
+          </div>
+
+          {/* Boulders per level */}
+          <div className={CARD_CLASS}>
+            <h2 className={TITLE_CLASS}>Boulders</h2>
+            {report.levels.length > 0 ? (
+              <>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className={TABLE_HEAD_CLASS}>
+                      <th className="py-2 font-medium">Grade</th>
+                      <th className="py-2 font-medium text-right">Boulders</th>
+                      <th className="py-2 font-medium text-right">Sends</th>
+                      <th className="py-2 font-medium text-right">Send rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.levels.map((level) => (
+                      <tr key={`${level.scale.id}:${level.level}`} className={TABLE_ROW_CLASS}>
+                        <td className="py-2">
+                          {level.label}
+                          {report.levels.some((l) => l.scale.id !== level.scale.id) && (
+                            <span className="text-gray-500 dark:text-gray-400">
+                              {' '}
+                              ({level.scale.name})
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 text-right">{level.boulders}</td>
+                        <td className="py-2 text-right">{level.sends}</td>
+                        <td className="py-2 text-right">{Math.round(level.sendRate)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-4">
+                  {report.flashes} {report.flashes === 1 ? 'flash' : 'flashes'} (including
+                  onsights).
+                </p>
+              </>
+            ) : (
+              <p className={EMPTY_CLASS}>No boulders logged</p>
+            )}
+          </div>
+
+          {/* Training volume per exercise */}
+          <div className={CARD_CLASS}>
+            <h2 className={TITLE_CLASS}>Training Volume</h2>
+            {report.exercises.length > 0 ? (
+              <>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className={TABLE_HEAD_CLASS}>
+                      <th className="py-2 font-medium">Exercise</th>
+                      <th className="py-2 font-medium text-right">Sets</th>
+                      <th className="py-2 font-medium text-right">Reps</th>
+                      <th className="py-2 font-medium text-right">Volume</th>
+                      <th className="py-2 font-medium text-right">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.exercises.map((exercise) => {
+                      const before = previous.exercises.find((e) => e.id === exercise.id);
+                      return (
+                        <tr key={exercise.id} className={TABLE_ROW_CLASS}>
+                          <td className="py-2">{exercise.name}</td>
+                          <td className="py-2 text-right">{exercise.sets}</td>
+                          <td className="py-2 text-right">{exercise.reps}</td>
+                          <td className="py-2 text-right">
+                            {round(exercise.volume)}
+                            {exercise.unit}
+                          </td>
+                          <td className="py-2 text-right text-gray-500 dark:text-gray-400">
+                            {before
+                              ? formatChange(
+                                  round(exercise.volume),
+                                  round(before.volume),
+                                  (v) => `${round(v)}${exercise.unit}`
+                                )
+                              : 'New'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-4">
+                  Volume is reps × load of the completed sets (added load for bodyweight
+                  exercises).
+                </p>
+              </>
+            ) : (
+              <p className={EMPTY_CLASS}>No training sessions</p>
+            )}
+          </div>
+
+          {/* Records set in the period */}
+          <div className={CARD_CLASS}>
+            <h2 className={TITLE_CLASS}>Personal Records</h2>
+            {report.records.length > 0 ? (
+              <div className="space-y-2">
+                {report.records.map(({ record, previous: beaten }) => (
+                  <div
+                    key={`${record.id}:${record.sessionId}`}
+                    className="flex justify-between items-center text-gray-900 dark:text-white"
+                  >
+                    <span>{record.title}</span>
+                    <span className="font-bold">
+                      {record.label}{' '}
+                      <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+                        (was {beaten.label})
+                      </span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className={EMPTY_CLASS}>No new records</p>
+            )}
+            {previous.records.length > 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-4">
+                {previous.records.length} set in the {previousName}.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
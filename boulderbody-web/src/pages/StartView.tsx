@@ -1,22 +1,51 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import type { Session, VolumeSession, TrainingSession } from '../models/Session';
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import type { Session, LevelBlock } from '../models/Session';
 import { isVolumeSession } from '../models/Session';
 import type { SessionType } from '../models/SessionType';
-import { TRAINING_PROTOCOL } from '../models/SessionType';
+import { LEVEL_SCALE_ID } from '../models/GradeScale';
 import {
   getAllSessions,
   getCurrentSession,
-  getLastVolumeSession,
+  getVolumeHistory,
   getLastTrainingSession,
+  getTrainingHistory,
   saveSession,
   deleteSession,
+  restoreSession,
+  getTrashedSessions,
+  hasUnrecoveredData,
+  getRecommendationScale,
+  setPreferredGradeScaleId,
+  getExercises,
+  getProtocols,
+  getRecommendationWindow,
+  setRecommendationWindow,
+  getGradeScale,
+  getCurrentWorkload,
 } from '../logic/StorageManager';
+import type { SessionRecommendation } from '../logic/SessionRecommender';
 import { getRecommendation } from '../logic/SessionRecommender';
+import type { TrainingRecommendation } from '../logic/TrainingRecommender';
 import { getTrainingRecommendation } from '../logic/TrainingRecommender';
+import type { WorkloadStatus } from '../logic/TrainingLoad';
+import type { ExerciseLoad } from '../logic/SessionFactory';
+import {
+  createPyramidSession,
+  createOpenSession,
+  createTrainingSession,
+} from '../logic/SessionFactory';
 import { ThemeToggle } from '../components/ThemeToggle';
 import { SessionHistoryItem } from '../components/SessionHistoryItem';
 import { ConfirmDialog } from '../components/ConfirmDialog';
+import { BackupPanel } from '../components/BackupPanel';
+import { DataRecoveryPanel } from '../components/DataRecoveryPanel';
+import { UndoToast } from '../components/UndoToast';
+import { LevelBlocksPicker } from '../components/LevelBlocksPicker';
+import { GradePicker } from '../components/GradePicker';
+import { ExercisePicker } from '../components/ExercisePicker';
+import { ProtocolPicker } from '../components/ProtocolPicker';
+import { RecommendationDetails } from '../components/RecommendationDetails';
 
 /**
  * Start View - Home screen with session form and history.
@@ -24,34 +53,97 @@ import { ConfirmDialog } from '../components/ConfirmDialog';
  */
 export function StartView() {
   const navigate = useNavigate();
+  const location = useLocation();
   const [sessions, setSessions] = useState<Session[]>([]);
   const [sessionType, setSessionType] = useState<SessionType>('volume');
 
   // Volume session state
-  const [level, setLevel] = useState(5);
-  const [boulderCount, setBoulderCount] = useState(20);
-  const [volumeReason, setVolumeReason] = useState('');
+  const [gradeScaleId, setGradeScaleId] = useState(LEVEL_SCALE_ID);
+  const [blocks, setBlocks] = useState<LevelBlock[]>([{ level: 5, boulderCount: 20 }]);
+  const [openEnded, setOpenEnded] = useState(false);
+  const [volumeRec, setVolumeRec] = useState<SessionRecommendation | null>(null);
 
   // Training session state
-  const [hangWeight, setHangWeight] = useState(0);
-  const [pullupWeight, setPullupWeight] = useState(0);
-  const [benchWeight, setBenchWeight] = useState(10);
-  const [trapBarWeight, setTrapBarWeight] = useState(20);
-  const [trainingReason, setTrainingReason] = useState('');
+  const [trainingExercises, setTrainingExercises] = useState<ExerciseLoad[]>([]);
+  const [protocolId, setProtocolId] = useState('');
+  const [trainingDeload, setTrainingDeload] = useState(false);
+  const [trainingRec, setTrainingRec] = useState<TrainingRecommendation | null>(null);
+
+  // Recent load across both session types (drives the load warnings)
+  const [workload, setWorkload] = useState<WorkloadStatus | null>(null);
+
+  // Number of recent sessions both recommendations look at
+  const [recommendationWindow, setRecommendationWindowState] = useState(getRecommendationWindow);
+
+  const [showRecovery, setShowRecovery] = useState(false);
+
+  // Session just moved to the trash (drives the Undo toast).
+  // Other views pass { trashedSessionId } in navigation state after deleting.
+  const [trashedId, setTrashedId] = useState<string | null>(
+    () => (location.state as { trashedSessionId?: string } | null)?.trashedSessionId ?? null
+  );
+  const [trashCount, setTrashCount] = useState(() => getTrashedSessions().length);
+  const [undoError, setUndoError] = useState<string | null>(null);
 
   const [deleteConfirm, setDeleteConfirm] = useState<{
     id: string;
     date: string;
   } | null>(null);
 
+  // Drop the trashed session from the history entry once read, so a reload
+  // or going back to this page doesn't offer Undo again
+  useEffect(() => {
+    if ((location.state as { trashedSessionId?: string } | null)?.trashedSessionId) {
+      navigate(location.pathname, { replace: true, state: null });
+    }
+  }, [location, navigate]);
+
+  // Calculate both recommendations from the stored sessions
+  const refreshRecommendations = useCallback(() => {
+    // Recent load across both session types tempers both recommendations
+    const workload = getCurrentWorkload();
+    setWorkload(workload);
+
+    // Get volume recommendation
+    const volumeHistory = getVolumeHistory();
+    const lastVolumeSession = volumeHistory[0] ?? null;
+    const volumeRec = getRecommendation(
+      volumeHistory,
+      getRecommendationScale(lastVolumeSession),
+      getRecommendationWindow(),
+      workload
+    );
+    setGradeScaleId(volumeRec.gradeScale);
+    setBlocks(volumeRec.blocks);
+    setOpenEnded(!!lastVolumeSession?.openEnded);
+    setVolumeRec(volumeRec);
+
+    // Get training recommendation
+    const lastTrainingSession = getLastTrainingSession();
+    const trainingRec = getTrainingRecommendation(
+      getTrainingHistory(),
+      getExercises(),
+      getRecommendationWindow(),
+      workload
+    );
+    setTrainingExercises(trainingRec.exercises);
+    setTrainingDeload(trainingRec.deload);
+    setTrainingRec(trainingRec);
+    setProtocolId(lastTrainingSession?.trainingData.protocol?.id ?? '');
+  }, []);
+
   // Load sessions and calculate recommendations on mount
   useEffect(() => {
     const allSessions = getAllSessions();
     setSessions(allSessions.filter((s) => s.isFinished));
 
+    // Unreadable data was found while loading - stay here so the user sees it
+    const recoveryPending = hasUnrecoveredData();
+    setShowRecovery(recoveryPending);
+
     // Check if there's an active session
     const activeSession = getCurrentSession();
-    if (activeSession) {
+    if (activeSession && !recoveryPending) {
       // Resume active session - route based on type
       if (isVolumeSession(activeSession)) {
         navigate(`/session/${activeSession.id}`);
@@ -61,84 +153,27 @@ export function StartView() {
       return;
     }
 
-    // Get volume recommendation
-    const lastVolumeSession = getLastVolumeSession();
-    const volumeRec = getRecommendation(lastVolumeSession);
-    setLevel(volumeRec.level);
-    setBoulderCount(volumeRec.boulderCount);
-    setVolumeReason(volumeRec.reason);
+    refreshRecommendations();
+  }, [navigate, refreshRecommendations]);
 
-    // Get training recommendation
-    const lastTrainingSession = getLastTrainingSession();
-    const trainingRec = getTrainingRecommendation(lastTrainingSession);
-    setHangWeight(trainingRec.hangWeight);
-    setPullupWeight(trainingRec.pullupWeight);
-    setBenchWeight(trainingRec.benchWeight);
-    setTrapBarWeight(trainingRec.trapBarWeight);
-    setTrainingReason(trainingRec.reason);
-  }, [navigate]);
+  // Selected protocol template (undefined: each exercise's own protocol)
+  const protocol = getProtocols().find((p) => p.id === protocolId);
 
   const handleStartSession = () => {
-    let newSession: Session;
-
     if (sessionType === 'volume') {
-      // Create volume session
-      const volumeSession: VolumeSession = {
-        id: crypto.randomUUID(),
-        sessionType: 'volume',
-        date: new Date(),
-        startTime: new Date(),
-        isFinished: false,
-        targetLevel: level,
-        boulderCount,
-        attempts: Array.from({ length: boulderCount }, (_, i) => ({
-          id: crypto.randomUUID(),
-          order: i + 1,
-        })),
-      };
-      newSession = volumeSession;
+      const newSession = openEnded
+        ? createOpenSession(blocks[0].level, gradeScaleId)
+        : createPyramidSession(blocks, gradeScaleId);
+      setPreferredGradeScaleId(gradeScaleId);
       saveSession(newSession);
       navigate(`/session/${newSession.id}`);
     } else {
-      // Create training session
-      const trainingSession: TrainingSession = {
-        id: crypto.randomUUID(),
-        sessionType: 'training',
-        date: new Date(),
-        startTime: new Date(),
-        isFinished: false,
-        trainingData: {
-          hangWeight,
-          pullupWeight,
-          benchWeight,
-          trapBarWeight,
-          hangSets: Array.from({ length: TRAINING_PROTOCOL.hangSets }, (_, i) => ({
-            id: crypto.randomUUID(),
-            order: i + 1,
-            exercise: 'hang' as const,
-            completed: false,
-          })),
-          pullupSets: Array.from({ length: TRAINING_PROTOCOL.pullupSets }, (_, i) => ({
-            id: crypto.randomUUID(),
-            order: i + 1,
-            exercise: 'pullup' as const,
-            completed: false,
-          })),
-          benchSets: Array.from({ length: TRAINING_PROTOCOL.benchSets }, (_, i) => ({
-            id: crypto.randomUUID(),
-            order: i + 1,
-            exercise: 'bench' as const,
-            completed: false,
-          })),
-          trapBarSets: Array.from({ length: TRAINING_PROTOCOL.trapBarSets }, (_, i) => ({
-            id: crypto.randomUUID(),
-            order: i + 1,
-            exercise: 'trapbar' as const,
-            completed: false,
-          })),
-        },
-      };
-      newSession = trainingSession;
+      const newSession = createTrainingSession(
+        trainingExercises,
+        protocol,
+        new Date(),
+        trainingDeload
+      );
       saveSession(newSession);
       navigate(`/training/${newSession.id}`);
     }
@@ -164,21 +199,49 @@ export function StartView() {
     deleteSession(deleteConfirm.id);
     setSessions(sessions.filter((s) => s.id !== deleteConfirm.id));
     setDeleteConfirm(null);
+    setTrashedId(deleteConfirm.id);
+    setTrashCount(getTrashedSessions().length);
 
     // Recalculate both recommendations after deletion
-    const lastVolumeSession = getLastVolumeSession();
-    const volumeRec = getRecommendation(lastVolumeSession);
-    setLevel(volumeRec.level);
-    setBoulderCount(volumeRec.boulderCount);
-    setVolumeReason(volumeRec.reason);
+    refreshRecommendations();
+  };
 
-    const lastTrainingSession = getLastTrainingSession();
-    const trainingRec = getTrainingRecommendation(lastTrainingSession);
-    setHangWeight(trainingRec.hangWeight);
-    setPullupWeight(trainingRec.pullupWeight);
-    setBenchWeight(trainingRec.benchWeight);
-    setTrapBarWeight(trainingRec.trapBarWeight);
-    setTrainingReason(trainingRec.reason);
+  const handleUndoDelete = () => {
+    if (!trashedId) return;
+
+    try {
+      const restored = restoreSession(trashedId);
+      setTrashedId(null);
+
+      // A broken-off session goes straight back to its live view
+      if (!restored.isFinished) {
+        navigate(
+          isVolumeSession(restored)
+            ? `/session/${restored.id}`
+            : `/training/${restored.id}`
+        );
+        return;
+      }
+
+      handleImported();
+    } catch (err) {
+      setTrashedId(null);
+      setUndoError(err instanceof Error ? err.message : 'Could not restore session.');
+    }
+  };
+
+  const closeUndoToast = useCallback(() => setTrashedId(null), []);
+
+  const handleImported = () => {
+    setSessions(getAllSessions().filter((s) => s.isFinished));
+    setTrashCount(getTrashedSessions().length);
+    refreshRecommendations();
+  };
+
+  const handleWindowChange = (sessions: number) => {
+    setRecommendationWindow(sessions);
+    setRecommendationWindowState(sessions);
+    refreshRecommendations();
   };
 
   return (
@@ -192,6 +255,11 @@ export function StartView() {
           <ThemeToggle />
         </div>
 
+        {/* Corrupted data recovery */}
+        {showRecovery && (
+          <DataRecoveryPanel onDismiss={() => setShowRecovery(false)} />
+        )}
+
         {/* New Session Form */}
         <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-8">
           <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
@@ -227,152 +295,177 @@ export function StartView() {
             </div>
           </div>
 
+          {/* Load warnings (both session types) */}
+          {workload && workload.warnings.length > 0 && (
+            <div className="mb-4 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-200">
+              {workload.warnings.map((warning) => (
+                <p key={warning}>⚠ {warning}</p>
+              ))}
+            </div>
+          )}
+
           {/* Recommendation reason */}
-          {sessionType === 'volume' && volumeReason && (
+          {sessionType === 'volume' && volumeRec?.reason && (
             <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg text-sm text-blue-800 dark:text-blue-200">
-              <span className="font-medium">Recommendation:</span> {volumeReason}
+              <span className="font-medium">Recommendation:</span> {volumeRec.reason}
+              {volumeRec.daysSinceLastSession !== null && (
+                <RecommendationDetails
+                  levelMetrics={volumeRec.metrics}
+                  scale={getGradeScale(volumeRec.gradeScale)}
+                  daysSinceLastSession={volumeRec.daysSinceLastSession}
+                  workload={workload ?? undefined}
+                  window={recommendationWindow}
+                  onWindowChange={handleWindowChange}
+                />
+              )}
             </div>
           )}
-          {sessionType === 'training' && trainingReason && (
+          {sessionType === 'training' && trainingRec?.reason && (
             <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg text-sm text-blue-800 dark:text-blue-200">
-              <span className="font-medium">Recommendation:</span> {trainingReason}
+              <span className="font-medium">Recommendation:</span> {trainingRec.reason}
+              {trainingRec.daysSinceLastSession !== null && (
+                <RecommendationDetails
+                  exerciseMetrics={trainingRec.metrics}
+                  exercises={getExercises()}
+                  daysSinceLastSession={trainingRec.daysSinceLastSession}
+                  workload={workload ?? undefined}
+                  window={recommendationWindow}
+                  onWindowChange={handleWindowChange}
+                />
+              )}
             </div>
           )}
 
           {/* Volume Session Inputs */}
           {sessionType === 'volume' && (
             <>
-              {/* Level input */}
-              <div className="mb-4">
-                <label
-                  htmlFor="level"
-                  className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300"
-                >
-                  Target Level
-                </label>
-                <input
-                  id="level"
-                  type="number"
-                  min="1"
-                  value={level}
-                  onChange={(e) => setLevel(parseInt(e.target.value) || 1)}
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
+              {/* Fixed boulder count or open-ended */}
+              <div className="flex gap-2 mb-4">
+                {([false, true] as const).map((open) => (
+                  <button
+                    key={String(open)}
+                    onClick={() => setOpenEnded(open)}
+                    className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors ${
+                      openEnded === open
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    {open ? 'Open-ended' : 'Fixed count'}
+                  </button>
+                ))}
               </div>
 
-              {/* Boulder count input */}
-              <div className="mb-6">
-                <label
-                  htmlFor="boulderCount"
-                  className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300"
-                >
-                  Number of Boulders
-                </label>
-                <input
-                  id="boulderCount"
-                  type="number"
-                  min="1"
-                  max="100"
-                  value={boulderCount}
-                  onChange={(e) => setBoulderCount(parseInt(e.target.value) || 1)}
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              {openEnded ? (
+                <div className="mb-2">
+                  <GradePicker
+                    label="Starting Grade"
+                    scaleId={gradeScaleId}
+                    level={blocks[0].level}
+                    onChange={(scaleId, level) => {
+                      setGradeScaleId(scaleId);
+                      setBlocks([{ ...blocks[0], level }]);
+                    }}
+                  />
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                    Add boulders at any grade as you climb and finish whenever you like.
+                  </p>
+                </div>
+              ) : (
+                <LevelBlocksPicker
+                  scaleId={gradeScaleId}
+                  blocks={blocks}
+                  onChange={(scaleId, newBlocks) => {
+                    setGradeScaleId(scaleId);
+                    setBlocks(newBlocks);
+                  }}
                 />
-              </div>
+              )}
             </>
           )}
 
           {/* Training Session Inputs */}
           {sessionType === 'training' && (
             <>
-              <div className="mb-4">
-                <label
-                  htmlFor="hangWeight"
-                  className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300"
-                >
-                  Max Hang Weight (kg) - {TRAINING_PROTOCOL.hangSets} sets of {TRAINING_PROTOCOL.hangDuration}s × {TRAINING_PROTOCOL.hangReps}
-                </label>
-                <input
-                  id="hangWeight"
-                  type="number"
-                  min="0"
-                  step="2.5"
-                  value={hangWeight}
-                  onChange={(e) => setHangWeight(parseFloat(e.target.value) || 0)}
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-
-              <div className="mb-4">
-                <label
-                  htmlFor="pullupWeight"
-                  className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300"
-                >
-                  Max Pull-up Weight (kg) - {TRAINING_PROTOCOL.pullupSets} sets of {TRAINING_PROTOCOL.pullupReps} reps
-                </label>
-                <input
-                  id="pullupWeight"
-                  type="number"
-                  min="0"
-                  step="2.5"
-                  value={pullupWeight}
-                  onChange={(e) => setPullupWeight(parseFloat(e.target.value) || 0)}
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-
-              <div className="mb-4">
-                <label
-                  htmlFor="benchWeight"
-                  className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300"
-                >
-                  Bench Press Weight (kg) - {TRAINING_PROTOCOL.benchSets} sets of {TRAINING_PROTOCOL.benchReps} reps
-                </label>
-                <input
-                  id="benchWeight"
-                  type="number"
-                  min="0"
-                  step="2.5"
-                  value={benchWeight}
-                  onChange={(e) => setBenchWeight(parseFloat(e.target.value) || 0)}
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-
-              <div className="mb-6">
-                <label
-                  htmlFor="trapBarWeight"
-                  className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300"
-                >
-                  Trap Bar Deadlift Weight (kg) - {TRAINING_PROTOCOL.trapBarSets} sets of {TRAINING_PROTOCOL.trapBarReps} reps
-                </label>
-                <input
-                  id="trapBarWeight"
-                  type="number"
-                  min="0"
-                  step="2.5"
-                  value={trapBarWeight}
-                  onChange={(e) => setTrapBarWeight(parseFloat(e.target.value) || 0)}
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
+              <ProtocolPicker protocolId={protocolId} onChange={setProtocolId} />
+              <ExercisePicker
+                selected={trainingExercises}
+                onChange={setTrainingExercises}
+                protocol={protocol}
+              />
             </>
           )}
 
           {/* Start button */}
           <button
             onClick={handleStartSession}
-            className="w-full btn btn-primary text-lg py-3"
+            disabled={sessionType === 'training' && trainingExercises.length === 0}
+            className="w-full btn btn-primary text-lg py-3 disabled:opacity-50"
           >
             Start {sessionType === 'volume' ? 'Volume' : 'Training'} Session
           </button>
+          <button
+            onClick={() => navigate('/log')}
+            className="w-full mt-3 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            Log a past session
+          </button>
         </div>
 
         {/* Session History */}
         {sessions.length > 0 && (
           <div>
-            <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
-              Session History
-            </h2>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                Session History
+              </h2>
+              <div className="flex flex-wrap justify-end gap-x-4">
+                <button
+                  onClick={() => navigate('/calendar')}
+                  className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                >
+                  Calendar
+                </button>
+                <button
+                  onClick={() => navigate('/report')}
+                  className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                >
+                  Report
+                </button>
+                <button
+                  onClick={() => navigate('/progress')}
+                  className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                >
+                  Progress
+                </button>
+                <button
+                  onClick={() => navigate('/records')}
+                  className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                >
+                  Records
+                </button>
+                <button
+                  onClick={() => navigate('/styles')}
+                  className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                >
+                  Styles
+                </button>
+                <button
+                  onClick={() => navigate('/projects')}
+                  className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                >
+                  Projects
+                </button>
+                {trashCount > 0 && (
+                  <button
+                    onClick={() => navigate('/trash')}
+                    className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                  >
+                    Trash ({trashCount})
+                  </button>
+                )}
+              </div>
+            </div>
             <div className="space-y-3">
               {sessions
                 .sort((a, b) => b.date.getTime() - a.date.getTime())
@@ -392,20 +485,50 @@ export function StartView() {
         {sessions.length === 0 && (
           <div className="text-center py-12 text-gray-500 dark:text-gray-400">
             <p className="text-lg">No sessions yet. Start your first one!</p>
+            {trashCount > 0 && (
+              <button
+                onClick={() => navigate('/trash')}
+                className="mt-2 text-sm hover:text-gray-700 dark:hover:text-gray-200"
+              >
+                Trash ({trashCount})
+              </button>
+            )}
           </div>
         )}
+
+        {/* Backup export / import */}
+        <div className="mt-8">
+          <BackupPanel onImported={handleImported} />
+        </div>
       </div>
 
       {/* Delete confirmation dialog */}
       <ConfirmDialog
         isOpen={!!deleteConfirm}
         title="Delete Session"
-        message={`Delete session from ${deleteConfirm?.date}? This cannot be undone.`}
+        message={`Move session from ${deleteConfirm?.date} to the trash?`}
         confirmText="Delete"
         variant="danger"
         onConfirm={confirmDelete}
         onCancel={() => setDeleteConfirm(null)}
       />
+
+      {/* Failed undo (e.g. another session is active) */}
+      <ConfirmDialog
+        isOpen={!!undoError}
+        title="Could Not Restore"
+        message={undoError ?? ''}
+        confirmText="OK"
+        onConfirm={() => setUndoError(null)}
+        onCancel={() => setUndoError(null)}
+      />
+
+      {/* Undo for the session just moved to the trash */}
+      <UndoToast
+        message={trashedId ? 'Session moved to trash' : null}
+        onUndo={handleUndoDelete}
+        onClose={closeUndoToast}
+      />
     </div>
   );
 }
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { VolumeSession } from '../models/Session';
+import { isVolumeSession } from '../models/Session';
+import { TAG_GROUPS } from '../models/BoulderAttempt';
+import { getAllSessions } from '../logic/StorageManager';
+import { getFailRateByTag } from '../logic/TagStats';
+import { TagBreakdown } from '../components/TagBreakdown';
+
+const RANGE_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'All time', days: null },
+];
+
+/**
+ * Style Stats View - Fail rate by style tag across all volume sessions.
+ * Grouped by hold type, wall angle and movement to show weaknesses.
+ */
+export function StyleStatsView() {
+  const navigate = useNavigate();
+  const [sessions] = useState<VolumeSession[]>(() =>
+    getAllSessions().filter(
+      (s): s is VolumeSession => isVolumeSession(s) && s.isFinished
+    )
+  );
+  const [rangeDays, setRangeDays] = useState<number | null>(90);
+  const [now] = useState(Date.now);
+
+  const inRange = sessions.filter(
+    (s) => rangeDays === null || now - s.date.getTime() <= rangeDays * 24 * 60 * 60 * 1000
+  );
+  const stats = getFailRateByTag(inRange.flatMap((s) => s.attempts));
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            ← Home
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Style Breakdown
+          </h1>
+          <div className="w-16" />
+        </div>
+
+        {/* Date range */}
+        <div className="flex gap-2 mb-6">
+          {RANGE_OPTIONS.map((option) => (
+            <button
+              key={option.label}
+              onClick={() => setRangeDays(option.days)}
+              className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors ${
+                rangeDays === option.days
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {inRange.length} volume sessions. Zones count as fails; unlogged boulders are left out.
+        </p>
+
+        {/* One card per tag group */}
+        <div className="space-y-4">
+          {TAG_GROUPS.map((group) => (
+            <div
+              key={group.label}
+              className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg"
+            >
+              <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+                {group.label}
+              </h2>
+              <TagBreakdown stats={stats.filter((stat) => group.tags.includes(stat.tag))} />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,41 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend } from 'recharts';
-import type { Session } from '../models/Session';
+import type { Session, VolumeSession } from '../models/Session';
 import {
   isVolumeSession,
   isTrainingSession,
   getAttemptCounts,
   getSessionDuration,
   getFailRate,
+  getAverageTries,
+  splitByLevel,
 } from '../models/Session';
-import { getAllSessions, deleteSession, getLastTrainingSession } from '../logic/StorageManager';
+import { ATTEMPT_RESULTS, isSend } from '../models/BoulderAttempt';
+import { BUILT_IN_SCALES, getEquivalentLabels, getGradeLabel } from '../models/GradeScale';
+import {
+  getAllSessions,
+  deleteSession,
+  updateSession,
+  getTrainingHistory,
+  getRecommendationWindow,
+  getCurrentWorkload,
+  getGradeScale,
+  getSessionGradeLabel,
+  getExercises,
+  getGradeScales,
+} from '../logic/StorageManager';
+import { getNewRecords } from '../logic/PersonalRecords';
 import { getTrainingRecommendation } from '../logic/TrainingRecommender';
-import { isExerciseComplete } from '../models/SessionType';
+import type { TagStat } from '../logic/TagStats';
+import { getFailRateByTag } from '../logic/TagStats';
+import { isExerciseComplete, isSetComplete, getSessionExercise } from '../models/SessionType';
+import { describeExercise } from '../models/Exercise';
 import { ConfirmDialog } from '../components/ConfirmDialog';
+import { SessionEditor } from '../components/SessionEditor';
+import { RESULT_STYLES } from '../components/AttemptResultStyle';
+import { getExerciseStyle } from '../components/ExerciseStyle';
+import { TagBreakdown } from '../components/TagBreakdown';
 
 /**
  * Summary View - Post-session statistics and charts.
@@ -23,6 +46,7 @@ export function SummaryView() {
   const navigate = useNavigate();
   const [session, setSession] = useState<Session | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
 
   useEffect(() => {
     if (!sessionId) {
@@ -49,7 +73,14 @@ export function SummaryView() {
 
   const handleDelete = () => {
     deleteSession(session.id);
-    navigate('/');
+    navigate('/', { state: { trashedSessionId: session.id } });
+  };
+
+  // Recommendations are derived from stored sessions, so saving is enough to refresh them
+  const handleSaveEdit = (edited: Session) => {
+    updateSession(edited);
+    setSession(edited);
+    setIsEditing(false);
   };
 
   const dateStr = session.date.toLocaleDateString('en-US', {
@@ -63,23 +94,46 @@ export function SummaryView() {
   let volumeChartData: any[] = [];
   let volumeCounts: any = null;
   let volumeFailRate = 0;
+  let averageTries: number | null = null;
+  let tagStats: TagStat[] = [];
+  let gradeEquivalents: string[] = [];
+  let levelBlocks: VolumeSession[] = [];
 
   if (isVolumeSession(session)) {
+    levelBlocks = splitByLevel(session);
+    if (levelBlocks.length === 1) {
+      gradeEquivalents = getEquivalentLabels(
+        getGradeScale(session.gradeScale),
+        session.targetLevel,
+        BUILT_IN_SCALES
+      );
+    }
     volumeCounts = getAttemptCounts(session);
     volumeFailRate = getFailRate(session);
+    averageTries = getAverageTries(session);
+    tagStats = getFailRateByTag(session.attempts);
     volumeChartData = [
-      { name: 'Flash', value: volumeCounts.flash, color: '#22c55e' },
-      { name: 'Done', value: volumeCounts.done, color: '#3b82f6' },
-      { name: 'Fail', value: volumeCounts.fail, color: '#ef4444' },
+      ...ATTEMPT_RESULTS.map((result) => ({
+        name: RESULT_STYLES[result].label,
+        value: volumeCounts[result],
+        color: RESULT_STYLES[result].chartColor,
+      })),
       { name: 'Unlogged', value: volumeCounts.unlogged, color: '#9ca3af' },
     ].filter((item) => item.value > 0);
   }
 
+  // Records this session set (recomputed, so edits are reflected)
+  const newRecords = getNewRecords(session, getAllSessions(), getGradeScales());
+
   // Prepare training session data if applicable
   let trainingRec = null;
   if (isTrainingSession(session)) {
-    const lastTraining = getLastTrainingSession();
-    trainingRec = getTrainingRecommendation(lastTraining);
+    trainingRec = getTrainingRecommendation(
+      getTrainingHistory(),
+      getExercises(),
+      getRecommendationWindow(),
+      getCurrentWorkload()
+    );
   }
 
   return (
@@ -93,26 +147,77 @@ export function SummaryView() {
           >
             ← Home
           </button>
-          <button
-            onClick={() => setShowDeleteConfirm(true)}
-            className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium"
-          >
-            Delete Session
-          </button>
+          <div className="flex gap-4">
+            {!isEditing && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
+              >
+                Edit
+              </button>
+            )}
+            <button
+              onClick={() => setShowDeleteConfirm(true)}
+              className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium"
+            >
+              Delete Session
+            </button>
+          </div>
         </div>
 
+        {/* Edit mode */}
+        {isEditing && (
+          <SessionEditor
+            session={session}
+            onSave={handleSaveEdit}
+            onCancel={() => setIsEditing(false)}
+          />
+        )}
+
+        {/* New personal records */}
+        {!isEditing && newRecords.length > 0 && (
+          <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 mb-6">
+            <div className="flex justify-between items-center mb-2">
+              <h2 className="text-lg font-bold text-yellow-800 dark:text-yellow-200">
+                🏆 New Personal {newRecords.length === 1 ? 'Record' : 'Records'}
+              </h2>
+              <button
+                onClick={() => navigate('/records')}
+                className="text-sm text-yellow-700 dark:text-yellow-300 hover:text-yellow-900 dark:hover:text-yellow-100"
+              >
+                All records
+              </button>
+            </div>
+            <ul className="space-y-1 text-sm text-yellow-800 dark:text-yellow-200">
+              {newRecords.map(({ record, previous }) => (
+                <li key={record.id}>
+                  <span className="font-medium">{record.title}:</span> {record.label}{' '}
+                  <span className="text-yellow-700 dark:text-yellow-400">
+                    (was {previous.label})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Volume Session Summary */}
-        {isVolumeSession(session) && (
+        {!isEditing && isVolumeSession(session) && (
           <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-6">
             <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white text-center">
-              Level {session.targetLevel}
+              {getSessionGradeLabel(session)}
             </h1>
+            {gradeEquivalents.length > 0 && (
+              <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+                ≈ {gradeEquivalents.join(' · ')}
+              </p>
+            )}
             <p className="text-center text-gray-500 dark:text-gray-400 mb-6">
               {dateStr}
             </p>
 
             {/* Key metrics */}
-            <div className="grid grid-cols-2 gap-4 mb-6">
+            <div className={`grid ${averageTries !== null ? 'grid-cols-3' : 'grid-cols-2'} gap-4 mb-6`}>
               <div className="text-center">
                 <p className="text-gray-500 dark:text-gray-400 text-sm">
                   Duration
@@ -129,6 +234,16 @@ export function SummaryView() {
                   {volumeFailRate.toFixed(0)}%
                 </p>
               </div>
+              {averageTries !== null && (
+                <div className="text-center">
+                  <p className="text-gray-500 dark:text-gray-400 text-sm">
+                    Tries per Send
+                  </p>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                    {averageTries.toFixed(1)}
+                  </p>
+                </div>
+              )}
             </div>
 
             {/* Chart */}
@@ -162,34 +277,22 @@ export function SummaryView() {
 
             {/* Detailed breakdown */}
             <div className="space-y-2">
-              <div className="flex justify-between items-center p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
-                <span className="text-green-800 dark:text-green-200 font-medium">
-                  Flash
-                </span>
-                <span className="text-green-900 dark:text-green-100 font-bold">
-                  {volumeCounts!.flash}
-                </span>
-              </div>
-              <div className="flex justify-between items-center p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-                <span className="text-blue-800 dark:text-blue-200 font-medium">
-                  Done
-                </span>
-                <span className="text-blue-900 dark:text-blue-100 font-bold">
-                  {volumeCounts!.done}
-                </span>
-              </div>
-              <div className="flex justify-between items-center p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
-                <span className="text-red-800 dark:text-red-200 font-medium">
-                  Fail
-                </span>
-                <span className="text-red-900 dark:text-red-100 font-bold">
-                  {volumeCounts!.fail}
-                </span>
-              </div>
+              {ATTEMPT_RESULTS.map((result) => (
+                <div
+                  key={result}
+                  className={`flex justify-between items-center p-3 rounded-lg ${RESULT_STYLES[result].tileClass}`}
+                >
+                  <span className="font-medium">
+                    {RESULT_STYLES[result].label}
+                    {result === 'zone' && ' (counted as fails)'}
+                  </span>
+                  <span className="font-bold">{volumeCounts![result]}</span>
+                </div>
+              ))}
               {volumeCounts!.unlogged > 0 && (
                 <div className="flex justify-between items-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
                   <span className="text-gray-800 dark:text-gray-200 font-medium">
-                    Unlogged (counted as fails)
+                    Unlogged {session.openEnded ? '(not counted)' : '(counted as fails)'}
                   </span>
                   <span className="text-gray-900 dark:text-gray-100 font-bold">
                     {volumeCounts!.unlogged}
@@ -197,17 +300,59 @@ export function SummaryView() {
                 </div>
               )}
             </div>
+
+            {/* Per-level breakdown for pyramid sessions */}
+            {levelBlocks.length > 1 && (
+              <div className="mt-6">
+                <h3 className="font-bold text-gray-900 dark:text-white mb-3">
+                  By Level
+                </h3>
+                <div className="space-y-2">
+                  {levelBlocks.map((block) => {
+                    const blockTries = getAverageTries(block);
+                    const sends = block.attempts.filter((a) => isSend(a.result)).length;
+
+                    return (
+                      <div
+                        key={block.targetLevel}
+                        className="flex justify-between items-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+                      >
+                        <span className="font-medium text-gray-800 dark:text-gray-200">
+                          {getGradeLabel(getGradeScale(session.gradeScale), block.targetLevel)}
+                        </span>
+                        <span className="text-sm text-gray-600 dark:text-gray-300">
+                          {sends}/{block.boulderCount} sent · {getFailRate(block).toFixed(0)}% fail
+                          {blockTries !== null && ` · ${blockTries.toFixed(1)} tries`}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Fail rate by style tag */}
+            {tagStats.length > 0 && (
+              <div className="mt-6">
+                <h3 className="font-bold text-gray-900 dark:text-white mb-3">
+                  Fail Rate by Style
+                </h3>
+                <TagBreakdown stats={tagStats} />
+              </div>
+            )}
           </div>
         )}
 
         {/* Training Session Summary */}
-        {isTrainingSession(session) && (
+        {!isEditing && isTrainingSession(session) && (
           <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-6">
             <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white text-center">
               Training Session
             </h1>
             <p className="text-center text-gray-500 dark:text-gray-400 mb-6">
               {dateStr}
+              {session.trainingData.protocol && ` · ${session.trainingData.protocol.name}`}
+              {session.trainingData.deload && ' · Deload week'}
             </p>
 
             {/* Duration */}
@@ -222,72 +367,63 @@ export function SummaryView() {
 
             {/* Set completion */}
             <div className="space-y-4 mb-6">
-              <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-                <div className="flex justify-between items-center mb-2">
-                  <span className="text-blue-800 dark:text-blue-200 font-medium">
-                    Max Hangs
-                  </span>
-                  <span className="text-blue-900 dark:text-blue-100 font-bold">
-                    {session.trainingData.hangWeight}kg
-                  </span>
-                </div>
-                <div className="text-sm text-blue-600 dark:text-blue-300">
-                  {session.trainingData.hangSets.filter(s => s.completed).length}/{session.trainingData.hangSets.length} sets completed
-                </div>
-              </div>
-
-              <div className="p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg">
-                <div className="flex justify-between items-center mb-2">
-                  <span className="text-purple-800 dark:text-purple-200 font-medium">
-                    Max Pull-ups
-                  </span>
-                  <span className="text-purple-900 dark:text-purple-100 font-bold">
-                    {session.trainingData.pullupWeight}kg
-                  </span>
-                </div>
-                <div className="text-sm text-purple-600 dark:text-purple-300">
-                  {session.trainingData.pullupSets.filter(s => s.completed).length}/{session.trainingData.pullupSets.length} sets completed
-                </div>
-              </div>
-
-              {(session.trainingData.benchSets ?? []).length > 0 && (
-                <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-green-800 dark:text-green-200 font-medium">
-                      Bench Press
-                    </span>
-                    <span className="text-green-900 dark:text-green-100 font-bold">
-                      {session.trainingData.benchWeight ?? 10}kg
-                    </span>
-                  </div>
-                  <div className="text-sm text-green-600 dark:text-green-300">
-                    {(session.trainingData.benchSets ?? []).filter(s => s.completed).length}/{(session.trainingData.benchSets ?? []).length} sets completed
+              {session.trainingData.exercises.map((block) => {
+                const style = getExerciseStyle(block.order);
+                const exercise = getSessionExercise(session.trainingData, block);
+                const fullSets = block.sets.filter((s) => isSetComplete(s, exercise.reps)).length;
+                const partialSets = block.sets.filter((s) => s.completed).length - fullSets;
+                // Done sets with anything logged beyond "done"
+                const loggedSets = block.sets.filter(
+                  (s) =>
+                    s.completed &&
+                    (s.repsCompleted !== undefined ||
+                      s.load !== undefined ||
+                      s.rpe !== undefined ||
+                      s.rir !== undefined)
+                );
+                return (
+                  <div key={block.id} className={`p-4 rounded-lg ${style.tileClass}`}>
+                    <div className="flex justify-between items-center mb-2">
+                      <span className={`font-medium ${style.labelClass}`}>
+                        {block.exercise.name}
+                      </span>
+                      <span className={`font-bold ${style.valueClass}`}>
+                        {block.load}{block.exercise.unit}
+                      </span>
+                    </div>
+                    <div className={`text-sm ${style.detailClass}`}>
+                      {fullSets}/{block.sets.length} sets completed
+                      {partialSets > 0 && ` · ${partialSets} partial`}
+                      {' · '}
+                      {describeExercise(exercise)}
+                    </div>
+                    {loggedSets.length > 0 && (
+                      <ul className={`mt-2 text-xs space-y-0.5 ${style.detailClass}`}>
+                        {loggedSets.map((set) => (
+                          <li key={set.id}>
+                            Set {set.order}: {set.repsCompleted ?? exercise.reps}/{exercise.reps} reps
+                            {' · '}
+                            {set.load ?? block.load}{exercise.unit}
+                            {set.secondsHeld !== undefined && ` · ${set.secondsHeld}s held`}
+                            {set.rpe !== undefined && ` · RPE ${set.rpe}`}
+                            {set.rir !== undefined && ` · RIR ${set.rir}`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
-                </div>
-              )}
-
-              {(session.trainingData.trapBarSets ?? []).length > 0 && (
-                <div className="p-4 bg-orange-50 dark:bg-orange-900/20 rounded-lg">
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-orange-800 dark:text-orange-200 font-medium">
-                      Trap Bar Deadlift
-                    </span>
-                    <span className="text-orange-900 dark:text-orange-100 font-bold">
-                      {session.trainingData.trapBarWeight ?? 20}kg
-                    </span>
-                  </div>
-                  <div className="text-sm text-orange-600 dark:text-orange-300">
-                    {(session.trainingData.trapBarSets ?? []).filter(s => s.completed).length}/{(session.trainingData.trapBarSets ?? []).length} sets completed
-                  </div>
-                </div>
-              )}
+                );
+              })}
             </div>
 
             {/* All sets completion message */}
-            {isExerciseComplete(session.trainingData.hangSets) &&
-              isExerciseComplete(session.trainingData.pullupSets) &&
-              isExerciseComplete(session.trainingData.benchSets) &&
-              isExerciseComplete(session.trainingData.trapBarSets) && (
+            {session.trainingData.exercises.length > 0 &&
+              session.trainingData.exercises.every((block) =>
+                isExerciseComplete(
+                  block.sets,
+                  getSessionExercise(session.trainingData, block).reps
+                )
+              ) && (
               <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg mb-6 text-center">
                 <span className="text-green-800 dark:text-green-200 font-medium">
                   All sets completed! 🎉
@@ -305,30 +441,14 @@ export function SummaryView() {
                   {trainingRec.reason}
                 </p>
                 <div className="grid grid-cols-2 gap-2 text-sm">
-                  <div>
-                    <span className="text-gray-500 dark:text-gray-400">Hangs:</span>{' '}
-                    <span className="font-medium text-gray-900 dark:text-white">
-                      {trainingRec.hangWeight}kg
-                    </span>
-                  </div>
-                  <div>
-                    <span className="text-gray-500 dark:text-gray-400">Pull-ups:</span>{' '}
-                    <span className="font-medium text-gray-900 dark:text-white">
-                      {trainingRec.pullupWeight}kg
-                    </span>
-                  </div>
-                  <div>
-                    <span className="text-gray-500 dark:text-gray-400">Bench:</span>{' '}
-                    <span className="font-medium text-gray-900 dark:text-white">
-                      {trainingRec.benchWeight}kg
-                    </span>
-                  </div>
-                  <div>
-                    <span className="text-gray-500 dark:text-gray-400">Trap Bar:</span>{' '}
-                    <span className="font-medium text-gray-900 dark:text-white">
-                      {trainingRec.trapBarWeight}kg
-                    </span>
-                  </div>
+                  {trainingRec.exercises.map(({ exercise, load }) => (
+                    <div key={exercise.id}>
+                      <span className="text-gray-500 dark:text-gray-400">{exercise.name}:</span>{' '}
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {load}{exercise.unit}
+                      </span>
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
@@ -336,19 +456,21 @@ export function SummaryView() {
         )}
 
         {/* Actions */}
-        <button
-          onClick={() => navigate('/')}
-          className="w-full btn btn-primary text-lg py-3"
-        >
-          Start New Session
-        </button>
+        {!isEditing && (
+          <button
+            onClick={() => navigate('/')}
+            className="w-full btn btn-primary text-lg py-3"
+          >
+            Start New Session
+          </button>
+        )}
       </div>
 
       {/* Delete confirmation */}
       <ConfirmDialog
         isOpen={showDeleteConfirm}
         title="Delete Session"
-        message={`Delete session from ${dateStr}? This cannot be undone.`}
+        message={`Move session from ${dateStr} to the trash?`}
         confirmText="Delete"
         variant="danger"
         onConfirm={handleDelete}
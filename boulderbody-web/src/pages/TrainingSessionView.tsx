@@ -1,25 +1,41 @@
 /**
  * TrainingSessionView.tsx
  *
- * Training session tracker for max hangs and max pull-ups.
- * Shows sets for both exercises with completion tracking.
+ * Training session tracker for the session's exercises.
+ * Shows sets for each exercise with completion tracking; durations come from
+ * the session's protocol template, or each exercise's own protocol.
  *
- * Hang set flow:
- *   First set:  click → 5s prep → 7s hang (skippable) → 3 min rest (pauseable, skippable)
- *   Subsequent: rest ends/skipped → 7s hang auto-starts → 3 min rest (pauseable, skippable)
+ * Timed set flow (e.g. hangs), each set running rep by rep:
+ *   First set:  click → prep → hang rep 1 → rep rest → hang rep 2 → … → rest (pauseable, skippable)
+ *   Subsequent: rest ends/skipped → next set of the same exercise auto-starts → rest
+ *   Let Go during a hang ends the set early; it's recorded as partial with the reps held.
  *
- * Pull-up set flow:
- *   click → marks complete → 3 min rest (skippable)
+ * Rep set flow (e.g. pull-ups):
+ *   click → marks complete → rest (skippable)
+ *
+ * Every done set opens a quick sheet (over the rest timer) for the actual reps,
+ * load, seconds held and effort; clicking a done set reopens it.
  */
 
 import { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import type { TrainingSession, TrainingSet } from '../models/Session';
 import { isTrainingSession } from '../models/Session';
-import { TRAINING_PROTOCOL } from '../models/SessionType';
+import type { ExerciseBlock } from '../models/SessionType';
+import { getTrainingProgress, getSessionExercise, isSetComplete } from '../models/SessionType';
+import { DEFAULT_PREP_DURATION } from '../models/TrainingProtocol';
+import { describeExercise } from '../models/Exercise';
 import { getAllSessions, updateSession, deleteSession } from '../logic/StorageManager';
+import { useSessionSync } from '../hooks/useSessionSync';
 import { ConfirmDialog } from '../components/ConfirmDialog';
 import { RestTimer } from '../components/RestTimer';
+import { SyncConflictBanner } from '../components/SyncConflictBanner';
+import { getExerciseStyle } from '../components/ExerciseStyle';
+import type { SetDetails } from '../components/SetLogSheet';
+import { SetLogSheet } from '../components/SetLogSheet';
+
+const DEFAULT_HANG_DURATION = 7;
+const DEFAULT_REST = 180;
 
 export function TrainingSessionView() {
   const { sessionId } = useParams<{ sessionId: string }>();
@@ -27,17 +43,25 @@ export function TrainingSessionView() {
   const [session, setSession] = useState<TrainingSession | null>(null);
 
   // Timer visibility
-  const [showPrepTimer, setShowPrepTimer] = useState(false); // 5s get-ready (first hang only)
-  const [showHangTimer, setShowHangTimer] = useState(false); // 7s hang countdown
-  const [showRestTimer, setShowRestTimer] = useState(false); // 3 min rest
+  const [showPrepTimer, setShowPrepTimer] = useState(false); // get-ready (first hang only)
+  const [showHangTimer, setShowHangTimer] = useState(false); // timed set countdown
+  const [showRestTimer, setShowRestTimer] = useState(false); // rest between sets
 
   // Rest timer pause state
   const [restTimerPaused, setRestTimerPaused] = useState(false);
-  const [pendingHangSetId, setPendingHangSetId] = useState<string | null>(null);
+  const [pendingHang, setPendingHang] = useState<{ blockId: string; setId: string } | null>(null);
+  const [currentRep, setCurrentRep] = useState(1); // rep of the pending hang set (1-indexed)
+  const [showRepRestTimer, setShowRepRestTimer] = useState(false); // short rest between reps
+
+  // Done set whose details are being logged
+  const [loggingSet, setLoggingSet] = useState<{ blockId: string; setId: string } | null>(null);
   const [isFirstHangSet, setIsFirstHangSet] = useState(true); // prep shown only on first
 
-  // Track which exercise triggered the rest timer (for auto-starting next hang)
-  const [lastExercise, setLastExercise] = useState<'hang' | 'pullup' | 'bench' | 'trapbar' | null>(null);
+  // Hang set whose rest ended while the sheet was open (starts when it closes)
+  const [queuedHang, setQueuedHang] = useState<{ blockId: string; setId: string } | null>(null);
+
+  // Track which exercise triggered the rest timer (rest length, auto-starting next hang)
+  const [lastBlockId, setLastBlockId] = useState<string | null>(null);
 
   // Dialog visibility
   const [showBreakConfirm, setShowBreakConfirm] = useState(false);
@@ -70,16 +94,38 @@ export function TrainingSessionView() {
     setSession(found);
   }, [sessionId, navigate]);
 
+  // Merge edits from other tabs into the session shown here
+  const { commit, conflicts, dismissConflicts } = useSessionSync(session, setSession, {
+    onRemoteDelete: () => navigate('/'),
+    onRemoteFinish: () => navigate(`/summary/${sessionId}`),
+  });
+
   if (!session) {
     return null; // Loading state
   }
 
   // ─── Set toggle ────────────────────────────────────────────────────────────
 
-  const handleSetToggle = (set: TrainingSet) => {
-    if (set.exercise === 'hang' && !set.completed) {
+  const updateSet = (blockId: string, setId: string, changes: Partial<TrainingSet>) => {
+    const exercises = session.trainingData.exercises.map((block) =>
+      block.id === blockId
+        ? { ...block, sets: block.sets.map((s) => (s.id === setId ? { ...s, ...changes } : s)) }
+        : block
+    );
+    commit({ ...session, trainingData: { ...session.trainingData, exercises } });
+  };
+
+  const handleSetToggle = (block: ExerciseBlock, set: TrainingSet) => {
+    if (set.completed) {
+      // Done set — edit its details (or mark it not done) in the sheet
+      setLoggingSet({ blockId: block.id, setId: set.id });
+      return;
+    }
+
+    if (getSessionExercise(session.trainingData, block).kind === 'timed') {
       // Starting a hang — initiate timer flow, don't mark complete yet
-      setPendingHangSetId(set.id);
+      setPendingHang({ blockId: block.id, setId: set.id });
+      setCurrentRep(1);
       if (isFirstHangSet) {
         setShowPrepTimer(true);
       } else {
@@ -88,99 +134,98 @@ export function TrainingSessionView() {
       return;
     }
 
-    const { trainingData } = session;
-
-    if (set.exercise === 'hang') {
-      // Un-complete hang
-      const updatedHangSets = trainingData.hangSets.map((s) =>
-        s.id === set.id ? { ...s, completed: false, timestamp: undefined } : s
-      );
-      const updatedSession: TrainingSession = {
-        ...session,
-        trainingData: { ...trainingData, hangSets: updatedHangSets },
-      };
-      updateSession(updatedSession);
-      setSession(updatedSession);
-    } else if (set.exercise === 'pullup') {
-      const updatedPullupSets = trainingData.pullupSets.map((s) =>
-        s.id === set.id
-          ? { ...s, completed: !s.completed, timestamp: !s.completed ? new Date() : undefined }
-          : s
-      );
-      const updatedSession: TrainingSession = {
-        ...session,
-        trainingData: { ...trainingData, pullupSets: updatedPullupSets },
-      };
-      updateSession(updatedSession);
-      setSession(updatedSession);
-      if (!set.completed) {
-        setLastExercise('pullup');
-        setShowRestTimer(true);
-      }
-    } else if (set.exercise === 'bench') {
-      const updatedBenchSets = (trainingData.benchSets ?? []).map((s) =>
-        s.id === set.id
-          ? { ...s, completed: !s.completed, timestamp: !s.completed ? new Date() : undefined }
-          : s
-      );
-      const updatedSession: TrainingSession = {
-        ...session,
-        trainingData: { ...trainingData, benchSets: updatedBenchSets },
-      };
-      updateSession(updatedSession);
-      setSession(updatedSession);
-      if (!set.completed) {
-        setLastExercise('bench');
-        setShowRestTimer(true);
-      }
-    } else if (set.exercise === 'trapbar') {
-      const updatedTrapBarSets = (trainingData.trapBarSets ?? []).map((s) =>
-        s.id === set.id
-          ? { ...s, completed: !s.completed, timestamp: !s.completed ? new Date() : undefined }
-          : s
-      );
-      const updatedSession: TrainingSession = {
-        ...session,
-        trainingData: { ...trainingData, trapBarSets: updatedTrapBarSets },
-      };
-      updateSession(updatedSession);
-      setSession(updatedSession);
-      if (!set.completed) {
-        setLastExercise('trapbar');
-        setShowRestTimer(true);
-      }
+    updateSet(block.id, set.id, { completed: true, timestamp: new Date() });
+    setLastBlockId(block.id);
+    setShowRestTimer(true);
+    setLoggingSet({ blockId: block.id, setId: set.id });
+  };
+
+  // ─── Set details sheet ──────────────────────────────────────────────────────
+
+  // Close the sheet, then start a hang set whose rest ended while it was open
+  const closeLogSheet = () => {
+    setLoggingSet(null);
+    if (queuedHang) {
+      startHang(queuedHang);
+      setQueuedHang(null);
     }
   };
 
+  const handleSaveDetails = (details: SetDetails) => {
+    if (!loggingSet) return;
+    updateSet(loggingSet.blockId, loggingSet.setId, details);
+    closeLogSheet();
+  };
+
+  const handleUndoSet = () => {
+    if (!loggingSet) return;
+    updateSet(loggingSet.blockId, loggingSet.setId, {
+      completed: false,
+      timestamp: undefined,
+      repsCompleted: undefined,
+      load: undefined,
+      secondsHeld: undefined,
+      rpe: undefined,
+      rir: undefined,
+    });
+    closeLogSheet();
+  };
+
   // ─── Hang timer handlers ────────────────────────────────────────────────────
 
+  // Start a hang set's countdown (no prep)
+  const startHang = (hang: { blockId: string; setId: string }) => {
+    setPendingHang(hang);
+    setCurrentRep(1);
+    setShowHangTimer(true);
+  };
+
   const handlePrepComplete = () => {
     setShowPrepTimer(false);
     setShowHangTimer(true);
   };
 
-  const handleHangComplete = () => {
-    if (!pendingHangSetId) return;
-
-    const updatedHangSets = session.trainingData.hangSets.map((s) =>
-      s.id === pendingHangSetId ? { ...s, completed: true, timestamp: new Date() } : s
-    );
-    const updatedSession: TrainingSession = {
-      ...session,
-      trainingData: { ...session.trainingData, hangSets: updatedHangSets },
-    };
+  // End the pending set, recording how many reps were held
+  const finishHangSet = (repsHeld: number) => {
+    if (!pendingHang) return;
 
-    updateSession(updatedSession);
-    setSession(updatedSession);
+    updateSet(pendingHang.blockId, pendingHang.setId, {
+      completed: true,
+      timestamp: new Date(),
+      repsCompleted: repsHeld,
+      secondsHeld: repsHeld * hangDuration,
+    });
 
     setIsFirstHangSet(false);
-    setLastExercise('hang');
+    setLastBlockId(pendingHang.blockId);
     setShowHangTimer(false);
     setShowRestTimer(true);
+    setLoggingSet(pendingHang);
+  };
+
+  const handleHangComplete = () => {
+    if (currentRep >= pendingReps) {
+      finishHangSet(pendingReps);
+    } else if (pendingRepRest > 0) {
+      setShowHangTimer(false);
+      setShowRepRestTimer(true);
+    } else {
+      setCurrentRep(currentRep + 1); // hang timer restarts for the next rep
+    }
   };
 
   const handleHangSkip = () => {
-    handleHangComplete(); // skip still marks complete
+    handleHangComplete(); // skip still counts the rep
+  };
+
+  const handleLetGo = () => {
+    finishHangSet(currentRep - 1); // partial set: reps before this one were held
+  };
+
+  const handleRepRestComplete = () => {
+    setShowRepRestTimer(false);
+    setCurrentRep(currentRep + 1);
+    setShowHangTimer(true);
   };
 
   // ─── Rest timer handlers ────────────────────────────────────────────────────
@@ -189,12 +234,14 @@ export function TrainingSessionView() {
     setShowRestTimer(false);
     setRestTimerPaused(false);
 
-    if (lastExercise === 'hang') {
-      // Auto-start next uncompleted hang set (no prep)
-      const nextHangSet = session.trainingData.hangSets.find((s) => !s.completed);
-      if (nextHangSet) {
-        setPendingHangSetId(nextHangSet.id);
-        setShowHangTimer(true);
+    if (lastBlock && getSessionExercise(session.trainingData, lastBlock).kind === 'timed') {
+      // Auto-start next uncompleted set of the same exercise (no prep), but not
+      // behind the set details sheet: wait until it is closed
+      const nextSet = lastBlock.sets.find((s) => !s.completed);
+      if (nextSet && loggingSet) {
+        setQueuedHang({ blockId: lastBlock.id, setId: nextSet.id });
+      } else if (nextSet) {
+        startHang({ blockId: lastBlock.id, setId: nextSet.id });
       }
     }
   };
@@ -222,22 +269,27 @@ export function TrainingSessionView() {
 
   const handleBreakSession = () => {
     deleteSession(session.id);
-    navigate('/');
+    navigate('/', { state: { trashedSessionId: session.id } });
   };
 
   // ─── Derived values ─────────────────────────────────────────────────────────
 
-  const totalCompleted =
-    session.trainingData.hangSets.filter((s) => s.completed).length +
-    session.trainingData.pullupSets.filter((s) => s.completed).length +
-    (session.trainingData.benchSets ?? []).filter((s) => s.completed).length +
-    (session.trainingData.trapBarSets ?? []).filter((s) => s.completed).length;
-
-  const totalSets =
-    session.trainingData.hangSets.length +
-    session.trainingData.pullupSets.length +
-    (session.trainingData.benchSets ?? []).length +
-    (session.trainingData.trapBarSets ?? []).length;
+  const { completed: totalCompleted, total: totalSets } = getTrainingProgress(
+    session.trainingData
+  );
+  const { protocol, deload } = session.trainingData;
+  const lastBlock = session.trainingData.exercises.find((b) => b.id === lastBlockId);
+  const pendingBlock = session.trainingData.exercises.find((b) => b.id === pendingHang?.blockId);
+  const restDuration = lastBlock
+    ? getSessionExercise(session.trainingData, lastBlock).rest
+    : DEFAULT_REST;
+  const pendingExercise = pendingBlock && getSessionExercise(session.trainingData, pendingBlock);
+  const hangDuration = pendingExercise?.duration ?? DEFAULT_HANG_DURATION;
+  const pendingReps = pendingExercise?.reps ?? 1;
+  const pendingRepRest = pendingExercise?.repRest ?? 0;
+  const repLabel = pendingReps > 1 ? `Rep ${currentRep}/${pendingReps}` : undefined;
+  const loggingBlock = session.trainingData.exercises.find((b) => b.id === loggingSet?.blockId);
+  const loggedSet = loggingBlock?.sets.find((s) => s.id === loggingSet?.setId);
 
   // ─── Render ─────────────────────────────────────────────────────────────────
 
@@ -264,15 +316,24 @@ export function TrainingSessionView() {
             </button>
           </div>
 
+          {(protocol || deload) && (
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 text-center mb-1">
+              {[protocol?.name, deload && 'Deload week'].filter(Boolean).join(' · ')}
+            </p>
+          )}
+
           {/* Weight info */}
           <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm text-gray-600 dark:text-gray-400 text-center">
-            <span>Hangs: {session.trainingData.hangWeight}kg</span>
-            <span>Pull-ups: {session.trainingData.pullupWeight}kg</span>
-            <span>Bench: {session.trainingData.benchWeight ?? 10}kg</span>
-            <span>Trap Bar: {session.trainingData.trapBarWeight ?? 20}kg</span>
+            {session.trainingData.exercises.map((block) => (
+              <span key={block.id}>
+                {block.exercise.name}: {block.load}{block.exercise.unit}
+              </span>
+            ))}
           </div>
         </div>
 
+        <SyncConflictBanner conflicts={conflicts} onDismiss={dismissConflicts} />
+
         {/* Progress indicator */}
         <div className="mb-6 p-4 bg-white dark:bg-gray-800 rounded-lg shadow">
           <div className="flex justify-between items-center mb-2">
@@ -291,97 +352,39 @@ export function TrainingSessionView() {
           </div>
         </div>
 
-        {/* Max Hangs Section */}
-        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-4">
-          <h2 className="text-xl font-bold mb-3 text-gray-900 dark:text-white">
-            Max Hangs ({TRAINING_PROTOCOL.hangDuration}s × {TRAINING_PROTOCOL.hangReps} reps)
-          </h2>
-          <div className="grid grid-cols-5 gap-3">
-            {session.trainingData.hangSets.map((set) => (
-              <button
-                key={set.id}
-                onClick={() => handleSetToggle(set)}
-                className={`aspect-square rounded-lg font-bold text-lg transition-all ${
-                  set.completed
-                    ? 'bg-blue-600 text-white shadow-lg scale-105'
-                    : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
-                }`}
-              >
-                {set.order}
-              </button>
-            ))}
-          </div>
-        </div>
-
-        {/* Max Pull-ups Section */}
-        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-4">
-          <h2 className="text-xl font-bold mb-3 text-gray-900 dark:text-white">
-            Max Pull-ups ({TRAINING_PROTOCOL.pullupReps} reps)
-          </h2>
-          <div className="grid grid-cols-5 gap-3">
-            {session.trainingData.pullupSets.map((set) => (
-              <button
-                key={set.id}
-                onClick={() => handleSetToggle(set)}
-                className={`aspect-square rounded-lg font-bold text-lg transition-all ${
-                  set.completed
-                    ? 'bg-purple-600 text-white shadow-lg scale-105'
-                    : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
-                }`}
-              >
-                {set.order}
-              </button>
-            ))}
-          </div>
-        </div>
-
-        {/* Bench Press Section */}
-        {(session.trainingData.benchSets ?? []).length > 0 && (
-          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-4">
-            <h2 className="text-xl font-bold mb-3 text-gray-900 dark:text-white">
-              Bench Press ({TRAINING_PROTOCOL.benchReps} reps)
-            </h2>
-            <div className="grid grid-cols-5 gap-3">
-              {(session.trainingData.benchSets ?? []).map((set) => (
-                <button
-                  key={set.id}
-                  onClick={() => handleSetToggle(set)}
-                  className={`aspect-square rounded-lg font-bold text-lg transition-all ${
-                    set.completed
-                      ? 'bg-green-600 text-white shadow-lg scale-105'
-                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
-                  }`}
-                >
-                  {set.order}
-                </button>
-              ))}
-            </div>
-          </div>
-        )}
-
-        {/* Trap Bar Deadlift Section */}
-        {(session.trainingData.trapBarSets ?? []).length > 0 && (
-          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-6">
+        {/* Exercise sections */}
+        {session.trainingData.exercises.map((block) => (
+          <div key={block.id} className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-4">
             <h2 className="text-xl font-bold mb-3 text-gray-900 dark:text-white">
-              Trap Bar Deadlift ({TRAINING_PROTOCOL.trapBarReps} reps)
+              {block.exercise.name} (
+              {describeExercise(getSessionExercise(session.trainingData, block))})
             </h2>
             <div className="grid grid-cols-5 gap-3">
-              {(session.trainingData.trapBarSets ?? []).map((set) => (
-                <button
-                  key={set.id}
-                  onClick={() => handleSetToggle(set)}
-                  className={`aspect-square rounded-lg font-bold text-lg transition-all ${
-                    set.completed
-                      ? 'bg-orange-500 text-white shadow-lg scale-105'
-                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
-                  }`}
-                >
-                  {set.order}
-                </button>
-              ))}
+              {block.sets.map((set) => {
+                const { reps } = getSessionExercise(session.trainingData, block);
+                const partial = set.completed && !isSetComplete(set, reps);
+                return (
+                  <button
+                    key={set.id}
+                    onClick={() => handleSetToggle(block, set)}
+                    className={`aspect-square rounded-lg font-bold text-lg transition-all flex flex-col items-center justify-center ${
+                      set.completed
+                        ? `${getExerciseStyle(block.order).solidClass} text-white shadow-lg scale-105 ${partial ? 'opacity-60' : ''}`
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    {set.order}
+                    {partial && (
+                      <span className="text-xs font-medium">
+                        {set.repsCompleted}/{reps}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
             </div>
           </div>
-        )}
+        ))}
 
         {/* Finish button */}
         <button onClick={handleFinishSession} className="w-full btn btn-success text-lg py-3">
@@ -389,27 +392,40 @@ export function TrainingSessionView() {
         </button>
       </div>
 
-      {/* 5s prep timer — first hang set only */}
+      {/* Prep timer — first hang set only */}
       <RestTimer
         isOpen={showPrepTimer}
-        duration={5}
+        duration={protocol?.prepDuration ?? DEFAULT_PREP_DURATION}
         onComplete={handlePrepComplete}
         title="Get Ready"
       />
 
-      {/* 7s hang timer — skippable only */}
+      {/* Hang timer — one rep at a time; skippable, or let go to end the set */}
       <RestTimer
+        key={currentRep}
         isOpen={showHangTimer}
-        duration={TRAINING_PROTOCOL.hangDuration}
+        duration={hangDuration}
         onComplete={handleHangComplete}
         onSkip={handleHangSkip}
+        onLetGo={handleLetGo}
         title="Hang!"
+        subtitle={repLabel}
+      />
+
+      {/* Rest between reps of a hang set */}
+      <RestTimer
+        isOpen={showRepRestTimer}
+        duration={pendingRepRest}
+        onComplete={handleRepRestComplete}
+        onSkip={handleRepRestComplete}
+        title="Rest"
+        subtitle={`Rep ${currentRep + 1}/${pendingReps} next`}
       />
 
-      {/* 3 min rest timer — pauseable and skippable */}
+      {/* Rest timer — pauseable and skippable */}
       <RestTimer
         isOpen={showRestTimer}
-        duration={TRAINING_PROTOCOL.restBetweenSets}
+        duration={restDuration}
         onComplete={handleRestComplete}
         onSkip={() => {
           setShowRestTimer(false);
@@ -421,11 +437,24 @@ export function TrainingSessionView() {
         title="Rest"
       />
 
+      {/* Set details — above the timers (z-50 over z-40) so rest runs while logging */}
+      {loggingBlock && loggedSet && (
+        <SetLogSheet
+          key={loggedSet.id}
+          exercise={getSessionExercise(session.trainingData, loggingBlock)}
+          set={loggedSet}
+          plannedLoad={loggingBlock.load}
+          onSave={handleSaveDetails}
+          onUndo={handleUndoSet}
+          onClose={closeLogSheet}
+        />
+      )}
+
       {/* Break session confirmation */}
       <ConfirmDialog
         isOpen={showBreakConfirm}
         title="Break Session?"
-        message="Are you sure you want to end this session? It will be deleted and won't appear in your history."
+        message="Are you sure you want to end this session? It will be moved to the trash and won't appear in your history."
         confirmText="End Session"
         cancelText="Continue"
         variant="danger"
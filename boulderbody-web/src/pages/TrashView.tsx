@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { Session } from '../models/Session';
+import { isVolumeSession } from '../models/Session';
+import {
+  getTrashedSessions,
+  restoreSession,
+  purgeSession,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+  purgeExpiredTrash,
+  getSessionGradeLabel,
+} from '../logic/StorageManager';
+import { ConfirmDialog } from '../components/ConfirmDialog';
+
+const RETENTION_OPTIONS = [7, 14, 30, 90];
+
+/**
+ * Trash View - Deleted and broken-off sessions.
+ * Sessions can be restored or purged; they are purged automatically after the retention period.
+ */
+export function TrashView() {
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<Session[]>(getTrashedSessions);
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays);
+  const [purgeTarget, setPurgeTarget] = useState<Session | 'all' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now] = useState(Date.now);
+
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+
+  const daysLeft = (session: Session) => {
+    const expiresAt = session.deletedAt!.getTime() + retentionDays * 24 * 60 * 60 * 1000;
+    return Math.max(0, Math.ceil((expiresAt - now) / (24 * 60 * 60 * 1000)));
+  };
+
+  const handleRestore = (session: Session) => {
+    try {
+      restoreSession(session.id);
+      setSessions(getTrashedSessions());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not restore session.');
+    }
+  };
+
+  const confirmPurge = () => {
+    if (!purgeTarget) return;
+
+    const targets = purgeTarget === 'all' ? sessions : [purgeTarget];
+    targets.forEach((s) => purgeSession(s.id));
+    setSessions(getTrashedSessions());
+    setPurgeTarget(null);
+  };
+
+  const handleRetentionChange = (days: number) => {
+    setTrashRetentionDays(days);
+    setRetentionDays(days);
+    purgeExpiredTrash();
+    setSessions(getTrashedSessions());
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            ← Home
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Trash</h1>
+          <button
+            onClick={() => setPurgeTarget('all')}
+            disabled={sessions.length === 0}
+            className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium disabled:opacity-40"
+          >
+            Empty
+          </button>
+        </div>
+
+        {/* Retention setting */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow mb-6 flex justify-between items-center">
+          <label
+            htmlFor="retention"
+            className="text-sm font-medium text-gray-700 dark:text-gray-300"
+          >
+            Delete permanently after
+          </label>
+          <select
+            id="retention"
+            value={retentionDays}
+            onChange={(e) => handleRetentionChange(parseInt(e.target.value))}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {RETENTION_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days} days
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Trashed sessions */}
+        {sessions.length > 0 ? (
+          <div className="space-y-3">
+            {sessions.map((session) => (
+              <div
+                key={session.id}
+                className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <div className="text-lg font-bold text-gray-900 dark:text-white">
+                      {isVolumeSession(session)
+                        ? getSessionGradeLabel(session)
+                        : 'Training Session'}
+                      {!session.isFinished && (
+                        <span className="ml-2 text-xs font-medium text-amber-600 dark:text-amber-400">
+                          unfinished
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {formatDate(session.date)} · deleted {formatDate(session.deletedAt!)}
+                    </div>
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {daysLeft(session)} days left
+                  </div>
+                </div>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => handleRestore(session)}
+                    className="flex-1 btn btn-secondary"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => setPurgeTarget(session)}
+                    className="flex-1 btn btn-danger"
+                  >
+                    Delete Forever
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+            <p className="text-lg">Trash is empty.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Purge confirmation */}
+      <ConfirmDialog
+        isOpen={!!purgeTarget}
+        title={purgeTarget === 'all' ? 'Empty Trash' : 'Delete Forever'}
+        message={
+          purgeTarget === 'all'
+            ? `Permanently delete all ${sessions.length} sessions in the trash? This cannot be undone.`
+            : 'Permanently delete this session? This cannot be undone.'
+        }
+        confirmText="Delete"
+        variant="danger"
+        onConfirm={confirmPurge}
+        onCancel={() => setPurgeTarget(null)}
+      />
+
+      {/* Restore error (e.g. another session is active) */}
+      <ConfirmDialog
+        isOpen={!!error}
+        title="Could Not Restore"
+        message={error ?? ''}
+        confirmText="OK"
+        onConfirm={() => setError(null)}
+        onCancel={() => setError(null)}
+      />
+    </div>
+  );
+}